@@ -9,10 +9,11 @@ import EditTaskModal from '@/components/EditTaskModal';
 import EmptyState from '@/components/EmptyState';
 import Colors from '@/constants/colors';
 import { Task, TaskStatus } from '@/types/task';
-import { parseTaskInput } from '@/utils/helpers';
+import { deferredUntil, parseTaskInput } from '@/utils/helpers';
+import { resolveTaskReference } from '@/utils/dependencies';
 
 export default function InboxScreen() {
-  const { tasks, projects, addTask, updateTask, deleteTask, completeTask, moveTask, isLoading, stats } = useTasks();
+  const { tasks, projects, contexts, today, dependencies, addTask, updateTask, deleteTask, promoteToProject, completeTask, moveTask, isLoading, stats } = useTasks();
   const [selectedTask, setSelectedTask] = useState<Task | null>(null);
   const [showActionSheet, setShowActionSheet] = useState(false);
   const [showEditModal, setShowEditModal] = useState(false);
@@ -22,7 +23,7 @@ export default function InboxScreen() {
 
   const handleAddTask = useCallback((input: string) => {
     console.log('Parsing task input:', input);
-    const parsed = parseTaskInput(input);
+    const parsed = parseTaskInput(input, contexts);
     console.log('Parsed task:', parsed);
 
     // Find project by name if specified
@@ -38,16 +39,24 @@ export default function InboxScreen() {
       }
     }
 
+    const dependsOn = parsed.dependencies
+      .map(reference => resolveTaskReference(reference, tasks)?.id)
+      .filter((id): id is string => !!id);
+
     addTask({
       title: parsed.title,
       status: parsed.status || 'inbox',
       priority: parsed.priority,
-      context: parsed.context,
+      contexts: parsed.contexts.length > 0 ? parsed.contexts : undefined,
       projectId,
       dueDate: parsed.dueDate,
+      startDate: parsed.startDate,
+      waitUntil: parsed.waitUntil,
+      dependsOn: dependsOn.length > 0 ? dependsOn : undefined,
       tags: parsed.tags,
+      recurrence: parsed.recurrence,
     });
-  }, [addTask, projects]);
+  }, [addTask, projects, contexts, tasks]);
 
   const handleTaskPress = useCallback((task: Task) => {
     setSelectedTask(task);
@@ -85,6 +94,12 @@ export default function InboxScreen() {
     }
   }, [selectedTask, deleteTask]);
 
+  const handlePromote = useCallback(() => {
+    if (selectedTask) {
+      promoteToProject(selectedTask.id);
+    }
+  }, [selectedTask, promoteToProject]);
+
   const onRefresh = useCallback(() => {
     setRefreshing(true);
     setTimeout(() => setRefreshing(false), 500);
@@ -96,8 +111,12 @@ export default function InboxScreen() {
       onPress={() => handleTaskPress(item)}
       onComplete={() => handleComplete(item)}
       onLongPress={() => handleTaskPress(item)}
+      blockedBy={dependencies.blockedBy.get(item.id)}
+      blocking={dependencies.blocking.get(item.id)}
+      deferredUntil={deferredUntil(item, today)}
+      contexts={contexts}
     />
-  ), [handleTaskPress, handleComplete]);
+  ), [handleTaskPress, handleComplete, dependencies, today, contexts]);
 
   return (
     <View style={styles.container}>
@@ -150,6 +169,7 @@ export default function InboxScreen() {
         onMove={handleMove}
         onEdit={handleEdit}
         onDelete={handleDelete}
+        onPromote={handlePromote}
       />
 
       <EditTaskModal
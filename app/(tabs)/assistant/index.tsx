@@ -6,6 +6,8 @@ import { createRorkTool, useRorkAgent } from '@rork-ai/toolkit-sdk';
 import { z } from 'zod';
 import { useTasks } from '@/contexts/TaskContext';
 import Colors from '@/constants/colors';
+import { activeContexts, contextLabel, findContextByName } from '@/utils/contexts';
+import { generateId } from '@/utils/helpers';
 import * as Haptics from 'expo-haptics';
 
 const QUICK_PROMPTS = [
@@ -16,7 +18,7 @@ const QUICK_PROMPTS = [
 ];
 
 export default function AssistantScreen() {
-  const { tasks, projects, areas, addTask, moveTask, addProject, stats } = useTasks();
+  const { tasks, projects, areas, contexts, addTask, moveTask, addProject, stats } = useTasks();
   const [input, setInput] = useState('');
   const [isRecording, setIsRecording] = useState(false);
   const [isTranscribing, setIsTranscribing] = useState(false);
@@ -25,6 +27,10 @@ export default function AssistantScreen() {
   const audioChunksRef = useRef<Blob[]>([]);
   const pulseAnim = useRef(new Animated.Value(1)).current;
   const flatListRef = useRef<FlatList>(null);
+  // Everything the assistant changes in answer to one message undoes together.
+  const replyGroup = useRef(generateId());
+  // The user's own contexts, as the assistant should write them.
+  const contextNames = activeContexts(contexts).map(c => `@${c.name}`);
 
   const { messages, sendMessage, status } = useRorkAgent({
     tools: {
@@ -34,25 +40,31 @@ export default function AssistantScreen() {
           title: z.string().describe("The task title - keep it actionable and clear"),
           status: z.enum(['inbox', 'next', 'waiting', 'someday']).describe("GTD bucket: inbox for unclarified, next for actionable, waiting for delegated, someday for future"),
           priority: z.enum(['high', 'medium', 'low']).optional().describe("Task priority level"),
-          context: z.enum(['@home', '@work', '@computer', '@phone', '@errands', '@anywhere']).optional().describe("Context where the task can be done"),
+          contexts: z.array(z.string()).optional().describe(`Contexts where the task can be done, any of: ${contextNames.join(', ') || 'none yet'}`),
           dueDate: z.string().optional().describe("Due date in YYYY-MM-DD format. Set this to schedule the task on the calendar."),
+          startDate: z.string().optional().describe("Start date in YYYY-MM-DD format. The task stays out of Next Actions and the planner until then - use this to defer (tickle) a task."),
           projectId: z.string().optional().describe("Associated project ID - use getProjects to find existing project IDs"),
           waitingFor: z.string().optional().describe("Person or thing being waited on, if status is waiting"),
         }),
         execute(taskInput) {
           console.log('AI adding task:', taskInput);
+          const known = (taskInput.contexts ?? []).map(name => findContextByName(name, contexts));
+          const contextIds = known.flatMap(c => (c ? [c.id] : []));
+          const unknown = (taskInput.contexts ?? []).filter((_, i) => !known[i]);
           addTask({
             title: taskInput.title,
             status: taskInput.status,
             priority: taskInput.priority,
-            context: taskInput.context,
+            contexts: contextIds.length > 0 ? [...new Set(contextIds)] : undefined,
             dueDate: taskInput.dueDate,
+            startDate: taskInput.startDate,
             projectId: taskInput.projectId,
             waitingFor: taskInput.waitingFor,
-          });
+          }, { source: 'assistant', group: replyGroup.current });
           const calendarNote = taskInput.dueDate ? ` (scheduled for ${taskInput.dueDate})` : '';
           const projectNote = taskInput.projectId ? ` in project` : '';
-          return `Added task: ${taskInput.title}${calendarNote}${projectNote}`;
+          const contextNote = unknown.length > 0 ? `; skipped ${unknown.join(', ')}, which the user does not have` : '';
+          return `Added task: ${taskInput.title}${calendarNote}${projectNote}${contextNote}`;
         },
       }),
       moveTask: createRorkTool({
@@ -63,7 +75,7 @@ export default function AssistantScreen() {
         }),
         execute(moveInput) {
           console.log('AI moving task:', moveInput);
-          moveTask(moveInput.taskId, moveInput.newStatus);
+          moveTask(moveInput.taskId, moveInput.newStatus, { source: 'assistant', group: replyGroup.current });
           return `Moved task to ${moveInput.newStatus}`;
         },
       }),
@@ -85,7 +97,7 @@ export default function AssistantScreen() {
             scheduled: scheduledTasks.length,
             total: tasks.length,
             inboxItems: inboxTasks.slice(0, 10).map(t => `${t.id}: ${t.title}`).join(', '),
-            nextActions: nextTasks.slice(0, 5).map(t => `${t.id}: ${t.title} (${t.priority || 'no priority'}, ${t.context || 'no context'})`).join(', '),
+            nextActions: nextTasks.slice(0, 5).map(t => `${t.id}: ${t.title} (${t.priority || 'no priority'}, ${t.contexts?.length ? t.contexts.map(id => contextLabel(id, contexts)).join(' ') : 'no context'})`).join(', '),
             upcomingScheduled: scheduledTasks.slice(0, 5).map(t => `${t.id}: ${t.title} (due: ${t.dueDate})`).join(', '),
             activeProjects: projects.filter(p => p.status === 'active').map(p => `${p.id}: ${p.title}`).join(', '),
           };
@@ -98,23 +110,26 @@ export default function AssistantScreen() {
           title: z.string().describe("The project title - should describe the desired outcome"),
           description: z.string().optional().describe("Detailed description of the project"),
           outcome: z.string().optional().describe("The successful outcome that defines project completion"),
-          areaId: z.enum(['work', 'personal', 'health', 'finance']).optional().describe("Area of focus this project belongs to"),
+          area: z.string().optional().describe(`Area of responsibility this project belongs to, one of: ${areas.map(a => a.title).join(', ') || 'none yet'}`),
           status: z.enum(['active', 'on-hold']).default('active').describe("Project status: active or on-hold"),
           dueDate: z.string().optional().describe("Target completion date in YYYY-MM-DD format"),
           color: z.string().optional().describe("Project color in hex format (e.g., #3B82F6). Defaults to blue."),
         }),
         execute(projectInput) {
           console.log('AI creating project:', projectInput);
+          const wanted = projectInput.area?.trim().toLowerCase();
+          const area = wanted ? areas.find(a => a.title.toLowerCase() === wanted || a.id === projectInput.area) : undefined;
           const newProject = addProject({
             title: projectInput.title,
             description: projectInput.description,
             outcome: projectInput.outcome,
-            areaId: projectInput.areaId,
+            areaId: area?.id,
             status: projectInput.status || 'active',
             dueDate: projectInput.dueDate,
             color: projectInput.color || '#3B82F6',
-          });
-          return `Created project: ${projectInput.title} (ID: ${newProject.id}). You can now add tasks to this project using the addTask tool with projectId: ${newProject.id}`;
+          }, { source: 'assistant', group: replyGroup.current });
+          const areaNote = projectInput.area && !area ? ` The user has no area called ${projectInput.area}, so it has none.` : '';
+          return `Created project: ${projectInput.title} (ID: ${newProject.id}).${areaNote} You can now add tasks to this project using the addTask tool with projectId: ${newProject.id}`;
         },
       }),
       getProjects: createRorkTool({
@@ -125,10 +140,10 @@ export default function AssistantScreen() {
             id: p.id,
             title: p.title,
             status: p.status,
-            area: p.areaId || 'none',
+            area: areas.find(a => a.id === p.areaId)?.title ?? 'none',
             taskCount: tasks.filter(t => t.projectId === p.id).length,
           }));
-          return JSON.stringify({ projects: projectList, availableAreas: areas.map(a => ({ id: a.id, title: a.title })) });
+          return JSON.stringify({ projects: projectList, availableAreas: areas.map(a => a.title) });
         },
       }),
     },
@@ -139,6 +154,7 @@ export default function AssistantScreen() {
       if (Platform.OS !== 'web') {
         Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
       }
+      replyGroup.current = generateId();
       sendMessage(input.trim());
       setInput('');
       setTimeout(() => flatListRef.current?.scrollToEnd({ animated: true }), 100);
@@ -150,6 +166,7 @@ export default function AssistantScreen() {
       if (Platform.OS !== 'web') {
         Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
       }
+      replyGroup.current = generateId();
       sendMessage(text);
       setTimeout(() => flatListRef.current?.scrollToEnd({ animated: true }), 100);
     }
@@ -1,4 +1,6 @@
-import { Stack } from "expo-router";
+import { router, Stack } from "expo-router";
+import { TouchableOpacity } from "react-native";
+import { CalendarCog } from "lucide-react-native";
 import Colors from "@/constants/colors";
 
 export default function CalendarLayout() {
@@ -11,7 +13,17 @@ export default function CalendarLayout() {
         contentStyle: { backgroundColor: Colors.background },
       }}
     >
-      <Stack.Screen name="index" options={{ title: "Calendar" }} />
+      <Stack.Screen
+        name="index"
+        options={{
+          title: "Calendar",
+          headerRight: () => (
+            <TouchableOpacity onPress={() => router.push("/calendars")} hitSlop={8}>
+              <CalendarCog size={22} color={Colors.text} />
+            </TouchableOpacity>
+          ),
+        }}
+      />
     </Stack>
   );
 }
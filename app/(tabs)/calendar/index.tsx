@@ -1,12 +1,15 @@
 import React, { useState, useMemo, useCallback, useRef } from 'react';
 import { View, StyleSheet, Text, TouchableOpacity, ScrollView, Animated, Dimensions } from 'react-native';
-import { ChevronLeft, ChevronRight, Circle, CheckCircle2, AlertCircle } from 'lucide-react-native';
+import { ChevronLeft, ChevronRight, Circle, CheckCircle2, AlertCircle, CalendarDays } from 'lucide-react-native';
 import { useTasks } from '@/contexts/TaskContext';
+import { useCalendarEvents } from '@/contexts/CalendarContext';
 import TaskItem from '@/components/TaskItem';
+import EventBlock from '@/components/EventBlock';
 import TaskActionSheet from '@/components/TaskActionSheet';
 import EditTaskModal from '@/components/EditTaskModal';
 import Colors from '@/constants/colors';
 import { Task, TaskStatus } from '@/types/task';
+import { deferredUntil } from '@/utils/helpers';
 import * as Haptics from 'expo-haptics';
 import { Platform } from 'react-native';
 
@@ -84,7 +87,7 @@ const getTasksForDate = (date: Date, tasks: Task[], completed: boolean): Task[]
 };
 
 export default function CalendarScreen() {
-  const { tasks, projects, updateTask, deleteTask, completeTask, moveTask } = useTasks();
+  const { tasks, projects, contexts, today, dependencies, updateTask, deleteTask, promoteToProject, completeTask, moveTask } = useTasks();
   const [currentDate, setCurrentDate] = useState(new Date());
   const [selectedDate, setSelectedDate] = useState<Date | null>(new Date());
   const [selectedTask, setSelectedTask] = useState<Task | null>(null);
@@ -99,6 +102,17 @@ export default function CalendarScreen() {
     return getCalendarDays(year, month, tasks);
   }, [year, month, tasks]);
 
+  const [gridStart, gridEnd] = useMemo(() => {
+    const last = calendarDays[calendarDays.length - 1].date;
+    return [calendarDays[0].date, new Date(last.getFullYear(), last.getMonth(), last.getDate() + 1)];
+  }, [calendarDays]);
+  const { calendarsById, getEventsForDay } = useCalendarEvents(gridStart, gridEnd);
+
+  const eventsByDay = useMemo(() => {
+    return new Map(calendarDays.map(day => [day.date.toDateString(), getEventsForDay(day.date)]));
+  }, [calendarDays, getEventsForDay]);
+  const selectedEvents = (selectedDate && eventsByDay.get(selectedDate.toDateString())) || [];
+
   const selectedDayData = useMemo(() => {
     if (!selectedDate) return null;
     return calendarDays.find(day => day.date.toDateString() === selectedDate.toDateString());
@@ -172,6 +186,12 @@ export default function CalendarScreen() {
     }
   }, [selectedTask, deleteTask]);
 
+  const handlePromote = useCallback(() => {
+    if (selectedTask) {
+      promoteToProject(selectedTask.id);
+    }
+  }, [selectedTask, promoteToProject]);
+
   const isOverdue = (date: Date): boolean => {
     const today = new Date();
     today.setHours(0, 0, 0, 0);
@@ -210,6 +230,7 @@ export default function CalendarScreen() {
         {calendarDays.map((day, index) => {
           const hasTasks = day.tasks.length > 0;
           const hasCompleted = day.completedTasks.length > 0;
+          const hasEvents = (eventsByDay.get(day.date.toDateString())?.length ?? 0) > 0;
           const hasOverdue = day.isCurrentMonth && isOverdue(day.date) && hasTasks;
           const isSelected = selectedDate?.toDateString() === day.date.toDateString();
           
@@ -243,6 +264,9 @@ export default function CalendarScreen() {
                 {hasCompleted && (
                   <View style={[styles.dot, styles.dotCompleted]} />
                 )}
+                {hasEvents && (
+                  <View style={[styles.dot, styles.dotEvent]} />
+                )}
               </View>
             </TouchableOpacity>
           );
@@ -258,6 +282,21 @@ export default function CalendarScreen() {
       </View>
 
       <ScrollView style={styles.taskList} showsVerticalScrollIndicator={false}>
+        {selectedEvents.length > 0 && (
+          <View style={styles.taskSection}>
+            <View style={styles.taskSectionHeader}>
+              <CalendarDays size={16} color={Colors.textSecondary} />
+              <Text style={styles.taskSectionTitle}>Events</Text>
+              <View style={[styles.taskCount, { backgroundColor: Colors.surfaceLight }]}>
+                <Text style={styles.taskCountText}>{selectedEvents.length}</Text>
+              </View>
+            </View>
+            {selectedEvents.map(event => (
+              <EventBlock key={event.id} event={event} calendar={calendarsById.get(event.calendarId)} />
+            ))}
+          </View>
+        )}
+
         {selectedDayData && selectedDayData.tasks.length > 0 && (
           <View style={styles.taskSection}>
             <View style={styles.taskSectionHeader}>
@@ -283,6 +322,10 @@ export default function CalendarScreen() {
                 onPress={() => handleTaskPress(task)}
                 onComplete={() => handleComplete(task)}
                 onLongPress={() => handleTaskPress(task)}
+                blockedBy={dependencies.blockedBy.get(task.id)}
+                blocking={dependencies.blocking.get(task.id)}
+                deferredUntil={deferredUntil(task, today)}
+                contexts={contexts}
               />
             ))}
           </View>
@@ -304,14 +347,18 @@ export default function CalendarScreen() {
                 onPress={() => handleTaskPress(task)}
                 onComplete={() => handleComplete(task)}
                 onLongPress={() => handleTaskPress(task)}
+                blockedBy={dependencies.blockedBy.get(task.id)}
+                blocking={dependencies.blocking.get(task.id)}
+                deferredUntil={deferredUntil(task, today)}
+                contexts={contexts}
               />
             ))}
           </View>
         )}
 
-        {selectedDayData && selectedDayData.tasks.length === 0 && selectedDayData.completedTasks.length === 0 && (
+        {selectedDayData && selectedDayData.tasks.length === 0 && selectedDayData.completedTasks.length === 0 && selectedEvents.length === 0 && (
           <View style={styles.emptyState}>
-            <Text style={styles.emptyStateText}>No tasks for this day</Text>
+            <Text style={styles.emptyStateText}>Nothing on this day</Text>
           </View>
         )}
 
@@ -325,6 +372,7 @@ export default function CalendarScreen() {
         onMove={handleMove}
         onEdit={handleEdit}
         onDelete={handleDelete}
+        onPromote={handlePromote}
       />
 
       <EditTaskModal
@@ -443,6 +491,9 @@ const styles = StyleSheet.create({
   dotCompleted: {
     backgroundColor: Colors.success,
   },
+  dotEvent: {
+    backgroundColor: Colors.textSecondary,
+  },
   selectedDateHeader: {
     paddingHorizontal: 20,
     paddingVertical: 12,
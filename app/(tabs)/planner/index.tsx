@@ -1,13 +1,16 @@
 import React, { useState, useMemo, useCallback, useRef } from 'react';
 import { View, StyleSheet, Text, TouchableOpacity, ScrollView, FlatList, Animated } from 'react-native';
-import { ChevronLeft, ChevronRight, Sun, Sunrise, Moon, Clock, AlertCircle, CheckCircle2, Plus } from 'lucide-react-native';
+import { ChevronLeft, ChevronRight, Sun, Sunrise, Moon, Clock, AlertCircle, CheckCircle2, Plus, CalendarDays } from 'lucide-react-native';
 import { useTasks } from '@/contexts/TaskContext';
+import { useCalendarEvents } from '@/contexts/CalendarContext';
 import TaskItem from '@/components/TaskItem';
+import EventBlock from '@/components/EventBlock';
 import TaskActionSheet from '@/components/TaskActionSheet';
 import EditTaskModal from '@/components/EditTaskModal';
 import EmptyState from '@/components/EmptyState';
 import Colors from '@/constants/colors';
 import { Task, TaskStatus } from '@/types/task';
+import { deferredUntil, toDayKey } from '@/utils/helpers';
 import * as Haptics from 'expo-haptics';
 import { Platform } from 'react-native';
 
@@ -30,7 +33,7 @@ const isToday = (date: Date): boolean => {
 };
 
 export default function PlannerScreen() {
-  const { tasks, projects, updateTask, deleteTask, completeTask, moveTask } = useTasks();
+  const { tasks, availableTasks, dependencies, today, contexts, projects, updateTask, deleteTask, promoteToProject, completeTask, moveTask } = useTasks();
   const [selectedDate, setSelectedDate] = useState(new Date());
   const [selectedTask, setSelectedTask] = useState<Task | null>(null);
   const [showActionSheet, setShowActionSheet] = useState(false);
@@ -67,10 +70,20 @@ export default function PlannerScreen() {
     setSelectedDate(new Date());
   }, []);
 
+  const [dayStart, dayEnd] = useMemo(() => {
+    const start = new Date(selectedDate);
+    start.setHours(0, 0, 0, 0);
+    return [start, new Date(start.getFullYear(), start.getMonth(), start.getDate() + 1)];
+  }, [selectedDate]);
+  const { calendarsById, getEventsForDay } = useCalendarEvents(dayStart, dayEnd);
+  const dayEvents = useMemo(() => getEventsForDay(dayStart), [getEventsForDay, dayStart]);
+
+  // A task deferred past the selected day is left out of it.
   const todayTasks = useMemo(() => {
+    const day = toDayKey(selectedDate);
     return tasks.filter(task => {
       if (task.status === 'done') return false;
-      if (!task.dueDate) return false;
+      if (!task.dueDate || deferredUntil(task, day)) return false;
       return isSameDay(new Date(task.dueDate), selectedDate);
     });
   }, [tasks, selectedDate]);
@@ -84,19 +97,19 @@ export default function PlannerScreen() {
 
   const overdueTasks = useMemo(() => {
     if (!isToday(selectedDate)) return [];
-    return tasks.filter(task => {
+    return availableTasks.filter(task => {
       if (task.status === 'done' || !task.dueDate) return false;
       const dueDate = new Date(task.dueDate);
       const today = new Date();
       today.setHours(0, 0, 0, 0);
       return dueDate < today;
     });
-  }, [tasks, selectedDate]);
+  }, [availableTasks, selectedDate]);
 
   const nextActionTasks = useMemo(() => {
     if (!isToday(selectedDate)) return [];
-    return tasks.filter(task => task.status === 'next' && !task.dueDate).slice(0, 5);
-  }, [tasks, selectedDate]);
+    return availableTasks.filter(task => task.status === 'next' && !task.dueDate && !dependencies.blockedBy.has(task.id)).slice(0, 5);
+  }, [availableTasks, dependencies, selectedDate]);
 
   const handleTaskPress = useCallback((task: Task) => {
     setSelectedTask(task);
@@ -137,6 +150,12 @@ export default function PlannerScreen() {
     }
   }, [selectedTask, deleteTask]);
 
+  const handlePromote = useCallback(() => {
+    if (selectedTask) {
+      promoteToProject(selectedTask.id);
+    }
+  }, [selectedTask, promoteToProject]);
+
   const totalTasks = todayTasks.length + overdueTasks.length;
   const completedCount = completedTodayTasks.length;
 
@@ -188,6 +207,19 @@ export default function PlannerScreen() {
       </View>
 
       <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
+        {dayEvents.length > 0 && (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <CalendarDays size={18} color={Colors.textSecondary} />
+              <Text style={styles.sectionTitle}>Calendar</Text>
+            </View>
+            <Text style={styles.sectionSubtitle}>Fixed commitments from your other calendars</Text>
+            {dayEvents.map(event => (
+              <EventBlock key={event.id} event={event} calendar={calendarsById.get(event.calendarId)} />
+            ))}
+          </View>
+        )}
+
         {overdueTasks.length > 0 && (
           <View style={styles.section}>
             <View style={styles.sectionHeader}>
@@ -201,6 +233,10 @@ export default function PlannerScreen() {
                 onPress={() => handleTaskPress(task)}
                 onComplete={() => handleComplete(task)}
                 onLongPress={() => handleTaskPress(task)}
+                blockedBy={dependencies.blockedBy.get(task.id)}
+                blocking={dependencies.blocking.get(task.id)}
+                deferredUntil={deferredUntil(task, today)}
+                contexts={contexts}
               />
             ))}
           </View>
@@ -219,11 +255,15 @@ export default function PlannerScreen() {
                 onPress={() => handleTaskPress(task)}
                 onComplete={() => handleComplete(task)}
                 onLongPress={() => handleTaskPress(task)}
+                blockedBy={dependencies.blockedBy.get(task.id)}
+                blocking={dependencies.blocking.get(task.id)}
+                deferredUntil={deferredUntil(task, today)}
+                contexts={contexts}
               />
             ))}
           </View>
         ) : (
-          !overdueTasks.length && isToday(selectedDate) && (
+          !overdueTasks.length && !dayEvents.length && isToday(selectedDate) && (
             <EmptyState
               icon={Sun}
               title="No Tasks Scheduled"
@@ -247,6 +287,10 @@ export default function PlannerScreen() {
                 onPress={() => handleTaskPress(task)}
                 onComplete={() => handleComplete(task)}
                 onLongPress={() => handleTaskPress(task)}
+                blockedBy={dependencies.blockedBy.get(task.id)}
+                blocking={dependencies.blocking.get(task.id)}
+                deferredUntil={deferredUntil(task, today)}
+                contexts={contexts}
               />
             ))}
           </View>
@@ -265,6 +309,10 @@ export default function PlannerScreen() {
                 onPress={() => handleTaskPress(task)}
                 onComplete={() => handleComplete(task)}
                 onLongPress={() => handleTaskPress(task)}
+                blockedBy={dependencies.blockedBy.get(task.id)}
+                blocking={dependencies.blocking.get(task.id)}
+                deferredUntil={deferredUntil(task, today)}
+                contexts={contexts}
               />
             ))}
           </View>
@@ -280,6 +328,7 @@ export default function PlannerScreen() {
         onMove={handleMove}
         onEdit={handleEdit}
         onDelete={handleDelete}
+        onPromote={handlePromote}
       />
 
       <EditTaskModal
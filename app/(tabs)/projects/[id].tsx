@@ -0,0 +1,686 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { View, StyleSheet, Text, TextInput, TouchableOpacity, ScrollView, Linking, Platform } from 'react-native';
+import { Stack, useLocalSearchParams } from 'expo-router';
+import { FolderOpen, ListOrdered, Shuffle, ChevronUp, ChevronDown, Link2, Plus, X, BookOpen, Target } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { useTasks } from '@/contexts/TaskContext';
+import TaskItem from '@/components/TaskItem';
+import TaskActionSheet from '@/components/TaskActionSheet';
+import EditTaskModal from '@/components/EditTaskModal';
+import QuickAddTask from '@/components/QuickAddTask';
+import EmptyState from '@/components/EmptyState';
+import Colors from '@/constants/colors';
+import { GOAL_HORIZONS, Project, Task, TaskStatus } from '@/types/task';
+import { resolveTaskReference } from '@/utils/dependencies';
+import { deferredUntil, generateId, parseTaskInput } from '@/utils/helpers';
+
+const STATUS_GROUPS: { status: TaskStatus; label: string; color: string }[] = [
+  { status: 'inbox', label: 'Inbox', color: Colors.inbox },
+  { status: 'next', label: 'Next Actions', color: Colors.nextAction },
+  { status: 'waiting', label: 'Waiting For', color: Colors.waiting },
+  { status: 'someday', label: 'Someday/Maybe', color: Colors.someday },
+  { status: 'done', label: 'Done', color: Colors.success },
+];
+
+const PROJECT_STATUSES: { value: Project['status']; label: string }[] = [
+  { value: 'active', label: 'Active' },
+  { value: 'on-hold', label: 'On Hold' },
+  { value: 'completed', label: 'Completed' },
+];
+
+type TextField = 'title' | 'outcome' | 'description' | 'dueDate' | 'notes';
+
+const fieldsOf = (project?: Project): Record<TextField, string> => ({
+  title: project?.title ?? '',
+  outcome: project?.outcome ?? '',
+  description: project?.description ?? '',
+  dueDate: project?.dueDate?.slice(0, 10) ?? '',
+  notes: project?.notes ?? '',
+});
+
+export default function ProjectDetailScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const {
+    tasks, projects, areas, goals, contexts, today, dependencies, addTask, updateTask, deleteTask, promoteToProject, completeTask, moveTask, reorderTask,
+    updateProject, getTasksByProject, getProjectProgress,
+  } = useTasks();
+  const project = projects.find(p => p.id === id);
+  const [fields, setFields] = useState(() => fieldsOf(project));
+  const [referenceTitle, setReferenceTitle] = useState('');
+  const [referenceUrl, setReferenceUrl] = useState('');
+  const [reordering, setReordering] = useState(false);
+  const [selectedTask, setSelectedTask] = useState<Task | null>(null);
+  const [showActionSheet, setShowActionSheet] = useState(false);
+  const [showEditModal, setShowEditModal] = useState(false);
+
+  // Picks up changes made elsewhere: sync, undo, the Projects tab.
+  useEffect(() => {
+    setFields(fieldsOf(project));
+  }, [project]);
+
+  const projectTasks = useMemo(() => (project ? getTasksByProject(project.id) : []), [project, getTasksByProject]);
+  const openTasks = projectTasks.filter(t => t.status !== 'done');
+
+  const saveField = useCallback((field: TextField) => {
+    if (!project) return;
+    const value = fields[field].trim();
+    const invalid = (field === 'title' && !value) || (field === 'dueDate' && value && !/^\d{4}-\d{2}-\d{2}$/.test(value));
+    if (invalid) {
+      setFields(fieldsOf(project));
+      return;
+    }
+    if (value === fieldsOf(project)[field]) return;
+    updateProject(project.id, { [field]: value || undefined });
+  }, [project, fields, updateProject]);
+
+  const handleAddTask = useCallback((input: string) => {
+    if (!project) return;
+    const parsed = parseTaskInput(input, contexts);
+    const dependsOn = parsed.dependencies
+      .map(reference => resolveTaskReference(reference, tasks)?.id)
+      .filter((taskId): taskId is string => !!taskId);
+
+    // Anything added here is already clarified, so it skips the Inbox.
+    addTask({
+      title: parsed.title,
+      status: parsed.status || 'next',
+      priority: parsed.priority,
+      contexts: parsed.contexts.length > 0 ? parsed.contexts : undefined,
+      projectId: project.id,
+      dueDate: parsed.dueDate,
+      startDate: parsed.startDate,
+      waitUntil: parsed.waitUntil,
+      dependsOn: dependsOn.length > 0 ? dependsOn : undefined,
+      tags: parsed.tags,
+      recurrence: parsed.recurrence,
+    });
+  }, [project, tasks, contexts, addTask]);
+
+  const handleAddReference = useCallback(() => {
+    if (!project || !(referenceTitle.trim() || referenceUrl.trim())) return;
+    const url = referenceUrl.trim();
+    const href = url && !/^[a-z][a-z0-9+.-]*:/i.test(url) ? `https://${url}` : url;
+    updateProject(project.id, {
+      references: [...(project.references ?? []), { id: generateId(), title: referenceTitle.trim() || url, url: href || undefined }],
+    });
+    setReferenceTitle('');
+    setReferenceUrl('');
+  }, [project, referenceTitle, referenceUrl, updateProject]);
+
+  const handleRemoveReference = useCallback((referenceId: string) => {
+    if (!project) return;
+    const references = (project.references ?? []).filter(r => r.id !== referenceId);
+    updateProject(project.id, { references: references.length > 0 ? references : undefined });
+  }, [project, updateProject]);
+
+  const handleSetStatus = useCallback((status: Project['status']) => {
+    if (!project || project.status === status) return;
+    if (Platform.OS !== 'web') {
+      Haptics.selectionAsync();
+    }
+    updateProject(project.id, { status, completedAt: status === 'completed' ? new Date().toISOString() : undefined });
+  }, [project, updateProject]);
+
+  const handleToggleGoal = useCallback((goalId: string) => {
+    if (!project) return;
+    if (Platform.OS !== 'web') {
+      Haptics.selectionAsync();
+    }
+    const current = project.goalIds ?? [];
+    const goalIds = current.includes(goalId) ? current.filter(id => id !== goalId) : [...current, goalId];
+    updateProject(project.id, { goalIds: goalIds.length > 0 ? goalIds : undefined });
+  }, [project, updateProject]);
+
+  const handleTaskPress = useCallback((task: Task) => {
+    setSelectedTask(task);
+    setShowActionSheet(true);
+  }, []);
+
+  const handleComplete = useCallback((task: Task) => {
+    if (task.status === 'done') {
+      moveTask(task.id, 'next');
+    } else {
+      completeTask(task.id);
+    }
+  }, [completeTask, moveTask]);
+
+  const handleMove = useCallback((status: TaskStatus) => {
+    if (selectedTask) {
+      moveTask(selectedTask.id, status);
+    }
+  }, [selectedTask, moveTask]);
+
+  const handleEdit = useCallback(() => {
+    setShowActionSheet(false);
+    setTimeout(() => setShowEditModal(true), 300);
+  }, []);
+
+  const handleSaveEdit = useCallback((updates: Partial<Task>) => {
+    if (selectedTask) {
+      updateTask(selectedTask.id, updates);
+    }
+  }, [selectedTask, updateTask]);
+
+  const handleDelete = useCallback(() => {
+    if (selectedTask) {
+      deleteTask(selectedTask.id);
+    }
+  }, [selectedTask, deleteTask]);
+
+  const handlePromote = useCallback(() => {
+    if (selectedTask) {
+      promoteToProject(selectedTask.id);
+    }
+  }, [selectedTask, promoteToProject]);
+
+  if (!project) {
+    return (
+      <View style={styles.container}>
+        <Stack.Screen options={{ title: 'Project' }} />
+        <EmptyState
+          icon={FolderOpen}
+          title="Project Not Found"
+          description="It may have been completed elsewhere or moved to the Trash"
+        />
+      </View>
+    );
+  }
+
+  const progress = getProjectProgress(project.id);
+  const sequential = project.type === 'sequential';
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ title: project.title }} />
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+        <View style={styles.card}>
+          <View style={styles.titleRow}>
+            <View style={[styles.projectColor, { backgroundColor: project.color }]} />
+            <TextInput
+              style={styles.titleInput}
+              value={fields.title}
+              onChangeText={(title) => setFields({ ...fields, title })}
+              onEndEditing={() => saveField('title')}
+              placeholder="Project name"
+              placeholderTextColor={Colors.textMuted}
+            />
+          </View>
+          <TextInput
+            style={styles.outcomeInput}
+            value={fields.outcome}
+            onChangeText={(outcome) => setFields({ ...fields, outcome })}
+            onEndEditing={() => saveField('outcome')}
+            placeholder="What does 'done' look like?"
+            placeholderTextColor={Colors.textMuted}
+            multiline
+          />
+          <View style={styles.progressBar}>
+            <View style={[styles.progressFill, { width: `${progress}%`, backgroundColor: project.color }]} />
+          </View>
+          <Text style={styles.meta}>
+            {progress}% complete · {openTasks.length} open of {projectTasks.length} {projectTasks.length === 1 ? 'task' : 'tasks'}
+          </Text>
+        </View>
+
+        <View style={styles.field}>
+          <Text style={styles.label}>Status</Text>
+          <View style={styles.chips}>
+            {PROJECT_STATUSES.map(({ value, label }) => (
+              <TouchableOpacity
+                key={value}
+                style={[styles.chip, project.status === value && styles.chipSelected]}
+                onPress={() => handleSetStatus(value)}
+              >
+                <Text style={[styles.chipText, project.status === value && styles.chipTextSelected]}>{label}</Text>
+              </TouchableOpacity>
+            ))}
+            <TouchableOpacity
+              style={styles.chip}
+              onPress={() => updateProject(project.id, { type: sequential ? 'parallel' : 'sequential' })}
+            >
+              {sequential ? <ListOrdered size={14} color={Colors.textSecondary} /> : <Shuffle size={14} color={Colors.textSecondary} />}
+              <Text style={styles.chipText}>{sequential ? 'In order' : 'Any order'}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        <View style={styles.field}>
+          <Text style={styles.label}>Area</Text>
+          <View style={styles.chips}>
+            <TouchableOpacity
+              style={[styles.chip, !project.areaId && styles.chipSelected]}
+              onPress={() => updateProject(project.id, { areaId: undefined })}
+            >
+              <Text style={[styles.chipText, !project.areaId && styles.chipTextSelected]}>None</Text>
+            </TouchableOpacity>
+            {areas.map((area) => (
+              <TouchableOpacity
+                key={area.id}
+                style={[styles.chip, project.areaId === area.id && styles.chipSelected]}
+                onPress={() => updateProject(project.id, { areaId: area.id })}
+              >
+                <Text style={[styles.chipText, project.areaId === area.id && styles.chipTextSelected]}>{area.title}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        <View style={styles.field}>
+          <Text style={styles.label}>Serves</Text>
+          {goals.length === 0 ? (
+            <Text style={styles.hint}>Add goals on the Projects tab to say what this project is for.</Text>
+          ) : (
+            <View style={styles.chips}>
+              {GOAL_HORIZONS.flatMap(({ value }) => goals.filter(g => g.horizon === value)).map((goal) => {
+                const selected = !!project.goalIds?.includes(goal.id);
+                return (
+                  <TouchableOpacity
+                    key={goal.id}
+                    style={[styles.chip, selected && styles.chipSelected]}
+                    onPress={() => handleToggleGoal(goal.id)}
+                  >
+                    <Target size={14} color={selected ? Colors.project : Colors.textMuted} />
+                    <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{goal.title}</Text>
+                    <Text style={styles.chipHorizon}>{GOAL_HORIZONS.find(h => h.value === goal.horizon)?.label}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          )}
+        </View>
+
+        <View style={styles.field}>
+          <Text style={styles.label}>Due Date</Text>
+          <TextInput
+            style={styles.input}
+            value={fields.dueDate}
+            onChangeText={(dueDate) => setFields({ ...fields, dueDate })}
+            onEndEditing={() => saveField('dueDate')}
+            placeholder="YYYY-MM-DD"
+            placeholderTextColor={Colors.textMuted}
+          />
+        </View>
+
+        <View style={styles.field}>
+          <Text style={styles.label}>Description</Text>
+          <TextInput
+            style={[styles.input, styles.textArea]}
+            value={fields.description}
+            onChangeText={(description) => setFields({ ...fields, description })}
+            onEndEditing={() => saveField('description')}
+            placeholder="Add details..."
+            placeholderTextColor={Colors.textMuted}
+            multiline
+          />
+        </View>
+
+        <View style={styles.sectionHeader}>
+          <Text style={styles.sectionTitle}>Tasks</Text>
+          {openTasks.length > 1 && (
+            <TouchableOpacity style={styles.headerButton} onPress={() => setReordering(!reordering)}>
+              <ListOrdered size={16} color={Colors.highlight} />
+              <Text style={styles.headerButtonText}>{reordering ? 'Done' : 'Reorder'}</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        <QuickAddTask onAdd={handleAddTask} placeholder="Add a task to this project" />
+
+        {reordering ? (
+          <View style={styles.card}>
+            {openTasks.map((task, index) => (
+              <View key={task.id} style={styles.orderRow}>
+                <Text style={styles.orderTitle} numberOfLines={1}>{index + 1}. {task.title}</Text>
+                <TouchableOpacity onPress={() => reorderTask(task.id, -1)} disabled={index === 0} style={styles.orderButton}>
+                  <ChevronUp size={18} color={index === 0 ? Colors.border : Colors.textSecondary} />
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => reorderTask(task.id, 1)} disabled={index === openTasks.length - 1} style={styles.orderButton}>
+                  <ChevronDown size={18} color={index === openTasks.length - 1 ? Colors.border : Colors.textSecondary} />
+                </TouchableOpacity>
+              </View>
+            ))}
+          </View>
+        ) : (
+          STATUS_GROUPS.map(({ status, label, color }) => {
+            const group = projectTasks.filter(t => t.status === status);
+            if (group.length === 0) return null;
+            return (
+              <View key={status} style={styles.group}>
+                <View style={styles.groupHeader}>
+                  <View style={[styles.groupDot, { backgroundColor: color }]} />
+                  <Text style={styles.groupTitle}>{label}</Text>
+                  <Text style={styles.groupCount}>{group.length}</Text>
+                </View>
+                {group.map((task) => (
+                  <TaskItem
+                    key={task.id}
+                    task={task}
+                    onPress={() => handleTaskPress(task)}
+                    onComplete={() => handleComplete(task)}
+                    onLongPress={() => handleTaskPress(task)}
+                    blockedBy={dependencies.blockedBy.get(task.id)}
+                    blocking={dependencies.blocking.get(task.id)}
+                    deferredUntil={deferredUntil(task, today)}
+                    contexts={contexts}
+                  />
+                ))}
+              </View>
+            );
+          })
+        )}
+        {projectTasks.length === 0 && (
+          <Text style={styles.emptyText}>No tasks yet. What is the very next physical action?</Text>
+        )}
+
+        <View style={styles.sectionHeader}>
+          <Text style={styles.sectionTitle}>Notes & Reference</Text>
+        </View>
+
+        <TextInput
+          style={[styles.input, styles.notesInput]}
+          value={fields.notes}
+          onChangeText={(notes) => setFields({ ...fields, notes })}
+          onEndEditing={() => saveField('notes')}
+          placeholder="Meeting notes, ideas, anything that supports the project"
+          placeholderTextColor={Colors.textMuted}
+          multiline
+        />
+
+        {(project.references ?? []).map((reference) => (
+          <View key={reference.id} style={styles.referenceRow}>
+            <TouchableOpacity
+              style={styles.referenceLink}
+              disabled={!reference.url}
+              onPress={() => reference.url && Linking.openURL(reference.url)}
+            >
+              {reference.url ? <Link2 size={16} color={Colors.info} /> : <BookOpen size={16} color={Colors.textMuted} />}
+              <View style={styles.referenceInfo}>
+                <Text style={styles.referenceTitle} numberOfLines={1}>{reference.title}</Text>
+                {reference.url && reference.url !== reference.title && (
+                  <Text style={styles.referenceUrl} numberOfLines={1}>{reference.url}</Text>
+                )}
+              </View>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => handleRemoveReference(reference.id)} style={styles.orderButton}>
+              <X size={16} color={Colors.textMuted} />
+            </TouchableOpacity>
+          </View>
+        ))}
+
+        <View style={styles.referenceForm}>
+          <View style={styles.referenceInputs}>
+            <TextInput
+              style={styles.input}
+              value={referenceTitle}
+              onChangeText={setReferenceTitle}
+              placeholder="Reference title"
+              placeholderTextColor={Colors.textMuted}
+            />
+            <TextInput
+              style={styles.input}
+              value={referenceUrl}
+              onChangeText={setReferenceUrl}
+              onSubmitEditing={handleAddReference}
+              placeholder="Link (optional)"
+              placeholderTextColor={Colors.textMuted}
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+            />
+          </View>
+          <TouchableOpacity style={styles.addReferenceButton} onPress={handleAddReference}>
+            <Plus size={20} color={Colors.text} />
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+
+      <TaskActionSheet
+        visible={showActionSheet}
+        task={selectedTask}
+        onClose={() => setShowActionSheet(false)}
+        onMove={handleMove}
+        onEdit={handleEdit}
+        onDelete={handleDelete}
+        onPromote={handlePromote}
+      />
+
+      <EditTaskModal
+        visible={showEditModal}
+        task={selectedTask}
+        projects={projects}
+        onClose={() => setShowEditModal(false)}
+        onSave={handleSaveEdit}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 100,
+  },
+  card: {
+    backgroundColor: Colors.surface,
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 20,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  projectColor: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    marginRight: 12,
+  },
+  titleInput: {
+    flex: 1,
+    fontSize: 20,
+    fontWeight: '700',
+    color: Colors.text,
+    paddingVertical: 4,
+  },
+  outcomeInput: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    marginTop: 4,
+    marginBottom: 12,
+    paddingVertical: 4,
+  },
+  progressBar: {
+    height: 4,
+    backgroundColor: Colors.surfaceLight,
+    borderRadius: 2,
+    marginBottom: 8,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: 2,
+  },
+  meta: {
+    fontSize: 12,
+    color: Colors.textMuted,
+  },
+  field: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: Colors.textSecondary,
+    marginBottom: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: Colors.surface,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    gap: 6,
+  },
+  chipSelected: {
+    backgroundColor: Colors.surfaceHighlight,
+    borderColor: Colors.highlight,
+  },
+  chipText: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+  },
+  chipTextSelected: {
+    color: Colors.text,
+  },
+  hint: {
+    fontSize: 13,
+    color: Colors.textMuted,
+  },
+  chipHorizon: {
+    fontSize: 11,
+    color: Colors.textMuted,
+  },
+  input: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 15,
+    color: Colors.text,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  textArea: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  notesInput: {
+    minHeight: 120,
+    textAlignVertical: 'top',
+    marginBottom: 12,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: Colors.text,
+  },
+  headerButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  headerButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.highlight,
+  },
+  group: {
+    marginTop: 16,
+  },
+  groupHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  groupDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  groupTitle: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '600',
+    color: Colors.textSecondary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+  },
+  groupCount: {
+    fontSize: 12,
+    color: Colors.textMuted,
+  },
+  orderRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  orderTitle: {
+    flex: 1,
+    fontSize: 14,
+    color: Colors.text,
+  },
+  orderButton: {
+    padding: 4,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: Colors.textMuted,
+    textAlign: 'center',
+    marginVertical: 20,
+  },
+  referenceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  referenceLink: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  referenceInfo: {
+    flex: 1,
+  },
+  referenceTitle: {
+    fontSize: 15,
+    color: Colors.text,
+  },
+  referenceUrl: {
+    fontSize: 12,
+    color: Colors.textMuted,
+    marginTop: 2,
+  },
+  referenceForm: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 4,
+  },
+  referenceInputs: {
+    flex: 1,
+    gap: 8,
+  },
+  addReferenceButton: {
+    backgroundColor: Colors.highlight,
+    borderRadius: 12,
+    padding: 14,
+  },
+});
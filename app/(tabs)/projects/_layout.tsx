@@ -12,6 +12,8 @@ export default function ProjectsLayout() {
       }}
     >
       <Stack.Screen name="index" options={{ title: 'Projects' }} />
+      <Stack.Screen name="[id]" options={{ title: 'Project' }} />
+      <Stack.Screen name="goals/[id]" options={{ title: 'Goal' }} />
     </Stack>
   );
 }
@@ -0,0 +1,573 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, StyleSheet, Text, TextInput, TouchableOpacity, ScrollView, Platform } from 'react-native';
+import { Stack, router, useLocalSearchParams } from 'expo-router';
+import { Target, Plus, Minus, X, Trash2, ChevronRight, MessageSquare } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { useTasks } from '@/contexts/TaskContext';
+import EmptyState from '@/components/EmptyState';
+import Colors from '@/constants/colors';
+import { Goal, GOAL_HORIZONS, KeyResult } from '@/types/task';
+import { keyResultProgress } from '@/utils/goals';
+import { generateId } from '@/utils/helpers';
+
+type TextField = 'title' | 'description' | 'targetDate';
+
+const fieldsOf = (goal?: Goal): Record<TextField, string> => ({
+  title: goal?.title ?? '',
+  description: goal?.description ?? '',
+  targetDate: goal?.targetDate ?? '',
+});
+
+const draftsOf = (goal?: Goal) => Object.fromEntries((goal?.keyResults ?? []).map(kr => [kr.id, String(kr.current)]));
+
+export default function GoalDetailScreen() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { goals, areas, updateGoal, deleteGoal, checkInGoal, getProjectsByGoal, getProjectProgress, getGoalProgress } = useTasks();
+  const goal = goals.find(g => g.id === id);
+  const [fields, setFields] = useState(() => fieldsOf(goal));
+  // What is typed into each key result's current value, until it is saved.
+  const [drafts, setDrafts] = useState<Record<string, string>>(() => draftsOf(goal));
+  const [keyResultTitle, setKeyResultTitle] = useState('');
+  const [keyResultTarget, setKeyResultTarget] = useState('');
+  const [keyResultUnit, setKeyResultUnit] = useState('');
+  const [checkInNote, setCheckInNote] = useState('');
+
+  // Picks up changes made elsewhere: sync, undo, another screen.
+  useEffect(() => {
+    setFields(fieldsOf(goal));
+    setDrafts(draftsOf(goal));
+  }, [goal]);
+
+  const saveField = useCallback((field: TextField) => {
+    if (!goal) return;
+    const value = fields[field].trim();
+    const invalid = (field === 'title' && !value) || (field === 'targetDate' && value && !/^\d{4}-\d{2}-\d{2}$/.test(value));
+    if (invalid) {
+      setFields(fieldsOf(goal));
+      return;
+    }
+    if (value === fieldsOf(goal)[field]) return;
+    updateGoal(goal.id, { [field]: value || undefined });
+  }, [goal, fields, updateGoal]);
+
+  const saveKeyResults = useCallback((keyResults: KeyResult[]) => {
+    if (!goal) return;
+    updateGoal(goal.id, { keyResults: keyResults.length > 0 ? keyResults : undefined });
+  }, [goal, updateGoal]);
+
+  const setCurrent = useCallback((keyResultId: string, current: number) => {
+    if (!goal) return;
+    saveKeyResults((goal.keyResults ?? []).map(kr => (kr.id === keyResultId ? { ...kr, current } : kr)));
+  }, [goal, saveKeyResults]);
+
+  const saveDraft = useCallback((keyResult: KeyResult) => {
+    const value = Number(drafts[keyResult.id]);
+    if (drafts[keyResult.id]?.trim() === '' || Number.isNaN(value)) {
+      setDrafts(d => ({ ...d, [keyResult.id]: String(keyResult.current) }));
+      return;
+    }
+    if (value !== keyResult.current) setCurrent(keyResult.id, value);
+  }, [drafts, setCurrent]);
+
+  const handleAddKeyResult = useCallback(() => {
+    if (!goal) return;
+    const target = Number(keyResultTarget);
+    if (!keyResultTitle.trim() || !keyResultTarget.trim() || Number.isNaN(target)) return;
+    if (Platform.OS !== 'web') {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+    saveKeyResults([
+      ...(goal.keyResults ?? []),
+      { id: generateId(), title: keyResultTitle.trim(), current: 0, target, unit: keyResultUnit.trim() || undefined },
+    ]);
+    setKeyResultTitle('');
+    setKeyResultTarget('');
+    setKeyResultUnit('');
+  }, [goal, keyResultTitle, keyResultTarget, keyResultUnit, saveKeyResults]);
+
+  const handleCheckIn = useCallback(() => {
+    if (!goal) return;
+    if (Platform.OS !== 'web') {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    }
+    checkInGoal(goal.id, checkInNote);
+    setCheckInNote('');
+  }, [goal, checkInNote, checkInGoal]);
+
+  const handleDelete = useCallback(() => {
+    if (!goal) return;
+    deleteGoal(goal.id);
+    router.back();
+  }, [goal, deleteGoal]);
+
+  if (!goal) {
+    return (
+      <View style={styles.container}>
+        <Stack.Screen options={{ title: 'Goal' }} />
+        <EmptyState
+          icon={Target}
+          title="Goal Not Found"
+          description="It may have been deleted on another device"
+        />
+      </View>
+    );
+  }
+
+  const progress = getGoalProgress(goal.id);
+  const supporting = getProjectsByGoal(goal.id);
+  const checkIns = [...(goal.checkIns ?? [])].reverse();
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ title: goal.title }} />
+      <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+        <View style={styles.card}>
+          <View style={styles.titleRow}>
+            <Target size={18} color={Colors.project} />
+            <TextInput
+              style={styles.titleInput}
+              value={fields.title}
+              onChangeText={(title) => setFields({ ...fields, title })}
+              onEndEditing={() => saveField('title')}
+              placeholder="Goal"
+              placeholderTextColor={Colors.textMuted}
+            />
+          </View>
+          <TextInput
+            style={styles.descriptionInput}
+            value={fields.description}
+            onChangeText={(description) => setFields({ ...fields, description })}
+            onEndEditing={() => saveField('description')}
+            placeholder="Why does this matter?"
+            placeholderTextColor={Colors.textMuted}
+            multiline
+          />
+          <View style={styles.progressBar}>
+            <View style={[styles.progressFill, { width: `${progress?.value ?? 0}%` }]} />
+          </View>
+          <Text style={styles.meta}>
+            {!progress
+              ? 'Add key results or link projects to track progress'
+              : progress.source === 'keyResults'
+                ? `${progress.value}% · from key results`
+                : `${progress.value}% · from ${supporting.length} ${supporting.length === 1 ? 'project' : 'projects'}`}
+          </Text>
+        </View>
+
+        <View style={styles.field}>
+          <Text style={styles.label}>Horizon</Text>
+          <View style={styles.chips}>
+            {GOAL_HORIZONS.map(({ value, label }) => (
+              <TouchableOpacity
+                key={value}
+                style={[styles.chip, goal.horizon === value && styles.chipSelected]}
+                onPress={() => updateGoal(goal.id, { horizon: value })}
+              >
+                <Text style={[styles.chipText, goal.horizon === value && styles.chipTextSelected]}>{label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        <View style={styles.field}>
+          <Text style={styles.label}>Area</Text>
+          <View style={styles.chips}>
+            <TouchableOpacity
+              style={[styles.chip, !goal.areaId && styles.chipSelected]}
+              onPress={() => updateGoal(goal.id, { areaId: undefined })}
+            >
+              <Text style={[styles.chipText, !goal.areaId && styles.chipTextSelected]}>None</Text>
+            </TouchableOpacity>
+            {areas.map((area) => (
+              <TouchableOpacity
+                key={area.id}
+                style={[styles.chip, goal.areaId === area.id && styles.chipSelected]}
+                onPress={() => updateGoal(goal.id, { areaId: area.id })}
+              >
+                <Text style={[styles.chipText, goal.areaId === area.id && styles.chipTextSelected]}>{area.title}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        <View style={styles.field}>
+          <Text style={styles.label}>Target Date</Text>
+          <TextInput
+            style={styles.input}
+            value={fields.targetDate}
+            onChangeText={(targetDate) => setFields({ ...fields, targetDate })}
+            onEndEditing={() => saveField('targetDate')}
+            placeholder="YYYY-MM-DD"
+            placeholderTextColor={Colors.textMuted}
+          />
+        </View>
+
+        <Text style={styles.sectionTitle}>Key Results</Text>
+        {(goal.keyResults ?? []).map((keyResult) => (
+          <View key={keyResult.id} style={styles.keyResult}>
+            <View style={styles.keyResultHeader}>
+              <Text style={styles.keyResultTitle}>{keyResult.title}</Text>
+              <TouchableOpacity
+                onPress={() => saveKeyResults((goal.keyResults ?? []).filter(kr => kr.id !== keyResult.id))}
+                style={styles.iconButton}
+              >
+                <X size={16} color={Colors.textMuted} />
+              </TouchableOpacity>
+            </View>
+            <View style={styles.progressBar}>
+              <View style={[styles.progressFill, { width: `${keyResultProgress(keyResult)}%` }]} />
+            </View>
+            <View style={styles.keyResultValues}>
+              <TouchableOpacity onPress={() => setCurrent(keyResult.id, keyResult.current - 1)} style={styles.stepButton}>
+                <Minus size={16} color={Colors.textSecondary} />
+              </TouchableOpacity>
+              <TextInput
+                style={styles.currentInput}
+                value={drafts[keyResult.id] ?? String(keyResult.current)}
+                onChangeText={(value) => setDrafts(d => ({ ...d, [keyResult.id]: value }))}
+                onEndEditing={() => saveDraft(keyResult)}
+                keyboardType="numeric"
+              />
+              <TouchableOpacity onPress={() => setCurrent(keyResult.id, keyResult.current + 1)} style={styles.stepButton}>
+                <Plus size={16} color={Colors.textSecondary} />
+              </TouchableOpacity>
+              <Text style={styles.keyResultTarget}>
+                of {keyResult.target}{keyResult.unit ? ` ${keyResult.unit}` : ''} · {keyResultProgress(keyResult)}%
+              </Text>
+            </View>
+          </View>
+        ))}
+
+        <View style={styles.keyResultForm}>
+          <TextInput
+            style={styles.input}
+            value={keyResultTitle}
+            onChangeText={setKeyResultTitle}
+            placeholder="Key result, e.g. Read books"
+            placeholderTextColor={Colors.textMuted}
+          />
+          <View style={styles.keyResultFormRow}>
+            <TextInput
+              style={[styles.input, styles.targetInput]}
+              value={keyResultTarget}
+              onChangeText={setKeyResultTarget}
+              placeholder="Target"
+              placeholderTextColor={Colors.textMuted}
+              keyboardType="numeric"
+            />
+            <TextInput
+              style={[styles.input, styles.unitInput]}
+              value={keyResultUnit}
+              onChangeText={setKeyResultUnit}
+              onSubmitEditing={handleAddKeyResult}
+              placeholder="Unit (optional)"
+              placeholderTextColor={Colors.textMuted}
+            />
+            <TouchableOpacity style={styles.addButton} onPress={handleAddKeyResult}>
+              <Plus size={20} color={Colors.text} />
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        <Text style={styles.sectionTitle}>Supporting Projects</Text>
+        {supporting.length === 0 ? (
+          <Text style={styles.emptyText}>Link projects to this goal from their project pages.</Text>
+        ) : (
+          <View style={styles.card}>
+            {supporting.map((project) => {
+              const projectProgress = project.status === 'completed' ? 100 : getProjectProgress(project.id);
+              return (
+                <TouchableOpacity key={project.id} style={styles.projectRow} onPress={() => router.push(`/projects/${project.id}`)}>
+                  <View style={[styles.projectColor, { backgroundColor: project.color }]} />
+                  <Text style={styles.projectTitle} numberOfLines={1}>{project.title}</Text>
+                  <Text style={styles.meta}>{projectProgress}%</Text>
+                  <ChevronRight size={14} color={Colors.textMuted} />
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        )}
+
+        <Text style={styles.sectionTitle}>Check-ins</Text>
+        <View style={styles.checkInForm}>
+          <TextInput
+            style={[styles.input, styles.checkInInput]}
+            value={checkInNote}
+            onChangeText={setCheckInNote}
+            placeholder="How is it going? (optional)"
+            placeholderTextColor={Colors.textMuted}
+            multiline
+          />
+          <TouchableOpacity style={styles.checkInButton} onPress={handleCheckIn}>
+            <Text style={styles.checkInButtonText}>Check In</Text>
+          </TouchableOpacity>
+        </View>
+        {checkIns.map((checkIn) => (
+          <View key={checkIn.id} style={styles.checkIn}>
+            <MessageSquare size={14} color={Colors.textMuted} />
+            <View style={styles.checkInBody}>
+              <Text style={styles.checkInMeta}>
+                {new Date(checkIn.at).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+                {checkIn.progress !== undefined ? ` · ${checkIn.progress}%` : ''}
+              </Text>
+              {checkIn.note ? <Text style={styles.checkInNote}>{checkIn.note}</Text> : null}
+            </View>
+          </View>
+        ))}
+
+        <TouchableOpacity style={styles.deleteButton} onPress={handleDelete}>
+          <Trash2 size={16} color={Colors.error} />
+          <Text style={styles.deleteText}>Delete Goal</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 100,
+  },
+  card: {
+    backgroundColor: Colors.surface,
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 20,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  titleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  titleInput: {
+    flex: 1,
+    fontSize: 20,
+    fontWeight: '700',
+    color: Colors.text,
+    paddingVertical: 4,
+  },
+  descriptionInput: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    marginTop: 4,
+    marginBottom: 12,
+    paddingVertical: 4,
+  },
+  progressBar: {
+    height: 4,
+    backgroundColor: Colors.surfaceLight,
+    borderRadius: 2,
+    marginBottom: 8,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: 2,
+    backgroundColor: Colors.project,
+  },
+  meta: {
+    fontSize: 12,
+    color: Colors.textMuted,
+  },
+  field: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: Colors.textSecondary,
+    marginBottom: 8,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: Colors.surface,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  chipSelected: {
+    backgroundColor: Colors.surfaceHighlight,
+    borderColor: Colors.highlight,
+  },
+  chipText: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+  },
+  chipTextSelected: {
+    color: Colors.text,
+  },
+  input: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 15,
+    color: Colors.text,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: Colors.text,
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  keyResult: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  keyResultHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  keyResultTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '500',
+    color: Colors.text,
+  },
+  iconButton: {
+    padding: 4,
+  },
+  keyResultValues: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  stepButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 8,
+    backgroundColor: Colors.surfaceLight,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  currentInput: {
+    minWidth: 56,
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+    borderRadius: 8,
+    backgroundColor: Colors.surfaceLight,
+    fontSize: 15,
+    color: Colors.text,
+    textAlign: 'center',
+  },
+  keyResultTarget: {
+    flex: 1,
+    fontSize: 13,
+    color: Colors.textMuted,
+  },
+  keyResultForm: {
+    gap: 8,
+    marginTop: 4,
+    marginBottom: 20,
+  },
+  keyResultFormRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  targetInput: {
+    width: 100,
+  },
+  unitInput: {
+    flex: 1,
+  },
+  addButton: {
+    backgroundColor: Colors.highlight,
+    borderRadius: 12,
+    padding: 14,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: Colors.textMuted,
+    marginBottom: 20,
+  },
+  projectRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 8,
+  },
+  projectColor: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  projectTitle: {
+    flex: 1,
+    fontSize: 15,
+    color: Colors.text,
+  },
+  checkInForm: {
+    gap: 8,
+    marginBottom: 12,
+  },
+  checkInInput: {
+    minHeight: 60,
+    textAlignVertical: 'top',
+  },
+  checkInButton: {
+    alignSelf: 'flex-start',
+    backgroundColor: Colors.project,
+    borderRadius: 12,
+    paddingVertical: 10,
+    paddingHorizontal: 18,
+  },
+  checkInButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  checkIn: {
+    flexDirection: 'row',
+    gap: 10,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.border,
+  },
+  checkInBody: {
+    flex: 1,
+  },
+  checkInMeta: {
+    fontSize: 12,
+    color: Colors.textMuted,
+  },
+  checkInNote: {
+    fontSize: 14,
+    color: Colors.text,
+    marginTop: 4,
+    lineHeight: 20,
+  },
+  deleteButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'center',
+    gap: 8,
+    marginTop: 32,
+    padding: 12,
+  },
+  deleteText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.error,
+  },
+});
@@ -1,29 +1,34 @@
 import React, { useState, useCallback } from 'react';
 import { View, StyleSheet, FlatList, Text, TouchableOpacity, Modal, TextInput, ScrollView, Pressable } from 'react-native';
-import { Plus, FolderOpen, ChevronRight, Target, X, CheckCircle } from 'lucide-react-native';
+import { router } from 'expo-router';
+import { Plus, FolderOpen, ChevronRight, Target, X, CheckCircle, Trash2, ListOrdered, Shuffle, LayoutGrid, Telescope } from 'lucide-react-native';
 import { useTasks } from '@/contexts/TaskContext';
 import EmptyState from '@/components/EmptyState';
+import DeleteProjectSheet from '@/components/DeleteProjectSheet';
 import Colors from '@/constants/colors';
-import { Project, Goal } from '@/types/task';
+import { Project, ProjectType, Goal, GoalHorizon, GOAL_HORIZONS, PROJECT_COLORS } from '@/types/task';
 import * as Haptics from 'expo-haptics';
 import { Platform } from 'react-native';
 
-const PROJECT_COLORS = [
-  '#E94560', '#4ECCA3', '#FFB703', '#219EBC', '#9B5DE5',
-  '#F15BB5', '#00BBF9', '#00F5D4', '#FEE440', '#FF6B6B',
-];
-
 export default function ProjectsScreen() {
-  const { projects, goals, areas, addProject, updateProject, deleteProject, addGoal, getProjectProgress, getTasksByProject } = useTasks();
+  const {
+    projects, goals, areas, addProject, updateProject, deleteProject, addGoal, getProjectProgress, getTasksByProject,
+    getProjectsByGoal, getGoalProgress,
+  } = useTasks();
   const [showAddProject, setShowAddProject] = useState(false);
   const [showAddGoal, setShowAddGoal] = useState(false);
   const [newProjectTitle, setNewProjectTitle] = useState('');
   const [newProjectOutcome, setNewProjectOutcome] = useState('');
   const [selectedColor, setSelectedColor] = useState(PROJECT_COLORS[0]);
+  const [newProjectType, setNewProjectType] = useState<ProjectType>('parallel');
+  const [newProjectAreaId, setNewProjectAreaId] = useState<string | undefined>(undefined);
   const [newGoalTitle, setNewGoalTitle] = useState('');
-  const [selectedHorizon, setSelectedHorizon] = useState<'1-year' | '3-year' | '5-year' | 'vision'>('1-year');
+  const [selectedHorizon, setSelectedHorizon] = useState<GoalHorizon>('1-year');
+  const [newGoalAreaId, setNewGoalAreaId] = useState<string | undefined>(undefined);
+  const [projectToDelete, setProjectToDelete] = useState<Project | null>(null);
 
   const activeProjects = projects.filter(p => p.status === 'active');
+  const onHoldProjects = projects.filter(p => p.status === 'on-hold');
   const completedProjects = projects.filter(p => p.status === 'completed');
 
   const handleAddProject = useCallback(() => {
@@ -36,13 +41,17 @@ export default function ProjectsScreen() {
         outcome: newProjectOutcome.trim() || undefined,
         color: selectedColor,
         status: 'active',
+        type: newProjectType,
+        areaId: newProjectAreaId,
       });
       setNewProjectTitle('');
       setNewProjectOutcome('');
       setSelectedColor(PROJECT_COLORS[0]);
+      setNewProjectType('parallel');
+      setNewProjectAreaId(undefined);
       setShowAddProject(false);
     }
-  }, [newProjectTitle, newProjectOutcome, selectedColor, addProject]);
+  }, [newProjectTitle, newProjectOutcome, selectedColor, newProjectType, newProjectAreaId, addProject]);
 
   const handleAddGoal = useCallback(() => {
     if (newGoalTitle.trim()) {
@@ -52,12 +61,14 @@ export default function ProjectsScreen() {
       addGoal({
         title: newGoalTitle.trim(),
         horizon: selectedHorizon,
+        areaId: newGoalAreaId,
       });
       setNewGoalTitle('');
       setSelectedHorizon('1-year');
+      setNewGoalAreaId(undefined);
       setShowAddGoal(false);
     }
-  }, [newGoalTitle, selectedHorizon, addGoal]);
+  }, [newGoalTitle, selectedHorizon, newGoalAreaId, addGoal]);
 
   const handleCompleteProject = useCallback((project: Project) => {
     if (Platform.OS !== 'web') {
@@ -66,12 +77,24 @@ export default function ProjectsScreen() {
     updateProject(project.id, { status: 'completed', completedAt: new Date().toISOString() });
   }, [updateProject]);
 
+  const handleToggleType = useCallback((project: Project) => {
+    if (Platform.OS !== 'web') {
+      Haptics.selectionAsync();
+    }
+    updateProject(project.id, { type: project.type === 'sequential' ? 'parallel' : 'sequential' });
+  }, [updateProject]);
+
   const renderProject = useCallback(({ item }: { item: Project }) => {
     const progress = getProjectProgress(item.id);
     const taskCount = getTasksByProject(item.id).length;
+    const sequential = item.type === 'sequential';
 
     return (
-      <TouchableOpacity style={styles.projectCard} activeOpacity={0.7}>
+      <TouchableOpacity
+        style={styles.projectCard}
+        activeOpacity={0.7}
+        onPress={() => router.push(`/projects/${item.id}`)}
+      >
         <View style={styles.projectHeader}>
           <View style={[styles.projectColor, { backgroundColor: item.color }]} />
           <View style={styles.projectInfo}>
@@ -80,6 +103,12 @@ export default function ProjectsScreen() {
               <Text style={styles.projectOutcome} numberOfLines={1}>{item.outcome}</Text>
             )}
           </View>
+          <TouchableOpacity
+            style={styles.completeButton}
+            onPress={() => setProjectToDelete(item)}
+          >
+            <Trash2 size={20} color={Colors.textMuted} />
+          </TouchableOpacity>
           <TouchableOpacity
             style={styles.completeButton}
             onPress={() => handleCompleteProject(item)}
@@ -94,44 +123,78 @@ export default function ProjectsScreen() {
           </View>
           <View style={styles.projectStats}>
             <Text style={styles.projectStatText}>{taskCount} tasks</Text>
+            <TouchableOpacity style={styles.typeToggle} onPress={() => handleToggleType(item)}>
+              {sequential ? <ListOrdered size={12} color={Colors.textMuted} /> : <Shuffle size={12} color={Colors.textMuted} />}
+              <Text style={styles.projectStatText}>{sequential ? 'In order' : 'Any order'}</Text>
+            </TouchableOpacity>
             <Text style={styles.projectStatText}>{progress}% complete</Text>
+            <ChevronRight size={14} color={Colors.textMuted} />
           </View>
         </View>
       </TouchableOpacity>
     );
-  }, [getProjectProgress, getTasksByProject, handleCompleteProject]);
+  }, [getProjectProgress, getTasksByProject, handleCompleteProject, handleToggleType]);
 
   const renderGoal = useCallback(({ item }: { item: Goal }) => {
-    const horizonLabels = {
-      '1-year': '1 Year',
-      '3-year': '3 Years',
-      '5-year': '5 Years',
-      'vision': 'Vision',
-    };
+    const horizon = GOAL_HORIZONS.find(h => h.value === item.horizon)?.label;
+    const area = areas.find(a => a.id === item.areaId);
+    const supporting = getProjectsByGoal(item.id);
+    const progress = getGoalProgress(item.id);
 
     return (
       <View style={styles.goalCard}>
-        <Target size={18} color={Colors.project} />
-        <View style={styles.goalInfo}>
-          <Text style={styles.goalTitle}>{item.title}</Text>
-          <Text style={styles.goalHorizon}>{horizonLabels[item.horizon]}</Text>
-        </View>
+        <TouchableOpacity style={styles.goalHeader} onPress={() => router.push(`/projects/goals/${item.id}`)}>
+          <Target size={18} color={Colors.project} />
+          <View style={styles.goalInfo}>
+            <Text style={styles.goalTitle}>{item.title}</Text>
+            <Text style={styles.goalHorizon}>
+              {[horizon, area?.title, item.targetDate && `by ${item.targetDate}`].filter(Boolean).join(' · ')}
+            </Text>
+          </View>
+          {progress && <Text style={styles.goalProgress}>{progress.value}%</Text>}
+          <ChevronRight size={14} color={Colors.textMuted} />
+        </TouchableOpacity>
+        {supporting.length === 0 ? (
+          <Text style={styles.goalEmpty}>No projects serve this goal yet</Text>
+        ) : (
+          supporting.map((project) => {
+            const progress = getProjectProgress(project.id);
+            return (
+              <TouchableOpacity key={project.id} style={styles.goalProject} onPress={() => router.push(`/projects/${project.id}`)}>
+                <View style={[styles.goalProjectColor, { backgroundColor: project.color }]} />
+                <Text style={[styles.goalProjectTitle, project.status === 'completed' && styles.goalProjectDone]} numberOfLines={1}>
+                  {project.title}
+                </Text>
+                <View style={styles.goalProgressBar}>
+                  <View style={[styles.progressFill, { width: `${progress}%`, backgroundColor: project.color }]} />
+                </View>
+                <Text style={styles.projectStatText}>{progress}%</Text>
+              </TouchableOpacity>
+            );
+          })
+        )}
       </View>
     );
-  }, []);
+  }, [areas, getProjectsByGoal, getProjectProgress, getGoalProgress]);
 
   return (
     <ScrollView style={styles.container} showsVerticalScrollIndicator={false}>
       <View style={styles.section}>
         <View style={styles.sectionHeader}>
           <Text style={styles.sectionTitle}>Active Projects</Text>
-          <TouchableOpacity
-            style={styles.addButton}
-            onPress={() => setShowAddProject(true)}
-          >
-            <Plus size={18} color={Colors.highlight} />
-            <Text style={styles.addButtonText}>Add</Text>
-          </TouchableOpacity>
+          <View style={styles.headerActions}>
+            <TouchableOpacity style={styles.addButton} onPress={() => router.push('/areas')}>
+              <LayoutGrid size={16} color={Colors.textMuted} />
+              <Text style={styles.areasButtonText}>Areas</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.addButton}
+              onPress={() => setShowAddProject(true)}
+            >
+              <Plus size={18} color={Colors.highlight} />
+              <Text style={styles.addButtonText}>Add</Text>
+            </TouchableOpacity>
+          </View>
         </View>
 
         {activeProjects.length === 0 ? (
@@ -150,13 +213,19 @@ export default function ProjectsScreen() {
       <View style={styles.section}>
         <View style={styles.sectionHeader}>
           <Text style={styles.sectionTitle}>Long-Term Goals</Text>
-          <TouchableOpacity
-            style={styles.addButton}
-            onPress={() => setShowAddGoal(true)}
-          >
-            <Plus size={18} color={Colors.highlight} />
-            <Text style={styles.addButtonText}>Add</Text>
-          </TouchableOpacity>
+          <View style={styles.headerActions}>
+            <TouchableOpacity style={styles.addButton} onPress={() => router.push('/horizons')}>
+              <Telescope size={16} color={Colors.textMuted} />
+              <Text style={styles.areasButtonText}>Horizons</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.addButton}
+              onPress={() => setShowAddGoal(true)}
+            >
+              <Plus size={18} color={Colors.highlight} />
+              <Text style={styles.addButtonText}>Add</Text>
+            </TouchableOpacity>
+          </View>
         </View>
 
         {goals.length === 0 ? (
@@ -172,20 +241,41 @@ export default function ProjectsScreen() {
         )}
       </View>
 
+      {onHoldProjects.length > 0 && (
+        <View style={styles.section}>
+          <Text style={[styles.sectionTitle, styles.sectionTitleSpaced]}>On Hold ({onHoldProjects.length})</Text>
+          {onHoldProjects.map((project) => (
+            <View key={project.id}>{renderProject({ item: project })}</View>
+          ))}
+        </View>
+      )}
+
       {completedProjects.length > 0 && (
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Completed ({completedProjects.length})</Text>
           {completedProjects.map((project) => (
-            <View key={project.id} style={[styles.projectCard, styles.completedCard]}>
+            <TouchableOpacity
+              key={project.id}
+              style={[styles.projectCard, styles.completedCard]}
+              onPress={() => router.push(`/projects/${project.id}`)}
+            >
               <View style={[styles.projectColor, { backgroundColor: project.color, opacity: 0.5 }]} />
               <Text style={[styles.projectTitle, styles.completedText]}>{project.title}</Text>
-            </View>
+            </TouchableOpacity>
           ))}
         </View>
       )}
 
       <View style={{ height: 100 }} />
 
+      <DeleteProjectSheet
+        project={projectToDelete}
+        taskCount={projectToDelete ? getTasksByProject(projectToDelete.id).length : 0}
+        otherProjects={projects.filter(p => p.id !== projectToDelete?.id && p.status !== 'completed')}
+        onClose={() => setProjectToDelete(null)}
+        onDelete={(tasksAction) => projectToDelete && deleteProject(projectToDelete.id, tasksAction)}
+      />
+
       <Modal visible={showAddProject} transparent animationType="slide" onRequestClose={() => setShowAddProject(false)}>
         <Pressable style={styles.modalOverlay} onPress={() => setShowAddProject(false)}>
           <Pressable style={styles.modalContent} onPress={(e) => e.stopPropagation()}>
@@ -225,6 +315,41 @@ export default function ProjectsScreen() {
               ))}
             </View>
 
+            <Text style={styles.label}>Tasks</Text>
+            <View style={styles.horizonPicker}>
+              {([['parallel', 'In any order'], ['sequential', 'One after another']] as const).map(([type, label]) => (
+                <TouchableOpacity
+                  key={type}
+                  style={[styles.horizonOption, newProjectType === type && styles.horizonSelected]}
+                  onPress={() => setNewProjectType(type)}
+                >
+                  <Text style={[styles.horizonText, newProjectType === type && styles.horizonTextSelected]}>{label}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {areas.length > 0 && (
+              <>
+                <Text style={styles.label}>Area</Text>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.areaPicker}>
+                  {[undefined, ...areas.map(a => a.id)].map((areaId) => {
+                    const selected = newProjectAreaId === areaId;
+                    return (
+                      <TouchableOpacity
+                        key={areaId ?? 'none'}
+                        style={[styles.areaOption, selected && styles.horizonSelected]}
+                        onPress={() => setNewProjectAreaId(areaId)}
+                      >
+                        <Text style={[styles.horizonText, selected && styles.horizonTextSelected]}>
+                          {areaId ? areas.find(a => a.id === areaId)?.title : 'None'}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </ScrollView>
+              </>
+            )}
+
             <TouchableOpacity style={styles.createButton} onPress={handleAddProject}>
               <Text style={styles.createButtonText}>Create Project</Text>
             </TouchableOpacity>
@@ -253,19 +378,39 @@ export default function ProjectsScreen() {
 
             <Text style={styles.label}>Time Horizon</Text>
             <View style={styles.horizonPicker}>
-              {(['1-year', '3-year', '5-year', 'vision'] as const).map((horizon) => (
+              {[...GOAL_HORIZONS].reverse().map(({ value, label }) => (
                 <TouchableOpacity
-                  key={horizon}
-                  style={[styles.horizonOption, selectedHorizon === horizon && styles.horizonSelected]}
-                  onPress={() => setSelectedHorizon(horizon)}
+                  key={value}
+                  style={[styles.horizonOption, selectedHorizon === value && styles.horizonSelected]}
+                  onPress={() => setSelectedHorizon(value)}
                 >
-                  <Text style={[styles.horizonText, selectedHorizon === horizon && styles.horizonTextSelected]}>
-                    {horizon === 'vision' ? 'Vision' : horizon.replace('-', ' ')}
-                  </Text>
+                  <Text style={[styles.horizonText, selectedHorizon === value && styles.horizonTextSelected]}>{label}</Text>
                 </TouchableOpacity>
               ))}
             </View>
 
+            {areas.length > 0 && (
+              <>
+                <Text style={styles.label}>Area</Text>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.areaPicker}>
+                  {[undefined, ...areas.map(a => a.id)].map((areaId) => {
+                    const selected = newGoalAreaId === areaId;
+                    return (
+                      <TouchableOpacity
+                        key={areaId ?? 'none'}
+                        style={[styles.areaOption, selected && styles.horizonSelected]}
+                        onPress={() => setNewGoalAreaId(areaId)}
+                      >
+                        <Text style={[styles.horizonText, selected && styles.horizonTextSelected]}>
+                          {areaId ? areas.find(a => a.id === areaId)?.title : 'None'}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </ScrollView>
+              </>
+            )}
+
             <TouchableOpacity style={styles.createButton} onPress={handleAddGoal}>
               <Text style={styles.createButtonText}>Create Goal</Text>
             </TouchableOpacity>
@@ -295,11 +440,24 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     color: Colors.text,
   },
+  sectionTitleSpaced: {
+    marginBottom: 16,
+  },
   addButton: {
     flexDirection: 'row',
     alignItems: 'center',
     gap: 4,
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  areasButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.textMuted,
+  },
   addButtonText: {
     fontSize: 14,
     fontWeight: '600',
@@ -373,17 +531,62 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: Colors.textMuted,
   },
-  goalCard: {
+  typeToggle: {
     flexDirection: 'row',
     alignItems: 'center',
+    gap: 4,
+  },
+  goalCard: {
     backgroundColor: Colors.surface,
     borderRadius: 12,
     padding: 14,
     marginBottom: 8,
     borderWidth: 1,
     borderColor: Colors.border,
+  },
+  goalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
     gap: 12,
   },
+  goalProgress: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: Colors.project,
+  },
+  goalEmpty: {
+    fontSize: 12,
+    color: Colors.textMuted,
+    marginTop: 8,
+    marginLeft: 30,
+  },
+  goalProject: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 10,
+    marginLeft: 30,
+  },
+  goalProjectColor: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  goalProjectTitle: {
+    flex: 1,
+    fontSize: 14,
+    color: Colors.textSecondary,
+  },
+  goalProjectDone: {
+    textDecorationLine: 'line-through',
+  },
+  goalProgressBar: {
+    width: 60,
+    height: 4,
+    backgroundColor: Colors.surfaceLight,
+    borderRadius: 2,
+    overflow: 'hidden',
+  },
   goalInfo: {
     flex: 1,
   },
@@ -490,6 +693,18 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: Colors.border,
   },
+  areaPicker: {
+    gap: 8,
+    marginBottom: 24,
+  },
+  areaOption: {
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderRadius: 10,
+    backgroundColor: Colors.surface,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
   horizonSelected: {
     backgroundColor: Colors.highlight,
     borderColor: Colors.highlight,
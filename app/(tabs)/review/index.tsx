@@ -1,12 +1,15 @@
 import React, { useMemo } from 'react';
 import { View, StyleSheet, ScrollView, Text, TouchableOpacity } from 'react-native';
-import { Inbox, Zap, Clock, Cloud, CheckCircle, AlertTriangle, Calendar, TrendingUp, Target } from 'lucide-react-native';
+import { router } from 'expo-router';
+import { Inbox, Zap, Clock, Cloud, CheckCircle, AlertTriangle, Calendar, TrendingUp, Target, RefreshCw, CloudOff, GitMerge, UserCircle, ArrowDownUp, Trash2, AtSign, LayoutGrid, Telescope } from 'lucide-react-native';
 import { useTasks } from '@/contexts/TaskContext';
+import { useAuth } from '@/contexts/AuthContext';
 import Colors from '@/constants/colors';
-import { isOverdue, isDueToday, isDueSoon } from '@/utils/helpers';
+import { isOverdue, isDueToday, isDueSoon, getRelativeTime } from '@/utils/helpers';
 
 export default function ReviewScreen() {
-  const { tasks, projects, goals, stats } = useTasks();
+  const { tasks, projects, goals, stats, syncStatus, syncNow, conflicts, trash, dependencies } = useTasks();
+  const { user } = useAuth();
 
   const weeklyStats = useMemo(() => {
     const now = new Date();
@@ -39,9 +42,10 @@ export default function ReviewScreen() {
   }, [tasks]);
 
   const activeProjectCount = projects.filter(p => p.status === 'active').length;
+  // A project whose next actions all wait on other tasks is stuck too.
   const stuckProjects = projects.filter(p => {
     if (p.status !== 'active') return false;
-    const projectTasks = tasks.filter(t => t.projectId === p.id && t.status === 'next');
+    const projectTasks = tasks.filter(t => t.projectId === p.id && t.status === 'next' && !dependencies.blockedBy.has(t.id));
     return projectTasks.length === 0;
   });
 
@@ -71,6 +75,65 @@ export default function ReviewScreen() {
       <View style={styles.header}>
         <Text style={styles.greeting}>Weekly Review</Text>
         <Text style={styles.date}>{new Date().toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' })}</Text>
+        {!syncStatus.enabled ? (
+          <TouchableOpacity style={styles.syncRow} onPress={() => router.push('/account')}>
+            <CloudOff size={12} color={Colors.textMuted} />
+            <Text style={styles.syncText}>Sign in to sync across devices</Text>
+          </TouchableOpacity>
+        ) : (
+          <TouchableOpacity style={styles.syncRow} onPress={syncNow} disabled={syncStatus.syncing}>
+            {syncStatus.error ? (
+              <CloudOff size={12} color={Colors.textMuted} />
+            ) : (
+              <RefreshCw size={12} color={Colors.textMuted} />
+            )}
+            <Text style={styles.syncText}>
+              {syncStatus.syncing
+                ? 'Syncing…'
+                : syncStatus.error
+                  ? `Offline${syncStatus.pending > 0 ? ` · ${syncStatus.pending} changes pending` : ''}`
+                  : syncStatus.lastSyncedAt
+                    ? `Synced ${getRelativeTime(syncStatus.lastSyncedAt).toLowerCase()}`
+                    : 'Not synced yet'}
+            </Text>
+          </TouchableOpacity>
+        )}
+        {user && (
+          <TouchableOpacity style={styles.syncRow} onPress={() => router.push('/account')}>
+            <UserCircle size={12} color={Colors.textMuted} />
+            <Text style={styles.syncText}>{user.name ?? user.email}</Text>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity style={styles.syncRow} onPress={() => router.push('/contexts')}>
+          <AtSign size={12} color={Colors.textMuted} />
+          <Text style={styles.syncText}>Contexts</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.syncRow} onPress={() => router.push('/areas')}>
+          <LayoutGrid size={12} color={Colors.textMuted} />
+          <Text style={styles.syncText}>Areas</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.syncRow} onPress={() => router.push('/horizons')}>
+          <Telescope size={12} color={Colors.textMuted} />
+          <Text style={styles.syncText}>Horizons of Focus</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.syncRow} onPress={() => router.push('/data')}>
+          <ArrowDownUp size={12} color={Colors.textMuted} />
+          <Text style={styles.syncText}>Import & export</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.syncRow} onPress={() => router.push('/trash')}>
+          <Trash2 size={12} color={Colors.textMuted} />
+          <Text style={styles.syncText}>
+            Trash{trash.tasks.length + trash.projects.length > 0 ? ` · ${trash.tasks.length + trash.projects.length}` : ''}
+          </Text>
+        </TouchableOpacity>
+        {conflicts.length > 0 && (
+          <TouchableOpacity style={styles.syncRow} onPress={() => router.push('/conflicts')}>
+            <GitMerge size={12} color={Colors.warning} />
+            <Text style={[styles.syncText, { color: Colors.warning }]}>
+              {conflicts.length} sync {conflicts.length === 1 ? 'conflict' : 'conflicts'} to review
+            </Text>
+          </TouchableOpacity>
+        )}
       </View>
 
       <View style={styles.statsGrid}>
@@ -218,6 +281,16 @@ const styles = StyleSheet.create({
     fontSize: 15,
     color: Colors.textMuted,
   },
+  syncRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 8,
+  },
+  syncText: {
+    fontSize: 12,
+    color: Colors.textMuted,
+  },
   statsGrid: {
     flexDirection: 'row',
     flexWrap: 'wrap',
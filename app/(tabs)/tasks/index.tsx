@@ -1,35 +1,60 @@
 import React, { useState, useCallback, useMemo } from 'react';
 import { View, StyleSheet, FlatList, Text, TouchableOpacity, ScrollView } from 'react-native';
-import { Zap, Clock, Cloud, CheckCircle, Filter, LucideIcon } from 'lucide-react-native';
+import { router } from 'expo-router';
+import { Zap, Clock, Cloud, CheckCircle, CalendarClock, Lock, Filter, Settings2, Layers, LucideIcon } from 'lucide-react-native';
 import { useTasks } from '@/contexts/TaskContext';
 import TaskItem from '@/components/TaskItem';
 import TaskActionSheet from '@/components/TaskActionSheet';
 import EditTaskModal from '@/components/EditTaskModal';
 import EmptyState from '@/components/EmptyState';
 import Colors from '@/constants/colors';
-import { Task, TaskStatus, Context, CONTEXTS } from '@/types/task';
+import { Task, TaskStatus } from '@/types/task';
+import { activeContexts } from '@/utils/contexts';
+import { deferredUntil } from '@/utils/helpers';
 
-type FilterType = 'next' | 'waiting' | 'someday' | 'done';
+type FilterType = 'next' | 'waiting' | 'someday' | 'deferred' | 'blocked' | 'done';
+
+/** A single context, or a context set matching tasks with any of its contexts. */
+type ContextFilter = { contextId: string } | { setId: string };
 
 const FILTERS: { value: FilterType; label: string; icon: LucideIcon; color: string }[] = [
   { value: 'next', label: 'Next', icon: Zap, color: Colors.nextAction },
   { value: 'waiting', label: 'Waiting', icon: Clock, color: Colors.waiting },
   { value: 'someday', label: 'Someday', icon: Cloud, color: Colors.someday },
+  { value: 'deferred', label: 'Deferred', icon: CalendarClock, color: Colors.textSecondary },
+  { value: 'blocked', label: 'Blocked', icon: Lock, color: Colors.textSecondary },
   { value: 'done', label: 'Done', icon: CheckCircle, color: Colors.success },
 ];
 
 export default function TasksScreen() {
-  const { tasks, projects, updateTask, deleteTask, completeTask, moveTask, stats } = useTasks();
+  const { availableTasks, deferredTasks, today, dependencies, projects, contexts, contextSets, updateTask, deleteTask, promoteToProject, completeTask, moveTask, stats, loadAllTasks, archiveLoaded } = useTasks();
   const [activeFilter, setActiveFilter] = useState<FilterType>('next');
-  const [contextFilter, setContextFilter] = useState<Context | null>(null);
+  const [contextFilter, setContextFilter] = useState<ContextFilter | null>(null);
+  const contextChips = useMemo(() => activeContexts(contexts), [contexts]);
+  const setChips = useMemo(() => [...contextSets].sort((a, b) => a.name.localeCompare(b.name)), [contextSets]);
+  const isContextActive = (id: string) => !!contextFilter && 'contextId' in contextFilter && contextFilter.contextId === id;
+  const isSetActive = (id: string) => !!contextFilter && 'setId' in contextFilter && contextFilter.setId === id;
   const [selectedTask, setSelectedTask] = useState<Task | null>(null);
   const [showActionSheet, setShowActionSheet] = useState(false);
   const [showEditModal, setShowEditModal] = useState(false);
 
   const filteredTasks = useMemo(() => {
-    let filtered = tasks.filter(t => t.status === activeFilter);
+    // Next actions waiting on another task are listed under Blocked instead.
+    const isBlocked = (t: Task) => dependencies.blockedBy.has(t.id);
+    let filtered = activeFilter === 'deferred'
+      ? deferredTasks
+      : activeFilter === 'blocked'
+        ? availableTasks.filter(t => t.status === 'next' && isBlocked(t))
+        : availableTasks.filter(t => t.status === activeFilter && !(activeFilter === 'next' && isBlocked(t)));
     if (contextFilter) {
-      filtered = filtered.filter(t => t.context === contextFilter);
+      const ids = 'contextId' in contextFilter
+        ? [contextFilter.contextId]
+        : contextSets.find(set => set.id === contextFilter.setId)?.contextIds ?? [];
+      filtered = filtered.filter(t => t.contexts?.some(id => ids.includes(id)));
+    }
+    if (activeFilter === 'deferred') {
+      // Soonest back first.
+      return [...filtered].sort((a, b) => deferredUntil(a, today)!.localeCompare(deferredUntil(b, today)!));
     }
     return filtered.sort((a, b) => {
       const priorityOrder = { high: 0, medium: 1, low: 2, undefined: 3 };
@@ -37,13 +62,15 @@ export default function TasksScreen() {
       const bPriority = priorityOrder[b.priority as keyof typeof priorityOrder] ?? 3;
       return aPriority - bPriority;
     });
-  }, [tasks, activeFilter, contextFilter]);
+  }, [availableTasks, deferredTasks, dependencies, today, activeFilter, contextFilter, contextSets]);
 
   const getFilterCount = useCallback((filter: FilterType) => {
     switch (filter) {
       case 'next': return stats.next;
       case 'waiting': return stats.waiting;
       case 'someday': return stats.someday;
+      case 'deferred': return stats.deferred;
+      case 'blocked': return stats.blocked;
       case 'done': return stats.done;
       default: return 0;
     }
@@ -85,14 +112,24 @@ export default function TasksScreen() {
     }
   }, [selectedTask, deleteTask]);
 
+  const handlePromote = useCallback(() => {
+    if (selectedTask) {
+      promoteToProject(selectedTask.id);
+    }
+  }, [selectedTask, promoteToProject]);
+
   const renderItem = useCallback(({ item }: { item: Task }) => (
     <TaskItem
       task={item}
       onPress={() => handleTaskPress(item)}
       onComplete={() => handleComplete(item)}
       onLongPress={() => handleTaskPress(item)}
+      blockedBy={dependencies.blockedBy.get(item.id)}
+      blocking={dependencies.blocking.get(item.id)}
+      deferredUntil={deferredUntil(item, today)}
+      contexts={contexts}
     />
-  ), [handleTaskPress, handleComplete]);
+  ), [handleTaskPress, handleComplete, dependencies, today, contexts]);
 
   const activeFilterConfig = FILTERS.find(f => f.value === activeFilter);
 
@@ -140,17 +177,33 @@ export default function TasksScreen() {
           <Filter size={14} color={!contextFilter ? Colors.text : Colors.textMuted} />
           <Text style={[styles.contextLabel, !contextFilter && styles.contextLabelActive]}>All</Text>
         </TouchableOpacity>
-        {CONTEXTS.map((ctx) => (
+        {setChips.map((set) => (
+          <TouchableOpacity
+            key={set.id}
+            style={[styles.contextChip, isSetActive(set.id) && styles.contextChipActive]}
+            onPress={() => setContextFilter(isSetActive(set.id) ? null : { setId: set.id })}
+          >
+            <Layers size={14} color={isSetActive(set.id) ? Colors.text : Colors.textMuted} />
+            <Text style={[styles.contextLabel, isSetActive(set.id) && styles.contextLabelActive]}>
+              {set.name}
+            </Text>
+          </TouchableOpacity>
+        ))}
+        {contextChips.map((ctx) => (
           <TouchableOpacity
-            key={ctx.value}
-            style={[styles.contextChip, contextFilter === ctx.value && styles.contextChipActive]}
-            onPress={() => setContextFilter(contextFilter === ctx.value ? null : ctx.value)}
+            key={ctx.id}
+            style={[styles.contextChip, isContextActive(ctx.id) && styles.contextChipActive]}
+            onPress={() => setContextFilter(isContextActive(ctx.id) ? null : { contextId: ctx.id })}
           >
-            <Text style={[styles.contextLabel, contextFilter === ctx.value && styles.contextLabelActive]}>
-              {ctx.value}
+            <View style={[styles.contextDot, { backgroundColor: ctx.color }]} />
+            <Text style={[styles.contextLabel, isContextActive(ctx.id) && styles.contextLabelActive]}>
+              @{ctx.name}
             </Text>
           </TouchableOpacity>
         ))}
+        <TouchableOpacity style={styles.contextChip} onPress={() => router.push('/contexts')}>
+          <Settings2 size={14} color={Colors.textMuted} />
+        </TouchableOpacity>
       </ScrollView>
 
       <FlatList
@@ -159,11 +212,22 @@ export default function TasksScreen() {
         renderItem={renderItem}
         contentContainerStyle={styles.listContent}
         showsVerticalScrollIndicator={false}
+        ListFooterComponent={activeFilter === 'done' && !archiveLoaded ? (
+          <TouchableOpacity style={styles.archiveButton} onPress={() => loadAllTasks()}>
+            <Text style={styles.archiveText}>Show older completed tasks</Text>
+          </TouchableOpacity>
+        ) : null}
         ListEmptyComponent={
           <EmptyState
             icon={activeFilterConfig?.icon || Zap}
             title={`No ${activeFilterConfig?.label} Tasks`}
-            description={activeFilter === 'next' ? "Process your inbox to add next actions" : `No tasks in ${activeFilterConfig?.label.toLowerCase()} list`}
+            description={activeFilter === 'next'
+              ? "Process your inbox to add next actions"
+              : activeFilter === 'deferred'
+                ? "Tasks with a start or wait date in the future rest here until that day"
+                : activeFilter === 'blocked'
+                  ? "Next actions waiting on another task show up here until it is done"
+                  : `No tasks in ${activeFilterConfig?.label.toLowerCase()} list`}
             color={activeFilterConfig?.color}
           />
         }
@@ -176,6 +240,7 @@ export default function TasksScreen() {
         onMove={handleMove}
         onEdit={handleEdit}
         onDelete={handleDelete}
+        onPromote={handlePromote}
       />
 
       <EditTaskModal
@@ -253,6 +318,11 @@ const styles = StyleSheet.create({
     backgroundColor: Colors.surface,
     gap: 6,
   },
+  contextDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
   contextChipActive: {
     backgroundColor: Colors.surfaceHighlight,
   },
@@ -264,6 +334,14 @@ const styles = StyleSheet.create({
     color: Colors.text,
     fontWeight: '500',
   },
+  archiveButton: {
+    alignItems: 'center',
+    paddingVertical: 16,
+  },
+  archiveText: {
+    fontSize: 14,
+    color: Colors.textMuted,
+  },
   listContent: {
     paddingHorizontal: 20,
     paddingTop: 12,
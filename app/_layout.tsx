@@ -3,7 +3,10 @@ import { Stack } from "expo-router";
 import * as SplashScreen from "expo-splash-screen";
 import React, { useEffect } from "react";
 import { GestureHandlerRootView } from "react-native-gesture-handler";
+import { AuthProvider } from "@/contexts/AuthContext";
+import { CalendarProvider } from "@/contexts/CalendarContext";
 import { TaskProvider } from "@/contexts/TaskContext";
+import UndoSnackbar from "@/components/UndoSnackbar";
 import Colors from "@/constants/colors";
 import { trpc, trpcClient } from "@/lib/trpc";
 
@@ -13,8 +16,26 @@ const queryClient = new QueryClient();
 
 function RootLayoutNav() {
   return (
-    <Stack screenOptions={{ headerBackTitle: "Back" }}>
+    <Stack
+      screenOptions={{
+        headerBackTitle: "Back",
+        headerStyle: { backgroundColor: Colors.background },
+        headerTintColor: Colors.text,
+        headerTitleStyle: { fontWeight: "600" },
+        contentStyle: { backgroundColor: Colors.background },
+      }}
+    >
       <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+      <Stack.Screen name="account" options={{ title: "Account", presentation: "modal" }} />
+      <Stack.Screen name="tokens" options={{ title: "API Tokens", presentation: "modal" }} />
+      <Stack.Screen name="data" options={{ title: "Import & Export", presentation: "modal" }} />
+      <Stack.Screen name="conflicts" options={{ title: "Sync Conflicts", presentation: "modal" }} />
+      <Stack.Screen name="calendar-feed" options={{ title: "Calendar Feed", presentation: "modal" }} />
+      <Stack.Screen name="calendars" options={{ title: "Calendars", presentation: "modal" }} />
+      <Stack.Screen name="trash" options={{ title: "Trash", presentation: "modal" }} />
+      <Stack.Screen name="contexts" options={{ title: "Contexts", presentation: "modal" }} />
+      <Stack.Screen name="areas" options={{ title: "Areas", presentation: "modal" }} />
+      <Stack.Screen name="horizons" options={{ title: "Horizons of Focus", presentation: "modal" }} />
     </Stack>
   );
 }
@@ -28,9 +49,14 @@ export default function RootLayout() {
     <trpc.Provider client={trpcClient} queryClient={queryClient}>
       <QueryClientProvider client={queryClient}>
         <GestureHandlerRootView style={{ flex: 1, backgroundColor: Colors.background }}>
-          <TaskProvider>
-            <RootLayoutNav />
-          </TaskProvider>
+          <AuthProvider>
+            <TaskProvider>
+              <CalendarProvider>
+                <RootLayoutNav />
+                <UndoSnackbar />
+              </CalendarProvider>
+            </TaskProvider>
+          </AuthProvider>
         </GestureHandlerRootView>
       </QueryClientProvider>
     </trpc.Provider>
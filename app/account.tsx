@@ -0,0 +1,275 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, Text, TextInput, TouchableOpacity, ScrollView, ActivityIndicator, Platform } from 'react-native';
+import { router } from 'expo-router';
+import { ChevronRight, KeyRound, LogOut, UserCircle } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTasks } from '@/contexts/TaskContext';
+import Colors from '@/constants/colors';
+import { getRelativeTime } from '@/utils/helpers';
+
+type Mode = 'signIn' | 'signUp';
+
+export default function AccountScreen() {
+  const { user, signIn, signUp, signOut, isSubmitting } = useAuth();
+  const { syncStatus } = useTasks();
+  const [mode, setMode] = useState<Mode>('signIn');
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async () => {
+    if (!email.trim() || !password) return;
+    setError(null);
+    try {
+      if (mode === 'signIn') {
+        await signIn({ email: email.trim(), password });
+      } else {
+        await signUp({ email: email.trim(), password, name: name.trim() || undefined });
+      }
+      if (Platform.OS !== 'web') {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      }
+      setPassword('');
+      router.back();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Something went wrong');
+    }
+  };
+
+  const handleSignOut = async () => {
+    await signOut();
+    router.back();
+  };
+
+  if (user) {
+    return (
+      <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+        <View style={styles.profile}>
+          <UserCircle size={56} color={Colors.highlight} />
+          {user.name && <Text style={styles.profileName}>{user.name}</Text>}
+          <Text style={styles.profileEmail}>{user.email}</Text>
+          <Text style={styles.profileMeta}>
+            {syncStatus.lastSyncedAt
+              ? `Last synced ${getRelativeTime(syncStatus.lastSyncedAt).toLowerCase()}`
+              : 'Waiting for first sync'}
+          </Text>
+        </View>
+
+        <TouchableOpacity style={styles.linkRow} onPress={() => router.push('/tokens')}>
+          <KeyRound size={18} color={Colors.textSecondary} />
+          <Text style={styles.linkText}>API Tokens</Text>
+          <ChevronRight size={18} color={Colors.textMuted} />
+        </TouchableOpacity>
+
+        <TouchableOpacity style={styles.signOutButton} onPress={handleSignOut}>
+          <LogOut size={18} color={Colors.highlight} />
+          <Text style={styles.signOutText}>Sign Out</Text>
+        </TouchableOpacity>
+        <Text style={styles.hint}>
+          {syncStatus.pending > 0
+            ? `Signing out removes your tasks from this device. ${syncStatus.pending} ${syncStatus.pending === 1 ? 'change has' : 'changes have'} not synced yet and would be lost.`
+            : 'Signing out removes your tasks from this device; they stay in your account.'}
+        </Text>
+      </ScrollView>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+      <Text style={styles.intro}>
+        Sign in to back up your tasks and keep them in sync across your devices.
+      </Text>
+
+      <View style={styles.modeToggle}>
+        {(['signIn', 'signUp'] as const).map((option) => (
+          <TouchableOpacity
+            key={option}
+            style={[styles.modeOption, mode === option && styles.modeSelected]}
+            onPress={() => {
+              setMode(option);
+              setError(null);
+            }}
+          >
+            <Text style={[styles.modeText, mode === option && styles.modeTextSelected]}>
+              {option === 'signIn' ? 'Sign In' : 'Create Account'}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {mode === 'signUp' && (
+        <TextInput
+          style={styles.input}
+          value={name}
+          onChangeText={setName}
+          placeholder="Name (optional)"
+          placeholderTextColor={Colors.textMuted}
+          autoComplete="name"
+        />
+      )}
+      <TextInput
+        style={styles.input}
+        value={email}
+        onChangeText={setEmail}
+        placeholder="Email"
+        placeholderTextColor={Colors.textMuted}
+        autoCapitalize="none"
+        autoComplete="email"
+        keyboardType="email-address"
+      />
+      <TextInput
+        style={styles.input}
+        value={password}
+        onChangeText={setPassword}
+        placeholder={mode === 'signUp' ? 'Password (8+ characters)' : 'Password'}
+        placeholderTextColor={Colors.textMuted}
+        secureTextEntry
+        autoComplete={mode === 'signUp' ? 'new-password' : 'current-password'}
+        onSubmitEditing={handleSubmit}
+      />
+
+      {error && <Text style={styles.error}>{error}</Text>}
+
+      <TouchableOpacity
+        style={[styles.submitButton, (!email.trim() || !password) && styles.submitDisabled]}
+        onPress={handleSubmit}
+        disabled={isSubmitting}
+      >
+        {isSubmitting ? (
+          <ActivityIndicator color={Colors.text} />
+        ) : (
+          <Text style={styles.submitText}>{mode === 'signIn' ? 'Sign In' : 'Create Account'}</Text>
+        )}
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    padding: 20,
+  },
+  intro: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    lineHeight: 20,
+    marginBottom: 20,
+  },
+  modeToggle: {
+    flexDirection: 'row',
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 4,
+    marginBottom: 20,
+  },
+  modeOption: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 8,
+    alignItems: 'center',
+  },
+  modeSelected: {
+    backgroundColor: Colors.surfaceHighlight,
+  },
+  modeText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.textMuted,
+  },
+  modeTextSelected: {
+    color: Colors.text,
+  },
+  input: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 15,
+    color: Colors.text,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    marginBottom: 16,
+  },
+  error: {
+    fontSize: 14,
+    color: Colors.error,
+    marginBottom: 16,
+  },
+  submitButton: {
+    backgroundColor: Colors.highlight,
+    borderRadius: 12,
+    padding: 16,
+    alignItems: 'center',
+  },
+  submitDisabled: {
+    opacity: 0.5,
+  },
+  submitText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  profile: {
+    alignItems: 'center',
+    paddingVertical: 24,
+  },
+  profileName: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: Colors.text,
+    marginTop: 12,
+  },
+  profileEmail: {
+    fontSize: 15,
+    color: Colors.textSecondary,
+    marginTop: 4,
+  },
+  profileMeta: {
+    fontSize: 12,
+    color: Colors.textMuted,
+    marginTop: 8,
+  },
+  linkRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    marginBottom: 12,
+  },
+  linkText: {
+    flex: 1,
+    fontSize: 16,
+    color: Colors.text,
+  },
+  signOutButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  signOutText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.highlight,
+  },
+  hint: {
+    fontSize: 12,
+    color: Colors.textMuted,
+    textAlign: 'center',
+    marginTop: 12,
+  },
+});
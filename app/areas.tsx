@@ -0,0 +1,225 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { View, StyleSheet, Text, TouchableOpacity, ScrollView } from 'react-native';
+import { router } from 'expo-router';
+import { Plus, Pencil, Target, FolderInput } from 'lucide-react-native';
+import { useTasks } from '@/contexts/TaskContext';
+import AreaEditorSheet from '@/components/AreaEditorSheet';
+import AreaIcon from '@/components/AreaIcon';
+import AreaPickerSheet from '@/components/AreaPickerSheet';
+import Colors from '@/constants/colors';
+import { Area, Project } from '@/types/task';
+
+export default function AreasScreen() {
+  const { tasks, projects, goals, areas, addArea, updateArea, deleteArea, updateProject } = useTasks();
+  const [editing, setEditing] = useState<Area | null>(null);
+  const [showEditor, setShowEditor] = useState(false);
+  const [moving, setMoving] = useState<Project | null>(null);
+
+  const sorted = useMemo(() => [...areas].sort((a, b) => a.title.localeCompare(b.title)), [areas]);
+  const openProjects = useMemo(() => projects.filter(p => p.status !== 'completed'), [projects]);
+
+  const openTaskCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    tasks.filter(t => t.status !== 'done' && t.projectId).forEach(t => counts.set(t.projectId!, (counts.get(t.projectId!) ?? 0) + 1));
+    return counts;
+  }, [tasks]);
+
+  const openEditor = useCallback((area: Area | null) => {
+    setEditing(area);
+    setShowEditor(true);
+  }, []);
+
+  const handleSave = useCallback((values: Pick<Area, 'title' | 'description' | 'icon'>) => {
+    if (editing) updateArea(editing.id, values);
+    else addArea(values);
+  }, [editing, addArea, updateArea]);
+
+  // Undefined gathers the projects and goals without an area.
+  const renderSection = (area: Area | undefined) => {
+    const areaProjects = openProjects.filter(p => p.areaId === area?.id);
+    const areaGoals = goals.filter(g => g.areaId === area?.id);
+    const openTasks = areaProjects.reduce((sum, p) => sum + (openTaskCounts.get(p.id) ?? 0), 0);
+    if (!area && areaProjects.length === 0 && areaGoals.length === 0) return null;
+
+    return (
+      <View key={area?.id ?? 'none'} style={styles.card}>
+        <View style={styles.header}>
+          <View style={styles.icon}>
+            {area ? <AreaIcon name={area.icon} color={Colors.text} /> : <FolderInput size={16} color={Colors.textMuted} />}
+          </View>
+          <View style={styles.headerText}>
+            <Text style={styles.title}>{area ? area.title : 'No area'}</Text>
+            {area?.description ? <Text style={styles.description}>{area.description}</Text> : null}
+            <Text style={styles.counts}>
+              {areaProjects.length} {areaProjects.length === 1 ? 'project' : 'projects'} · {areaGoals.length} {areaGoals.length === 1 ? 'goal' : 'goals'} · {openTasks} open {openTasks === 1 ? 'task' : 'tasks'}
+            </Text>
+          </View>
+          {area && (
+            <TouchableOpacity style={styles.iconButton} onPress={() => openEditor(area)}>
+              <Pencil size={16} color={Colors.textMuted} />
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {areaProjects.map((project) => (
+          <View key={project.id} style={styles.row}>
+            <TouchableOpacity style={styles.rowMain} onPress={() => router.push(`/projects/${project.id}`)} activeOpacity={0.7}>
+              <View style={[styles.dot, { backgroundColor: project.color }]} />
+              <Text style={styles.rowTitle} numberOfLines={1}>{project.title}</Text>
+              <Text style={styles.rowMeta}>
+                {project.status === 'on-hold' ? 'On hold' : `${openTaskCounts.get(project.id) ?? 0} open`}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.iconButton} onPress={() => setMoving(project)}>
+              <FolderInput size={16} color={Colors.textMuted} />
+            </TouchableOpacity>
+          </View>
+        ))}
+
+        {areaGoals.map((goal) => (
+          <View key={goal.id} style={styles.row}>
+            <TouchableOpacity style={styles.rowMain} onPress={() => router.push(`/projects/goals/${goal.id}`)} activeOpacity={0.7}>
+              <Target size={14} color={Colors.project} />
+              <Text style={styles.rowTitle} numberOfLines={1}>{goal.title}</Text>
+            </TouchableOpacity>
+          </View>
+        ))}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={styles.intro}>
+          Areas are the parts of your life you keep up, like work, health or family. Projects and goals belong to one; the move button reassigns a project.
+        </Text>
+
+        {sorted.map(renderSection)}
+        {renderSection(undefined)}
+
+        <TouchableOpacity style={styles.addButton} onPress={() => openEditor(null)}>
+          <Plus size={16} color={Colors.text} />
+          <Text style={styles.addText}>New Area</Text>
+        </TouchableOpacity>
+      </ScrollView>
+
+      <AreaEditorSheet
+        visible={showEditor}
+        area={editing}
+        areas={areas}
+        projectCount={editing ? projects.filter(p => p.areaId === editing.id).length : 0}
+        goalCount={editing ? goals.filter(g => g.areaId === editing.id).length : 0}
+        onClose={() => setShowEditor(false)}
+        onSave={handleSave}
+        onDelete={(moveToAreaId) => editing && deleteArea(editing.id, moveToAreaId)}
+      />
+
+      <AreaPickerSheet
+        title={moving?.title ?? null}
+        areas={sorted}
+        selectedAreaId={moving?.areaId}
+        onClose={() => setMoving(null)}
+        onSelect={(areaId) => moving && updateProject(moving.id, { areaId })}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    padding: 20,
+  },
+  intro: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  card: {
+    backgroundColor: Colors.surface,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    padding: 16,
+    marginBottom: 12,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 12,
+  },
+  icon: {
+    width: 32,
+    height: 32,
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: Colors.surfaceLight,
+  },
+  headerText: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  description: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    marginTop: 2,
+  },
+  counts: {
+    fontSize: 12,
+    color: Colors.textMuted,
+    marginTop: 4,
+  },
+  iconButton: {
+    padding: 6,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  rowMain: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 6,
+    paddingLeft: 10,
+  },
+  dot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  rowTitle: {
+    flex: 1,
+    fontSize: 15,
+    color: Colors.text,
+  },
+  rowMeta: {
+    fontSize: 12,
+    color: Colors.textMuted,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 6,
+    marginTop: 4,
+    paddingVertical: 8,
+  },
+  addText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+});
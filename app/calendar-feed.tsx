@@ -0,0 +1,263 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, Text, TouchableOpacity, ScrollView, ActivityIndicator, Share, Linking, Platform } from 'react-native';
+import { router } from 'expo-router';
+import { CalendarPlus, Download, RefreshCw, Share2, Trash2 } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { trpc, getBaseUrl } from '@/lib/trpc';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTasks } from '@/contexts/TaskContext';
+import Colors from '@/constants/colors';
+import { getRelativeTime } from '@/utils/helpers';
+import { shareTextFile } from '@/utils/files';
+import { exportIcs } from '@/utils/ics';
+
+export default function CalendarFeedScreen() {
+  const { user } = useAuth();
+  const { tasks, projects, contexts } = useTasks();
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [confirmingRemove, setConfirmingRemove] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const utils = trpc.useUtils();
+  const feedQuery = trpc.calendarFeed.get.useQuery(undefined, { enabled: !!user });
+
+  const resetFeed = trpc.calendarFeed.reset.useMutation({
+    onSuccess: (result) => {
+      if (Platform.OS !== 'web') {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      }
+      setFeedUrl(`${getBaseUrl()}/api/calendar/${result.token}.ics`);
+      utils.calendarFeed.get.invalidate();
+    },
+  });
+
+  const removeFeed = trpc.calendarFeed.remove.useMutation({
+    onSuccess: () => {
+      setFeedUrl(null);
+      setConfirmingRemove(false);
+      utils.calendarFeed.get.invalidate();
+    },
+  });
+
+  const handleExport = async () => {
+    setExportError(null);
+    try {
+      const date = new Date().toISOString().split('T')[0];
+      await shareTextFile(`taskflow-deadlines-${date}.ics`, exportIcs(tasks, projects, { contexts }), 'text/calendar');
+    } catch (e) {
+      console.error('[CalendarFeed] Export failed:', e);
+      setExportError(e instanceof Error ? e.message : 'Could not export');
+    }
+  };
+
+  const feed = feedQuery.data;
+  // Apple Calendar subscribes to webcal:// links instead of downloading them.
+  const webcalUrl = feedUrl?.replace(/^https?:/, 'webcal:');
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Text style={styles.intro}>
+        Subscribe from Google Calendar, Apple Calendar or Thunderbird to see your due dates next to your events. The feed updates as you work; calendar apps check it every few hours.
+      </Text>
+
+      {!user ? (
+        <TouchableOpacity style={styles.primaryButton} onPress={() => router.push('/account')}>
+          <Text style={styles.primaryText}>Sign in to get a feed URL</Text>
+        </TouchableOpacity>
+      ) : feedQuery.isLoading ? (
+        <ActivityIndicator color={Colors.textMuted} />
+      ) : feedQuery.error ? (
+        <Text style={styles.error}>{feedQuery.error.message}</Text>
+      ) : (
+        <>
+          {feedUrl && (
+            <View style={styles.urlCard}>
+              <Text style={styles.urlLabel}>Copy your feed URL now. It will not be shown again.</Text>
+              <Text style={styles.urlValue} selectable>{feedUrl}</Text>
+              <View style={styles.urlActions}>
+                <TouchableOpacity style={styles.smallButton} onPress={() => Share.share({ message: feedUrl })}>
+                  <Share2 size={16} color={Colors.text} />
+                  <Text style={styles.smallButtonText}>Share</Text>
+                </TouchableOpacity>
+                {Platform.OS === 'ios' && webcalUrl && (
+                  <TouchableOpacity style={styles.smallButton} onPress={() => Linking.openURL(webcalUrl)}>
+                    <CalendarPlus size={16} color={Colors.text} />
+                    <Text style={styles.smallButtonText}>Add to Calendar</Text>
+                  </TouchableOpacity>
+                )}
+              </View>
+              <Text style={styles.hint}>Add ?type=todo to the URL for to-dos instead of all-day events.</Text>
+            </View>
+          )}
+
+          {feed ? (
+            <View style={styles.feedCard}>
+              <Text style={styles.feedTitle}>Feed active</Text>
+              <Text style={styles.feedMeta}>
+                Created {getRelativeTime(feed.createdAt).toLowerCase()}
+                {feed.lastFetchedAt ? ` · last fetched ${getRelativeTime(feed.lastFetchedAt).toLowerCase()}` : ' · not fetched yet'}
+              </Text>
+              <View style={styles.urlActions}>
+                <TouchableOpacity style={styles.smallButton} onPress={() => resetFeed.mutate()} disabled={resetFeed.isPending}>
+                  <RefreshCw size={16} color={Colors.text} />
+                  <Text style={styles.smallButtonText}>New URL</Text>
+                </TouchableOpacity>
+                {confirmingRemove ? (
+                  <>
+                    <TouchableOpacity style={styles.smallButton} onPress={() => setConfirmingRemove(false)}>
+                      <Text style={styles.smallButtonText}>Cancel</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity style={styles.smallButton} onPress={() => removeFeed.mutate()} disabled={removeFeed.isPending}>
+                      <Text style={styles.removeText}>Remove</Text>
+                    </TouchableOpacity>
+                  </>
+                ) : (
+                  <TouchableOpacity style={styles.smallButton} onPress={() => setConfirmingRemove(true)}>
+                    <Trash2 size={16} color={Colors.textMuted} />
+                  </TouchableOpacity>
+                )}
+              </View>
+              <Text style={styles.hint}>A new URL or removing the feed stops calendars subscribed to the old one from updating.</Text>
+            </View>
+          ) : (
+            <TouchableOpacity style={styles.primaryButton} onPress={() => resetFeed.mutate()} disabled={resetFeed.isPending}>
+              {resetFeed.isPending ? <ActivityIndicator color={Colors.text} size="small" /> : <Text style={styles.primaryText}>Create feed URL</Text>}
+            </TouchableOpacity>
+          )}
+          {resetFeed.error && <Text style={styles.error}>{resetFeed.error.message}</Text>}
+        </>
+      )}
+
+      <Text style={styles.sectionTitle}>One-off export</Text>
+      <TouchableOpacity style={styles.exportRow} onPress={handleExport}>
+        <Download size={18} color={Colors.textSecondary} />
+        <Text style={styles.exportText}>Export due dates as .ics</Text>
+      </TouchableOpacity>
+      {exportError && <Text style={styles.error}>{exportError}</Text>}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  intro: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  primaryButton: {
+    backgroundColor: Colors.highlight,
+    borderRadius: 12,
+    padding: 14,
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  primaryText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  urlCard: {
+    backgroundColor: `${Colors.success}15`,
+    borderRadius: 12,
+    padding: 14,
+    borderWidth: 1,
+    borderColor: Colors.success,
+    marginBottom: 16,
+  },
+  urlLabel: {
+    fontSize: 13,
+    color: Colors.success,
+    marginBottom: 8,
+  },
+  urlValue: {
+    fontSize: 13,
+    color: Colors.text,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    marginBottom: 12,
+  },
+  urlActions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  smallButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: Colors.surfaceLight,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  smallButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  removeText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.error,
+  },
+  hint: {
+    fontSize: 12,
+    color: Colors.textMuted,
+    marginTop: 10,
+  },
+  feedCard: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 14,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    marginBottom: 16,
+  },
+  feedTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  feedMeta: {
+    fontSize: 12,
+    color: Colors.textMuted,
+    marginTop: 2,
+    marginBottom: 12,
+  },
+  error: {
+    fontSize: 14,
+    color: Colors.error,
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  exportRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    marginBottom: 12,
+  },
+  exportText: {
+    flex: 1,
+    fontSize: 16,
+    color: Colors.text,
+  },
+});
@@ -0,0 +1,291 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, Text, TextInput, TouchableOpacity, ScrollView, ActivityIndicator, Platform } from 'react-native';
+import { router } from 'expo-router';
+import { ChevronRight, FileUp, Link2, Plus, Rss, Trash2 } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { useAuth } from '@/contexts/AuthContext';
+import { useCalendars } from '@/contexts/CalendarContext';
+import Colors from '@/constants/colors';
+import { getRelativeTime } from '@/utils/helpers';
+import { pickTextFile } from '@/utils/files';
+
+export default function CalendarsScreen() {
+  const { user } = useAuth();
+  const {
+    subscriptions,
+    subscriptionsLoading,
+    imported,
+    subscribe,
+    isSubscribing,
+    unsubscribe,
+    importCalendarFile,
+    removeImportedCalendar,
+  } = useCalendars();
+  const [url, setUrl] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [confirmingId, setConfirmingId] = useState<string | null>(null);
+
+  const handleSubscribe = async () => {
+    if (!url.trim()) return;
+    setError(null);
+    try {
+      await subscribe({ url: url.trim() });
+      if (Platform.OS !== 'web') {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      }
+      setUrl('');
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not subscribe');
+    }
+  };
+
+  const handleImport = async () => {
+    setError(null);
+    try {
+      const file = await pickTextFile(['text/calendar', 'text/plain']);
+      if (!file) return;
+      await importCalendarFile(file.name, file.text);
+      if (Platform.OS !== 'web') {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      }
+    } catch (e) {
+      console.error('[Calendars] Import failed:', e);
+      setError(e instanceof Error ? e.message : 'Could not read this file');
+    }
+  };
+
+  const renderRemove = (id: string, onRemove: () => void) => (
+    confirmingId === id ? (
+      <View style={styles.confirmRow}>
+        <TouchableOpacity onPress={() => setConfirmingId(null)}>
+          <Text style={styles.cancelText}>Cancel</Text>
+        </TouchableOpacity>
+        <TouchableOpacity onPress={() => { setConfirmingId(null); onRemove(); }}>
+          <Text style={styles.removeText}>Remove</Text>
+        </TouchableOpacity>
+      </View>
+    ) : (
+      <TouchableOpacity onPress={() => setConfirmingId(id)} hitSlop={8}>
+        <Trash2 size={18} color={Colors.textMuted} />
+      </TouchableOpacity>
+    )
+  );
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+      <Text style={styles.intro}>
+        Events from your other calendars show up read-only in the Calendar and Planner, so you can see your meetings before choosing what to work on.
+      </Text>
+
+      {error && <Text style={styles.error}>{error}</Text>}
+
+      <Text style={styles.sectionTitle}>Subscribed</Text>
+      {!user ? (
+        <TouchableOpacity style={styles.linkRow} onPress={() => router.push('/account')}>
+          <Link2 size={18} color={Colors.textSecondary} />
+          <Text style={styles.linkText}>Sign in to subscribe to calendar URLs</Text>
+          <ChevronRight size={18} color={Colors.textMuted} />
+        </TouchableOpacity>
+      ) : (
+        <>
+          <View style={styles.createRow}>
+            <TextInput
+              style={styles.input}
+              value={url}
+              onChangeText={setUrl}
+              placeholder="https:// or webcal:// link to an .ics feed"
+              placeholderTextColor={Colors.textMuted}
+              autoCapitalize="none"
+              autoCorrect={false}
+              keyboardType="url"
+              onSubmitEditing={handleSubscribe}
+            />
+            <TouchableOpacity
+              style={[styles.createButton, !url.trim() && styles.createDisabled]}
+              onPress={handleSubscribe}
+              disabled={isSubscribing}
+            >
+              {isSubscribing ? <ActivityIndicator color={Colors.text} size="small" /> : <Plus size={20} color={Colors.text} />}
+            </TouchableOpacity>
+          </View>
+          {subscriptionsLoading ? (
+            <ActivityIndicator color={Colors.textMuted} />
+          ) : subscriptions.length === 0 ? (
+            <Text style={styles.emptyText}>No subscriptions yet</Text>
+          ) : (
+            subscriptions.map((calendar) => (
+              <View key={calendar.id} style={styles.calendarCard}>
+                <View style={[styles.colorDot, { backgroundColor: calendar.color }]} />
+                <View style={styles.calendarInfo}>
+                  <Text style={styles.calendarName}>{calendar.name}</Text>
+                  {calendar.lastError ? (
+                    <Text style={styles.calendarError} numberOfLines={2}>{calendar.lastError}</Text>
+                  ) : (
+                    <Text style={styles.calendarMeta} numberOfLines={1}>
+                      {calendar.lastFetchedAt ? `Updated ${getRelativeTime(calendar.lastFetchedAt).toLowerCase()}` : calendar.url}
+                    </Text>
+                  )}
+                </View>
+                {renderRemove(calendar.id, () => unsubscribe({ id: calendar.id }))}
+              </View>
+            ))
+          )}
+        </>
+      )}
+
+      <Text style={styles.sectionTitle}>Imported files</Text>
+      <Text style={styles.hint}>Imported files stay on this device and do not update. Subscribe to a URL to keep a calendar current.</Text>
+      {imported.map((calendar) => (
+        <View key={calendar.id} style={styles.calendarCard}>
+          <View style={[styles.colorDot, { backgroundColor: calendar.color }]} />
+          <View style={styles.calendarInfo}>
+            <Text style={styles.calendarName}>{calendar.name}</Text>
+            <Text style={styles.calendarMeta}>
+              {calendar.events.length} {calendar.events.length === 1 ? 'event' : 'events'} · imported {getRelativeTime(calendar.importedAt).toLowerCase()}
+            </Text>
+          </View>
+          {renderRemove(calendar.id, () => removeImportedCalendar(calendar.id))}
+        </View>
+      ))}
+      <TouchableOpacity style={styles.linkRow} onPress={handleImport}>
+        <FileUp size={18} color={Colors.textSecondary} />
+        <Text style={styles.linkText}>Import .ics file</Text>
+        <ChevronRight size={18} color={Colors.textMuted} />
+      </TouchableOpacity>
+
+      <Text style={styles.sectionTitle}>Share your deadlines</Text>
+      <TouchableOpacity style={styles.linkRow} onPress={() => router.push('/calendar-feed')}>
+        <Rss size={18} color={Colors.textSecondary} />
+        <Text style={styles.linkText}>Calendar feed of due dates</Text>
+        <ChevronRight size={18} color={Colors.textMuted} />
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  intro: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  error: {
+    fontSize: 14,
+    color: Colors.error,
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  hint: {
+    fontSize: 12,
+    color: Colors.textMuted,
+    marginBottom: 12,
+  },
+  createRow: {
+    flexDirection: 'row',
+    gap: 10,
+    marginBottom: 16,
+  },
+  input: {
+    flex: 1,
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 15,
+    color: Colors.text,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  createButton: {
+    width: 50,
+    backgroundColor: Colors.highlight,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  createDisabled: {
+    opacity: 0.5,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: Colors.textMuted,
+    marginBottom: 16,
+  },
+  calendarCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 10,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  colorDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+  },
+  calendarInfo: {
+    flex: 1,
+  },
+  calendarName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  calendarMeta: {
+    fontSize: 12,
+    color: Colors.textMuted,
+    marginTop: 2,
+  },
+  calendarError: {
+    fontSize: 12,
+    color: Colors.error,
+    marginTop: 2,
+  },
+  confirmRow: {
+    flexDirection: 'row',
+    gap: 14,
+  },
+  cancelText: {
+    fontSize: 14,
+    color: Colors.textMuted,
+  },
+  removeText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.error,
+  },
+  linkRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    marginBottom: 12,
+  },
+  linkText: {
+    flex: 1,
+    fontSize: 16,
+    color: Colors.text,
+  },
+});
@@ -0,0 +1,199 @@
+import React, { useCallback } from 'react';
+import { View, StyleSheet, Text, TouchableOpacity, FlatList, Platform } from 'react-native';
+import { Check, GitMerge, Smartphone, Cloud } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { useTasks } from '@/contexts/TaskContext';
+import EmptyState from '@/components/EmptyState';
+import Colors from '@/constants/colors';
+import type { SyncConflict } from '@/lib/sync';
+import { getRelativeTime } from '@/utils/helpers';
+
+const ENTITY_LABELS: Record<SyncConflict['entity'], string> = {
+  tasks: 'Task',
+  projects: 'Project',
+  areas: 'Area',
+  goals: 'Goal',
+  contexts: 'Context',
+  contextSets: 'Context set',
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '(empty)';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '(empty)';
+  return String(value);
+};
+
+const formatField = (field: string): string =>
+  field.replace(/([A-Z])/g, ' $1').replace(/^./, c => c.toUpperCase());
+
+export default function ConflictsScreen() {
+  const {
+    tasks, projects, areas, goals, contexts, contextSets, conflicts, resolveConflict,
+    updateTask, updateProject, updateArea, updateGoal, updateContext, updateContextSet,
+  } = useTasks();
+
+  const getRecordTitle = useCallback((conflict: SyncConflict) => {
+    if (conflict.entity === 'contexts') {
+      const context = contexts.find(c => c.id === conflict.recordId);
+      return context ? `@${context.name}` : 'Deleted item';
+    }
+    if (conflict.entity === 'contextSets') {
+      return contextSets.find(c => c.id === conflict.recordId)?.name ?? 'Deleted item';
+    }
+    const collection: { id: string; title: string }[] =
+      conflict.entity === 'tasks' ? tasks
+        : conflict.entity === 'projects' ? projects
+          : conflict.entity === 'areas' ? areas
+            : goals;
+    return collection.find(r => r.id === conflict.recordId)?.title ?? 'Deleted item';
+  }, [tasks, projects, areas, goals, contexts, contextSets]);
+
+  const handleKeep = useCallback((conflict: SyncConflict, side: 'local' | 'remote') => {
+    if (Platform.OS !== 'web') {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+    // The winner by timestamp is already stored; picking the other side is a
+    // normal edit that syncs like any other.
+    if (side !== conflict.resolvedTo) {
+      const value = side === 'local' ? conflict.localValue : conflict.remoteValue;
+      const updates = { [conflict.field]: value };
+      if (conflict.entity === 'tasks') updateTask(conflict.recordId, updates);
+      else if (conflict.entity === 'projects') updateProject(conflict.recordId, updates);
+      else if (conflict.entity === 'areas') updateArea(conflict.recordId, updates);
+      else if (conflict.entity === 'goals') updateGoal(conflict.recordId, updates);
+      else if (conflict.entity === 'contexts') updateContext(conflict.recordId, updates);
+      else if (conflict.entity === 'contextSets') updateContextSet(conflict.recordId, updates);
+    }
+    resolveConflict(conflict.id);
+  }, [updateTask, updateProject, updateArea, updateGoal, updateContext, updateContextSet, resolveConflict]);
+
+  const renderOption = (conflict: SyncConflict, side: 'local' | 'remote') => {
+    const isKept = conflict.resolvedTo === side;
+    const Icon = side === 'local' ? Smartphone : Cloud;
+    return (
+      <TouchableOpacity
+        style={[styles.option, isKept && styles.optionKept]}
+        onPress={() => handleKeep(conflict, side)}
+        activeOpacity={0.7}
+      >
+        <View style={styles.optionHeader}>
+          <Icon size={14} color={isKept ? Colors.success : Colors.textMuted} />
+          <Text style={[styles.optionLabel, isKept && styles.optionLabelKept]}>
+            {side === 'local' ? 'This device' : 'Other device'}
+          </Text>
+          {isKept && <Check size={14} color={Colors.success} />}
+        </View>
+        <Text style={styles.optionValue} numberOfLines={3}>
+          {formatValue(side === 'local' ? conflict.localValue : conflict.remoteValue)}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderConflict = ({ item }: { item: SyncConflict }) => (
+    <View style={styles.card}>
+      <Text style={styles.cardTitle} numberOfLines={2}>{getRecordTitle(item)}</Text>
+      <Text style={styles.cardMeta}>
+        {ENTITY_LABELS[item.entity]} · {formatField(item.field)} · {getRelativeTime(item.detectedAt)}
+      </Text>
+      <View style={styles.options}>
+        {renderOption(item, 'local')}
+        {renderOption(item, 'remote')}
+      </View>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={conflicts}
+        keyExtractor={(item) => item.id}
+        renderItem={renderConflict}
+        contentContainerStyle={styles.listContent}
+        ListHeaderComponent={conflicts.length > 0 ? (
+          <Text style={styles.intro}>
+            These fields were changed on two devices at once. The most recent edit was kept; tap a value to keep it instead.
+          </Text>
+        ) : null}
+        ListEmptyComponent={
+          <EmptyState
+            icon={GitMerge}
+            title="No Conflicts"
+            description="Edits from all your devices merged cleanly"
+            color={Colors.success}
+          />
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  listContent: {
+    padding: 20,
+    flexGrow: 1,
+  },
+  intro: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  card: {
+    backgroundColor: Colors.surface,
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+    marginBottom: 4,
+  },
+  cardMeta: {
+    fontSize: 12,
+    color: Colors.textMuted,
+    marginBottom: 12,
+  },
+  options: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  option: {
+    flex: 1,
+    backgroundColor: Colors.surfaceLight,
+    borderRadius: 12,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  optionKept: {
+    borderColor: Colors.success,
+  },
+  optionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 6,
+  },
+  optionLabel: {
+    flex: 1,
+    fontSize: 12,
+    fontWeight: '600',
+    color: Colors.textMuted,
+  },
+  optionLabelKept: {
+    color: Colors.success,
+  },
+  optionValue: {
+    fontSize: 14,
+    color: Colors.text,
+  },
+});
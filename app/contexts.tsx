@@ -0,0 +1,220 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { View, StyleSheet, Text, TouchableOpacity, ScrollView } from 'react-native';
+import { Plus, ChevronRight, Layers } from 'lucide-react-native';
+import { useTasks } from '@/contexts/TaskContext';
+import ContextEditorSheet from '@/components/ContextEditorSheet';
+import ContextIcon from '@/components/ContextIcon';
+import ContextSetSheet from '@/components/ContextSetSheet';
+import Colors from '@/constants/colors';
+import { Context, ContextSet } from '@/types/task';
+import { activeContexts, contextLabel } from '@/utils/contexts';
+
+export default function ContextsScreen() {
+  const {
+    tasks, contexts, contextSets, addContext, updateContext, archiveContext, mergeContexts,
+    addContextSet, updateContextSet, deleteContextSet,
+  } = useTasks();
+  const [editing, setEditing] = useState<Context | null>(null);
+  const [showEditor, setShowEditor] = useState(false);
+  const [editingSet, setEditingSet] = useState<ContextSet | null>(null);
+  const [showSetEditor, setShowSetEditor] = useState(false);
+
+  const active = useMemo(() => activeContexts(contexts), [contexts]);
+  const sets = useMemo(() => [...contextSets].sort((a, b) => a.name.localeCompare(b.name)), [contextSets]);
+  const archived = useMemo(() => contexts.filter(c => c.archivedAt).sort((a, b) => a.name.localeCompare(b.name)), [contexts]);
+
+  const openCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    tasks.filter(t => t.status !== 'done').forEach(t => t.contexts?.forEach(id => counts.set(id, (counts.get(id) ?? 0) + 1)));
+    return counts;
+  }, [tasks]);
+
+  const openEditor = useCallback((context: Context | null) => {
+    setEditing(context);
+    setShowEditor(true);
+  }, []);
+
+  const handleSave = useCallback((values: Pick<Context, 'name' | 'icon' | 'color'>) => {
+    if (editing) updateContext(editing.id, values);
+    else addContext(values);
+  }, [editing, addContext, updateContext]);
+
+  const openSetEditor = useCallback((set: ContextSet | null) => {
+    setEditingSet(set);
+    setShowSetEditor(true);
+  }, []);
+
+  const handleSaveSet = useCallback((values: Pick<ContextSet, 'name' | 'contextIds'>) => {
+    if (editingSet) updateContextSet(editingSet.id, values);
+    else addContextSet(values);
+  }, [editingSet, addContextSet, updateContextSet]);
+
+  const renderRow = (context: Context) => {
+    const count = openCounts.get(context.id) ?? 0;
+    return (
+      <TouchableOpacity key={context.id} style={styles.row} onPress={() => openEditor(context)} activeOpacity={0.7}>
+        <View style={[styles.icon, { backgroundColor: `${context.color}20` }]}>
+          <ContextIcon name={context.icon} color={context.archivedAt ? Colors.textMuted : context.color} />
+        </View>
+        <Text style={[styles.name, context.archivedAt && styles.nameArchived]}>@{context.name}</Text>
+        <Text style={styles.count}>{count > 0 ? `${count} open` : ''}</Text>
+        <ChevronRight size={16} color={Colors.textMuted} />
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={styles.intro}>
+          Contexts are where you can do a next action or what it needs. Type @name in quick-add to use one.
+        </Text>
+
+        <View style={styles.card}>{active.map(renderRow)}</View>
+
+        <TouchableOpacity style={styles.addButton} onPress={() => openEditor(null)}>
+          <Plus size={16} color={Colors.text} />
+          <Text style={styles.addText}>New Context</Text>
+        </TouchableOpacity>
+
+        <Text style={styles.sectionTitle}>Sets</Text>
+        <Text style={styles.sectionHint}>A set filters Next Actions by several contexts at once, like @work, @computer and @phone when you are at the office.</Text>
+        {sets.length > 0 && (
+          <View style={styles.card}>
+            {sets.map((set) => (
+              <TouchableOpacity key={set.id} style={styles.row} onPress={() => openSetEditor(set)} activeOpacity={0.7}>
+                <View style={[styles.icon, { backgroundColor: Colors.surfaceLight }]}>
+                  <Layers size={16} color={Colors.text} />
+                </View>
+                <View style={styles.setText}>
+                  <Text style={styles.name}>{set.name}</Text>
+                  <Text style={styles.setContexts} numberOfLines={1}>
+                    {set.contextIds.map(id => contextLabel(id, contexts)).join(' ')}
+                  </Text>
+                </View>
+                <ChevronRight size={16} color={Colors.textMuted} />
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+        <TouchableOpacity style={styles.addButton} onPress={() => openSetEditor(null)}>
+          <Plus size={16} color={Colors.text} />
+          <Text style={styles.addText}>New Set</Text>
+        </TouchableOpacity>
+
+        {archived.length > 0 && (
+          <>
+            <Text style={styles.sectionTitle}>Archived</Text>
+            <Text style={styles.sectionHint}>Tasks keep archived contexts, but they are left out of quick-add, pickers and filters.</Text>
+            <View style={styles.card}>{archived.map(renderRow)}</View>
+          </>
+        )}
+      </ScrollView>
+
+      <ContextEditorSheet
+        visible={showEditor}
+        context={editing}
+        contexts={contexts}
+        taskCount={editing ? tasks.filter(t => t.contexts?.includes(editing.id)).length : 0}
+        onClose={() => setShowEditor(false)}
+        onSave={handleSave}
+        onArchive={(isArchived) => editing && archiveContext(editing.id, isArchived)}
+        onMerge={(intoId) => editing && mergeContexts(editing.id, intoId)}
+      />
+
+      <ContextSetSheet
+        visible={showSetEditor}
+        set={editingSet}
+        contexts={contexts}
+        onClose={() => setShowSetEditor(false)}
+        onSave={handleSaveSet}
+        onDelete={() => editingSet && deleteContextSet(editingSet.id)}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    padding: 20,
+  },
+  intro: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  card: {
+    backgroundColor: Colors.surface,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    paddingHorizontal: 16,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    gap: 12,
+  },
+  icon: {
+    width: 32,
+    height: 32,
+    borderRadius: 8,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  name: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '500',
+    color: Colors.text,
+  },
+  setText: {
+    flex: 1,
+  },
+  setContexts: {
+    fontSize: 13,
+    color: Colors.textMuted,
+    marginTop: 2,
+  },
+  nameArchived: {
+    color: Colors.textMuted,
+  },
+  count: {
+    fontSize: 13,
+    color: Colors.textMuted,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 6,
+    marginTop: 12,
+    paddingVertical: 8,
+  },
+  addText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: Colors.textSecondary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginTop: 24,
+    marginBottom: 4,
+  },
+  sectionHint: {
+    fontSize: 13,
+    color: Colors.textMuted,
+    lineHeight: 18,
+    marginBottom: 12,
+  },
+});
@@ -0,0 +1,417 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, Text, TouchableOpacity, ScrollView, Platform } from 'react-native';
+import { Download, Upload, Terminal, FileText, Archive, AlertTriangle, LucideIcon } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { useTasks } from '@/contexts/TaskContext';
+import { useCalendars } from '@/contexts/CalendarContext';
+import ImportReportCard from '@/components/ImportReportCard';
+import Colors from '@/constants/colors';
+import type { Backup, RestoreMode, RestoreSummary } from '@/types/backup';
+import type { ImportResult } from '@/types/import';
+import { Context, Project, Task } from '@/types/task';
+import { createBackup, readBackup } from '@/utils/backup';
+import { pickTextFile, shareTextFile } from '@/utils/files';
+import { exportTaskwarrior, importTaskwarrior } from '@/utils/taskwarrior';
+import { exportTodoTxt, importTodoTxt } from '@/utils/todotxt';
+
+interface DataFormat {
+  key: string;
+  title: string;
+  description: string;
+  icon: LucideIcon;
+  /** File types offered by the picker. */
+  accept: string[];
+  mimeType: string;
+  extension: string;
+  parse: (text: string, existing: { tasks: Task[]; projects: Project[]; contexts: Context[] }) => ImportResult;
+  serialize: (tasks: Task[], projects: Project[], contexts: Context[]) => string;
+}
+
+const FORMATS: DataFormat[] = [
+  {
+    key: 'taskwarrior',
+    title: 'Taskwarrior',
+    description: 'JSON from `task export`. Re-importing the same file updates tasks instead of duplicating them.',
+    icon: Terminal,
+    accept: ['application/json', 'text/plain'],
+    mimeType: 'application/json',
+    extension: 'json',
+    parse: importTaskwarrior,
+    serialize: exportTaskwarrior,
+  },
+  {
+    key: 'todotxt',
+    title: 'todo.txt',
+    description: 'One task per line with (A) priorities, +projects, @contexts and key:value extras. todo.txt has no ids, so importing a file again adds its tasks again.',
+    icon: FileText,
+    accept: ['text/plain'],
+    mimeType: 'text/plain',
+    extension: 'txt',
+    parse: importTodoTxt,
+    serialize: exportTodoTxt,
+  },
+];
+
+interface PendingRestore {
+  fileName: string;
+  backup: Backup;
+  /** Set once restored. */
+  summary?: RestoreSummary;
+}
+
+interface PendingImport {
+  format: DataFormat;
+  fileName: string;
+  result: ImportResult;
+  applied: boolean;
+}
+
+export default function DataScreen() {
+  const { projects, areas, goals, contexts, trash, importRecords, restoreBackup, loadAllTasks, quarantined, discardQuarantine } = useTasks();
+  const { imported: calendars, restoreCalendars } = useCalendars();
+  const [pending, setPending] = useState<PendingImport | null>(null);
+  const [pendingRestore, setPendingRestore] = useState<PendingRestore | null>(null);
+  const [confirmingReplace, setConfirmingReplace] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleBackup = async () => {
+    setError(null);
+    try {
+      const date = new Date().toISOString().split('T')[0];
+      const backup = createBackup({ tasks: await loadAllTasks(), projects: [...projects, ...trash.projects], areas, goals, contexts, calendars });
+      await shareTextFile(`taskflow-backup-${date}.json`, backup, 'application/json');
+    } catch (e) {
+      console.error('[Data] Backup failed:', e);
+      setError(e instanceof Error ? e.message : 'Could not create the backup');
+    }
+  };
+
+  const handlePickBackup = async () => {
+    setError(null);
+    try {
+      const file = await pickTextFile(['application/json', 'text/plain']);
+      if (!file) return;
+      setPendingRestore({ fileName: file.name, backup: readBackup(file.text) });
+      setConfirmingReplace(false);
+    } catch (e) {
+      console.error('[Data] Restore failed:', e);
+      setError(e instanceof Error ? e.message : 'Could not read this file');
+    }
+  };
+
+  const handleRestore = async (mode: RestoreMode) => {
+    if (!pendingRestore) return;
+    if (mode === 'replace' && !confirmingReplace) {
+      setConfirmingReplace(true);
+      return;
+    }
+    setError(null);
+    try {
+      const { calendars: restoredCalendars, ...records } = pendingRestore.backup.data;
+      const summary = await restoreBackup(records, mode);
+      const calendarSummary = restoreCalendars(restoredCalendars, mode);
+      if (Platform.OS !== 'web') {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      }
+      setPendingRestore({
+        ...pendingRestore,
+        summary: {
+          added: summary.added + calendarSummary.added,
+          replaced: summary.replaced + calendarSummary.replaced,
+          removed: summary.removed + calendarSummary.removed,
+        },
+      });
+    } catch (e) {
+      console.error('[Data] Restore failed:', e);
+      setError(e instanceof Error ? e.message : 'Could not restore the backup');
+    }
+  };
+
+  const handleSaveQuarantine = async () => {
+    setError(null);
+    try {
+      const date = new Date().toISOString().split('T')[0];
+      await shareTextFile(`taskflow-unreadable-${date}.json`, JSON.stringify(quarantined, null, 2), 'application/json');
+    } catch (e) {
+      console.error('[Data] Saving unreadable records failed:', e);
+      setError(e instanceof Error ? e.message : 'Could not save the records');
+    }
+  };
+
+  const handlePick = async (format: DataFormat) => {
+    setError(null);
+    try {
+      const file = await pickTextFile(format.accept);
+      if (!file) return;
+      const result = format.parse(file.text, { tasks: await loadAllTasks(), projects, contexts });
+      setPending({ format, fileName: file.name, result, applied: false });
+    } catch (e) {
+      console.error('[Data] Import failed:', e);
+      setError(e instanceof Error ? e.message : 'Could not read this file');
+    }
+  };
+
+  const handleConfirm = () => {
+    if (!pending) return;
+    importRecords(pending.result);
+    if (Platform.OS !== 'web') {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    }
+    setPending({ ...pending, applied: true });
+  };
+
+  const handleExport = async (format: DataFormat) => {
+    setError(null);
+    try {
+      const date = new Date().toISOString().split('T')[0];
+      await shareTextFile(`taskflow-${format.key}-${date}.${format.extension}`, format.serialize((await loadAllTasks()).filter(t => !t.trashedAt), projects, contexts), format.mimeType);
+    } catch (e) {
+      console.error('[Data] Export failed:', e);
+      setError(e instanceof Error ? e.message : 'Could not export');
+    }
+  };
+
+  const changeCount = pending
+    ? pending.result.tasks.length + pending.result.removedTaskIds.length
+    : 0;
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      {error && <Text style={styles.error}>{error}</Text>}
+
+      {quarantined.length > 0 && (
+        <View style={[styles.formatCard, styles.warningCard]}>
+          <View style={styles.formatHeader}>
+            <AlertTriangle size={20} color={Colors.warning} />
+            <Text style={styles.formatTitle}>
+              {quarantined.length} {quarantined.length === 1 ? 'record' : 'records'} could not be read
+            </Text>
+          </View>
+          <Text style={styles.formatDescription}>
+            They were set aside when the app started so everything else could load. Save a copy if you want to recover them by hand, then discard them.
+          </Text>
+          <View style={styles.buttonRow}>
+            <TouchableOpacity style={[styles.secondaryButton, styles.flex]} onPress={handleSaveQuarantine}>
+              <Download size={16} color={Colors.text} />
+              <Text style={styles.secondaryText}>Save a copy</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.secondaryButton, styles.flex]} onPress={() => discardQuarantine()}>
+              <Text style={styles.secondaryText}>Discard</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      )}
+
+      <View style={styles.formatCard}>
+        <View style={styles.formatHeader}>
+          <Archive size={20} color={Colors.highlight} />
+          <Text style={styles.formatTitle}>Backup</Text>
+        </View>
+        <Text style={styles.formatDescription}>
+          Everything on this device in one file: tasks, projects, areas, goals and imported calendars. Keep it somewhere safe before reinstalling or clearing browser data.
+        </Text>
+        {pendingRestore ? (
+          <View style={styles.restoreCard}>
+            <Text style={styles.pendingTitle}>
+              {pendingRestore.summary ? 'Restored' : 'Ready to restore'} {pendingRestore.fileName}
+            </Text>
+            {pendingRestore.summary ? (
+              <>
+                <Text style={styles.formatDescription}>
+                  {pendingRestore.summary.added} added · {pendingRestore.summary.replaced} replaced · {pendingRestore.summary.removed} removed
+                </Text>
+                <TouchableOpacity style={styles.secondaryButton} onPress={() => setPendingRestore(null)}>
+                  <Text style={styles.secondaryText}>Done</Text>
+                </TouchableOpacity>
+              </>
+            ) : (
+              <>
+                <Text style={styles.formatDescription}>
+                  Made {new Date(pendingRestore.backup.exportedAt).toLocaleString()} with {pendingRestore.backup.data.tasks.length} tasks, {pendingRestore.backup.data.projects.length} projects, {pendingRestore.backup.data.areas.length} areas, {pendingRestore.backup.data.goals.length} goals and {pendingRestore.backup.data.calendars.length} calendars.
+                </Text>
+                <Text style={styles.restoreHint}>
+                  {confirmingReplace
+                    ? 'Replace deletes everything here that is not in the backup, on every synced device. Tap Replace again to continue.'
+                    : 'Merge adds what is missing and keeps your current version of anything in both. Replace makes this device match the backup.'}
+                </Text>
+                <View style={styles.buttonRow}>
+                  <TouchableOpacity style={[styles.secondaryButton, styles.flex]} onPress={() => setPendingRestore(null)}>
+                    <Text style={styles.secondaryText}>Cancel</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity style={[styles.secondaryButton, styles.flex]} onPress={() => handleRestore('merge')}>
+                    <Text style={styles.secondaryText}>Merge</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity style={[styles.primaryButton, styles.flex]} onPress={() => handleRestore('replace')}>
+                    <Text style={styles.primaryText}>Replace</Text>
+                  </TouchableOpacity>
+                </View>
+              </>
+            )}
+          </View>
+        ) : (
+          <View style={styles.buttonRow}>
+            <TouchableOpacity style={[styles.secondaryButton, styles.flex]} onPress={handlePickBackup}>
+              <Upload size={16} color={Colors.text} />
+              <Text style={styles.secondaryText}>Restore</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.secondaryButton, styles.flex]} onPress={handleBackup}>
+              <Download size={16} color={Colors.text} />
+              <Text style={styles.secondaryText}>Back up</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </View>
+
+      {pending && (
+        <View style={styles.pending}>
+          <Text style={styles.pendingTitle}>
+            {pending.applied ? 'Imported' : 'Ready to import'} {pending.fileName}
+          </Text>
+          <ImportReportCard report={pending.result.report} applied={pending.applied} />
+          {pending.applied ? (
+            <TouchableOpacity style={styles.secondaryButton} onPress={() => setPending(null)}>
+              <Text style={styles.secondaryText}>Done</Text>
+            </TouchableOpacity>
+          ) : (
+            <View style={styles.buttonRow}>
+              <TouchableOpacity style={[styles.secondaryButton, styles.flex]} onPress={() => setPending(null)}>
+                <Text style={styles.secondaryText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.primaryButton, styles.flex, changeCount === 0 && styles.disabled]}
+                onPress={handleConfirm}
+                disabled={changeCount === 0}
+              >
+                <Text style={styles.primaryText}>Import</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
+      )}
+
+      {FORMATS.map((format) => {
+        const Icon = format.icon;
+        return (
+          <View key={format.key} style={styles.formatCard}>
+            <View style={styles.formatHeader}>
+              <Icon size={20} color={Colors.highlight} />
+              <Text style={styles.formatTitle}>{format.title}</Text>
+            </View>
+            <Text style={styles.formatDescription}>{format.description}</Text>
+            <View style={styles.buttonRow}>
+              <TouchableOpacity style={[styles.secondaryButton, styles.flex]} onPress={() => handlePick(format)}>
+                <Upload size={16} color={Colors.text} />
+                <Text style={styles.secondaryText}>Import</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={[styles.secondaryButton, styles.flex]} onPress={() => handleExport(format)}>
+                <Download size={16} color={Colors.text} />
+                <Text style={styles.secondaryText}>Export</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        );
+      })}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  error: {
+    fontSize: 14,
+    color: Colors.error,
+    marginBottom: 16,
+  },
+  pending: {
+    marginBottom: 24,
+  },
+  pendingTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+    marginBottom: 12,
+  },
+  formatCard: {
+    backgroundColor: Colors.surface,
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  formatHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginBottom: 6,
+  },
+  formatTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  formatDescription: {
+    fontSize: 13,
+    color: Colors.textSecondary,
+    lineHeight: 18,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 10,
+  },
+  flex: {
+    flex: 1,
+  },
+  primaryButton: {
+    backgroundColor: Colors.highlight,
+    borderRadius: 12,
+    padding: 14,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  primaryText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: Colors.surfaceLight,
+    borderRadius: 12,
+    padding: 14,
+    marginTop: 12,
+  },
+  secondaryText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  warningCard: {
+    borderColor: Colors.warning,
+  },
+  restoreCard: {
+    marginTop: 14,
+    paddingTop: 14,
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+  },
+  restoreHint: {
+    fontSize: 12,
+    color: Colors.textMuted,
+    lineHeight: 17,
+    marginTop: 10,
+  },
+});
@@ -0,0 +1,244 @@
+import React, { useMemo } from 'react';
+import { View, StyleSheet, Text, TouchableOpacity, ScrollView } from 'react-native';
+import { router } from 'expo-router';
+import { Target, ChevronRight, CornerDownRight, Unlink } from 'lucide-react-native';
+import { useTasks } from '@/contexts/TaskContext';
+import AreaIcon from '@/components/AreaIcon';
+import Colors from '@/constants/colors';
+import { GOAL_HORIZONS, Project } from '@/types/task';
+
+/**
+ * The Horizons of Focus top-down: vision and goals, the areas they sit in,
+ * the projects serving them and each project's next action. Projects that
+ * serve no goal are listed at the bottom; a project's page shows the goals
+ * it serves, for going back up.
+ */
+export default function HorizonsScreen() {
+  const { projects, goals, areas, dependencies, getTasksByProject, getProjectsByGoal, getProjectProgress, getGoalProgress } = useTasks();
+
+  const unaligned = useMemo(() => {
+    const goalIds = new Set(goals.map(g => g.id));
+    return projects.filter(p => p.status !== 'completed' && !p.goalIds?.some(id => goalIds.has(id)));
+  }, [projects, goals]);
+
+  const nextActionOf = (project: Project) =>
+    getTasksByProject(project.id).find(t => t.status === 'next' && !dependencies.blockedBy.has(t.id));
+
+  const renderProject = (project: Project) => {
+    const nextAction = nextActionOf(project);
+    const done = project.status === 'completed';
+    return (
+      <TouchableOpacity key={project.id} style={styles.project} onPress={() => router.push(`/projects/${project.id}`)} activeOpacity={0.7}>
+        <View style={styles.projectRow}>
+          <View style={[styles.dot, { backgroundColor: project.color }]} />
+          <Text style={[styles.projectTitle, done && styles.projectDone]} numberOfLines={1}>{project.title}</Text>
+          <Text style={styles.meta}>{getProjectProgress(project.id)}%</Text>
+          <ChevronRight size={14} color={Colors.textMuted} />
+        </View>
+        {!done && (
+          <View style={styles.actionRow}>
+            <CornerDownRight size={12} color={Colors.textMuted} />
+            <Text style={[styles.action, !nextAction && styles.actionMissing]} numberOfLines={1}>
+              {nextAction ? nextAction.title : project.status === 'on-hold' ? 'On hold' : 'No next action'}
+            </Text>
+          </View>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      <Text style={styles.intro}>
+        From your vision down to what to do next. Open a project to see or change the goals it serves.
+      </Text>
+
+      {goals.length === 0 && (
+        <Text style={styles.empty}>No goals yet. Add them on the Projects tab, then link projects to them.</Text>
+      )}
+
+      {GOAL_HORIZONS.map(({ value, label }) => {
+        const horizonGoals = goals.filter(g => g.horizon === value);
+        if (horizonGoals.length === 0) return null;
+        return (
+          <View key={value}>
+            <Text style={styles.sectionTitle}>{label}</Text>
+            {horizonGoals.map((goal) => {
+              const area = areas.find(a => a.id === goal.areaId);
+              const supporting = getProjectsByGoal(goal.id);
+              const progress = getGoalProgress(goal.id);
+              return (
+                <View key={goal.id} style={styles.card}>
+                  <TouchableOpacity style={styles.goalRow} onPress={() => router.push(`/projects/goals/${goal.id}`)}>
+                    <Target size={16} color={Colors.project} />
+                    <Text style={styles.goalTitle}>{goal.title}</Text>
+                    {progress && <Text style={styles.meta}>{progress.value}%</Text>}
+                    <ChevronRight size={14} color={Colors.textMuted} />
+                  </TouchableOpacity>
+                  {area && (
+                    <TouchableOpacity style={styles.areaRow} onPress={() => router.push('/areas')}>
+                      <AreaIcon name={area.icon} size={12} color={Colors.textMuted} />
+                      <Text style={styles.meta}>{area.title}</Text>
+                    </TouchableOpacity>
+                  )}
+                  {supporting.length === 0
+                    ? <Text style={styles.none}>No projects serve this goal yet</Text>
+                    : supporting.map(renderProject)}
+                </View>
+              );
+            })}
+          </View>
+        );
+      })}
+
+      <View style={styles.unalignedHeader}>
+        <Unlink size={14} color={Colors.warning} />
+        <Text style={[styles.sectionTitle, styles.unalignedTitle]}>Unaligned projects</Text>
+      </View>
+      <Text style={styles.sectionHint}>
+        Open projects that serve no goal. Link each to what it is for, or ask whether it still belongs on your list.
+      </Text>
+      {unaligned.length === 0 ? (
+        <Text style={styles.none}>Every open project serves a goal.</Text>
+      ) : (
+        <View style={styles.card}>
+          {unaligned.map((project) => {
+            const area = areas.find(a => a.id === project.areaId);
+            return (
+              <View key={project.id}>
+                {renderProject(project)}
+                <Text style={styles.unalignedArea}>{area ? area.title : 'No area'}</Text>
+              </View>
+            );
+          })}
+        </View>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  intro: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    lineHeight: 20,
+    marginBottom: 8,
+  },
+  empty: {
+    fontSize: 14,
+    color: Colors.textMuted,
+    marginTop: 12,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: Colors.textSecondary,
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginTop: 20,
+    marginBottom: 8,
+  },
+  sectionHint: {
+    fontSize: 13,
+    color: Colors.textMuted,
+    lineHeight: 18,
+    marginBottom: 12,
+  },
+  card: {
+    backgroundColor: Colors.surface,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    padding: 16,
+    marginBottom: 12,
+  },
+  goalRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  goalTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  areaRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 4,
+    marginLeft: 26,
+  },
+  none: {
+    fontSize: 13,
+    color: Colors.textMuted,
+    marginTop: 8,
+  },
+  project: {
+    marginTop: 10,
+  },
+  projectRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  dot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  projectTitle: {
+    flex: 1,
+    fontSize: 15,
+    color: Colors.text,
+  },
+  projectDone: {
+    color: Colors.textMuted,
+    textDecorationLine: 'line-through',
+  },
+  meta: {
+    fontSize: 12,
+    color: Colors.textMuted,
+  },
+  actionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 4,
+    marginLeft: 18,
+  },
+  action: {
+    flex: 1,
+    fontSize: 13,
+    color: Colors.textSecondary,
+  },
+  actionMissing: {
+    color: Colors.warning,
+  },
+  unalignedHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 20,
+    marginBottom: 8,
+  },
+  unalignedTitle: {
+    marginTop: 0,
+    marginBottom: 0,
+  },
+  unalignedArea: {
+    fontSize: 12,
+    color: Colors.textMuted,
+    marginTop: 2,
+    marginLeft: 18,
+  },
+});
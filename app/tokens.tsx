@@ -0,0 +1,270 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, Text, TextInput, TouchableOpacity, ScrollView, ActivityIndicator, Share, Platform } from 'react-native';
+import { KeyRound, Plus, Share2, Trash2 } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { trpc, getBaseUrl } from '@/lib/trpc';
+import Colors from '@/constants/colors';
+import { getRelativeTime } from '@/utils/helpers';
+
+export default function TokensScreen() {
+  const utils = trpc.useUtils();
+  const tokensQuery = trpc.tokens.list.useQuery();
+  const [name, setName] = useState('');
+  const [newToken, setNewToken] = useState<string | null>(null);
+  const [confirmingId, setConfirmingId] = useState<string | null>(null);
+
+  const createToken = trpc.tokens.create.useMutation({
+    onSuccess: (result) => {
+      if (Platform.OS !== 'web') {
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      }
+      setNewToken(result.token);
+      setName('');
+      utils.tokens.list.invalidate();
+    },
+  });
+
+  const revokeToken = trpc.tokens.revoke.useMutation({
+    onSuccess: () => {
+      setConfirmingId(null);
+      utils.tokens.list.invalidate();
+    },
+  });
+
+  const handleCreate = () => {
+    if (!name.trim()) return;
+    createToken.mutate({ name: name.trim() });
+  };
+
+  const inboxUrl = `${getBaseUrl()}/api/v1/inbox`;
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+      <Text style={styles.intro}>
+        Personal access tokens let scripts and automations add and update tasks through the REST API. Treat them like passwords.
+      </Text>
+
+      <View style={styles.exampleCard}>
+        <Text style={styles.exampleLabel}>Capture to your inbox</Text>
+        <Text style={styles.exampleCode} selectable>
+          {`curl -X POST ${inboxUrl} \\\n  -H "Authorization: Bearer <token>" \\\n  -d "Call mom @phone due:tomorrow"`}
+        </Text>
+      </View>
+
+      {newToken && (
+        <View style={styles.newTokenCard}>
+          <Text style={styles.newTokenLabel}>Copy your new token now. It will not be shown again.</Text>
+          <Text style={styles.newTokenValue} selectable>{newToken}</Text>
+          <TouchableOpacity style={styles.shareButton} onPress={() => Share.share({ message: newToken })}>
+            <Share2 size={16} color={Colors.text} />
+            <Text style={styles.shareText}>Share</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      <Text style={styles.sectionTitle}>New Token</Text>
+      <View style={styles.createRow}>
+        <TextInput
+          style={styles.input}
+          value={name}
+          onChangeText={setName}
+          placeholder="What is it for? e.g. Raycast"
+          placeholderTextColor={Colors.textMuted}
+          onSubmitEditing={handleCreate}
+        />
+        <TouchableOpacity
+          style={[styles.createButton, !name.trim() && styles.createDisabled]}
+          onPress={handleCreate}
+          disabled={createToken.isPending}
+        >
+          {createToken.isPending ? <ActivityIndicator color={Colors.text} size="small" /> : <Plus size={20} color={Colors.text} />}
+        </TouchableOpacity>
+      </View>
+      {createToken.error && <Text style={styles.error}>{createToken.error.message}</Text>}
+
+      <Text style={styles.sectionTitle}>Active Tokens</Text>
+      {tokensQuery.isLoading ? (
+        <ActivityIndicator color={Colors.textMuted} />
+      ) : tokensQuery.error ? (
+        <Text style={styles.error}>{tokensQuery.error.message}</Text>
+      ) : tokensQuery.data?.length === 0 ? (
+        <Text style={styles.emptyText}>No tokens yet</Text>
+      ) : (
+        tokensQuery.data?.map((token) => (
+          <View key={token.id} style={styles.tokenCard}>
+            <KeyRound size={18} color={Colors.textMuted} />
+            <View style={styles.tokenInfo}>
+              <Text style={styles.tokenName}>{token.name}</Text>
+              <Text style={styles.tokenMeta}>
+                {token.prefix}… · created {getRelativeTime(token.createdAt).toLowerCase()}
+                {token.lastUsedAt ? ` · used ${getRelativeTime(token.lastUsedAt).toLowerCase()}` : ' · never used'}
+              </Text>
+            </View>
+            {confirmingId === token.id ? (
+              <View style={styles.confirmRow}>
+                <TouchableOpacity onPress={() => setConfirmingId(null)}>
+                  <Text style={styles.cancelText}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => revokeToken.mutate({ id: token.id })} disabled={revokeToken.isPending}>
+                  <Text style={styles.revokeText}>Revoke</Text>
+                </TouchableOpacity>
+              </View>
+            ) : (
+              <TouchableOpacity onPress={() => setConfirmingId(token.id)} hitSlop={8}>
+                <Trash2 size={18} color={Colors.textMuted} />
+              </TouchableOpacity>
+            )}
+          </View>
+        ))
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  intro: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  exampleCard: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 14,
+    borderWidth: 1,
+    borderColor: Colors.border,
+    marginBottom: 16,
+  },
+  exampleLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: Colors.textMuted,
+    marginBottom: 8,
+  },
+  exampleCode: {
+    fontSize: 12,
+    color: Colors.text,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+  },
+  newTokenCard: {
+    backgroundColor: `${Colors.success}15`,
+    borderRadius: 12,
+    padding: 14,
+    borderWidth: 1,
+    borderColor: Colors.success,
+    marginBottom: 16,
+  },
+  newTokenLabel: {
+    fontSize: 13,
+    color: Colors.success,
+    marginBottom: 8,
+  },
+  newTokenValue: {
+    fontSize: 13,
+    color: Colors.text,
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+    marginBottom: 12,
+  },
+  shareButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 6,
+    backgroundColor: Colors.surfaceLight,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  shareText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+    marginTop: 8,
+    marginBottom: 12,
+  },
+  createRow: {
+    flexDirection: 'row',
+    gap: 10,
+    marginBottom: 16,
+  },
+  input: {
+    flex: 1,
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 15,
+    color: Colors.text,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  createButton: {
+    width: 50,
+    backgroundColor: Colors.highlight,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  createDisabled: {
+    opacity: 0.5,
+  },
+  error: {
+    fontSize: 14,
+    color: Colors.error,
+    marginBottom: 16,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: Colors.textMuted,
+  },
+  tokenCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 10,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  tokenInfo: {
+    flex: 1,
+  },
+  tokenName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  tokenMeta: {
+    fontSize: 12,
+    color: Colors.textMuted,
+    marginTop: 2,
+  },
+  confirmRow: {
+    flexDirection: 'row',
+    gap: 14,
+  },
+  cancelText: {
+    fontSize: 14,
+    color: Colors.textMuted,
+  },
+  revokeText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.error,
+  },
+});
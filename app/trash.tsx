@@ -0,0 +1,176 @@
+import React, { useCallback, useEffect, useMemo } from 'react';
+import { View, StyleSheet, Text, TouchableOpacity, FlatList, Platform } from 'react-native';
+import { FolderOpen, RotateCcw, Trash2, X } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { useTasks } from '@/contexts/TaskContext';
+import EmptyState from '@/components/EmptyState';
+import Colors from '@/constants/colors';
+import { TRASH_RETENTION_DAYS } from '@/types/task';
+import { getRelativeTime } from '@/utils/helpers';
+
+interface TrashItem {
+  entity: 'tasks' | 'projects';
+  id: string;
+  title: string;
+  trashedAt: string;
+  color?: string;
+}
+
+const daysLeft = (trashedAt: string): number => {
+  const elapsed = (Date.now() - new Date(trashedAt).getTime()) / (24 * 60 * 60 * 1000);
+  return Math.max(0, Math.ceil(TRASH_RETENTION_DAYS - elapsed));
+};
+
+export default function TrashScreen() {
+  const { trash, restoreFromTrash, deleteForever, loadAllTasks } = useTasks();
+
+  // Old completed tasks are left on disk at startup and may be in the Trash.
+  useEffect(() => {
+    loadAllTasks();
+  }, [loadAllTasks]);
+
+  const items = useMemo(() => [
+    ...trash.projects.map((p): TrashItem => ({ entity: 'projects', id: p.id, title: p.title, trashedAt: p.trashedAt!, color: p.color })),
+    ...trash.tasks.map((t): TrashItem => ({ entity: 'tasks', id: t.id, title: t.title, trashedAt: t.trashedAt! })),
+  ].sort((a, b) => b.trashedAt.localeCompare(a.trashedAt)), [trash]);
+
+  const handleRestore = useCallback((item: TrashItem) => {
+    if (Platform.OS !== 'web') {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+    restoreFromTrash(item.entity, item.id);
+  }, [restoreFromTrash]);
+
+  const handleDelete = useCallback((item: TrashItem) => {
+    if (Platform.OS !== 'web') {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+    }
+    deleteForever([item], `Deleted "${item.title}" for good`);
+  }, [deleteForever]);
+
+  const handleEmpty = useCallback(() => {
+    if (Platform.OS !== 'web') {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+    }
+    deleteForever(items, 'Emptied the Trash');
+  }, [deleteForever, items]);
+
+  const renderItem = ({ item }: { item: TrashItem }) => {
+    const left = daysLeft(item.trashedAt);
+    return (
+      <View style={styles.card}>
+        <View style={styles.cardHeader}>
+          {item.entity === 'projects' && <FolderOpen size={16} color={item.color ?? Colors.project} />}
+          <Text style={styles.cardTitle} numberOfLines={2}>{item.title}</Text>
+        </View>
+        <Text style={styles.cardMeta}>
+          {item.entity === 'projects' ? 'Project' : 'Task'} · Deleted {getRelativeTime(item.trashedAt).toLowerCase()} · {left === 0 ? 'Purged soon' : `Purged in ${left} ${left === 1 ? 'day' : 'days'}`}
+        </Text>
+        <View style={styles.actions}>
+          <TouchableOpacity style={styles.action} onPress={() => handleRestore(item)} activeOpacity={0.7}>
+            <RotateCcw size={14} color={Colors.success} />
+            <Text style={[styles.actionText, { color: Colors.success }]}>Restore</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.action} onPress={() => handleDelete(item)} activeOpacity={0.7}>
+            <X size={14} color={Colors.highlight} />
+            <Text style={[styles.actionText, { color: Colors.highlight }]}>Delete forever</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={items}
+        keyExtractor={(item) => `${item.entity}:${item.id}`}
+        renderItem={renderItem}
+        contentContainerStyle={styles.listContent}
+        ListHeaderComponent={items.length > 0 ? (
+          <View style={styles.header}>
+            <Text style={styles.intro}>
+              Deleted tasks and projects stay here for {TRASH_RETENTION_DAYS} days, then are removed from all your devices.
+            </Text>
+            <TouchableOpacity style={styles.emptyButton} onPress={handleEmpty}>
+              <Trash2 size={14} color={Colors.highlight} />
+              <Text style={[styles.actionText, { color: Colors.highlight }]}>Empty Trash</Text>
+            </TouchableOpacity>
+          </View>
+        ) : null}
+        ListEmptyComponent={
+          <EmptyState
+            icon={Trash2}
+            title="Trash is Empty"
+            description={`Deleted tasks and projects can be restored here for ${TRASH_RETENTION_DAYS} days`}
+            color={Colors.textMuted}
+          />
+        }
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: Colors.background,
+  },
+  listContent: {
+    padding: 20,
+    flexGrow: 1,
+  },
+  header: {
+    marginBottom: 16,
+    gap: 12,
+  },
+  intro: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    lineHeight: 20,
+  },
+  emptyButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 6,
+  },
+  card: {
+    backgroundColor: Colors.surface,
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 4,
+  },
+  cardTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  cardMeta: {
+    fontSize: 12,
+    color: Colors.textMuted,
+    marginBottom: 12,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 20,
+  },
+  action: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,149 @@
+import { and, eq, gt } from "drizzle-orm";
+
+import { db } from "@/db";
+import { apiTokens, calendarFeeds, sessions, users } from "@/db/schema";
+
+export type User = Pick<typeof users.$inferSelect, "id" | "email" | "name">;
+
+/** Personal access tokens start with this, so they are easy to spot in scripts. */
+export const API_TOKEN_PREFIX = "tf_pat_";
+
+const SESSION_TTL_MS = 90 * 24 * 60 * 60 * 1000;
+const PBKDF2_ITERATIONS = 100_000;
+
+const encoder = new TextEncoder();
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+const fromBase64Url = (value: string) =>
+  Uint8Array.from(atob(value.replace(/-/g, "+").replace(/_/g, "/")), c => c.charCodeAt(0));
+
+const randomToken = (bytes = 32) => toBase64Url(crypto.getRandomValues(new Uint8Array(bytes)));
+
+async function pbkdf2(password: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey("raw", encoder.encode(password), "PBKDF2", false, ["deriveBits"]);
+  const bits = await crypto.subtle.deriveBits({ name: "PBKDF2", hash: "SHA-256", salt, iterations }, key, 256);
+  return new Uint8Array(bits);
+}
+
+/** Hashes a password as `pbkdf2$<iterations>$<salt>$<hash>`. */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const hash = await pbkdf2(password, salt, PBKDF2_ITERATIONS);
+  return `pbkdf2$${PBKDF2_ITERATIONS}$${toBase64Url(salt)}$${toBase64Url(hash)}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, iterations, salt, expected] = stored.split("$");
+  if (scheme !== "pbkdf2" || !salt || !expected) return false;
+  const actual = toBase64Url(await pbkdf2(password, fromBase64Url(salt), Number(iterations)));
+  // Compare the whole string so timing does not reveal the matching prefix.
+  let diff = actual.length ^ expected.length;
+  for (let i = 0; i < Math.min(actual.length, expected.length); i++) {
+    diff |= actual.charCodeAt(i) ^ expected.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/** Tokens are only ever stored hashed; see the sessions table. */
+export async function hashToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", encoder.encode(token));
+  return toBase64Url(new Uint8Array(digest));
+}
+
+/** Starts a session and returns the bearer token, which is shown only once. */
+export async function createSession(userId: string): Promise<{ token: string; expiresAt: string }> {
+  const token = randomToken();
+  const now = Date.now();
+  const expiresAt = new Date(now + SESSION_TTL_MS).toISOString();
+  await db.insert(sessions).values({
+    tokenHash: await hashToken(token),
+    userId,
+    createdAt: new Date(now).toISOString(),
+    expiresAt,
+  });
+  return { token, expiresAt };
+}
+
+export async function revokeSession(token: string) {
+  await db.delete(sessions).where(eq(sessions.tokenHash, await hashToken(token)));
+}
+
+/** Reads `Authorization: Bearer <token>` from a request. */
+export function getBearerToken(req: Request): string | null {
+  const header = req.headers.get("authorization");
+  const match = header?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+/** The user a bearer token belongs to, or null if it is unknown or expired. */
+export async function resolveSession(token: string): Promise<User | null> {
+  const [row] = await db
+    .select({ id: users.id, email: users.email, name: users.name })
+    .from(sessions)
+    .innerJoin(users, eq(users.id, sessions.userId))
+    .where(and(eq(sessions.tokenHash, await hashToken(token)), gt(sessions.expiresAt, new Date().toISOString())));
+  return row ?? null;
+}
+
+/**
+ * Creates a personal access token. The plain token is returned only here;
+ * afterwards the app can show its name and prefix but never the token.
+ */
+export async function createApiToken(userId: string, name: string) {
+  const token = `${API_TOKEN_PREFIX}${randomToken()}`;
+  const [row] = await db.insert(apiTokens).values({
+    id: crypto.randomUUID(),
+    userId,
+    name,
+    prefix: token.slice(0, API_TOKEN_PREFIX.length + 4),
+    tokenHash: await hashToken(token),
+    createdAt: new Date().toISOString(),
+  }).returning();
+  return { token, row };
+}
+
+/** The user a personal access token belongs to, or null if it was revoked. */
+export async function resolveApiToken(token: string): Promise<User | null> {
+  if (!token.startsWith(API_TOKEN_PREFIX)) return null;
+  const [row] = await db
+    .update(apiTokens)
+    .set({ lastUsedAt: new Date().toISOString() })
+    .where(eq(apiTokens.tokenHash, await hashToken(token)))
+    .returning({ userId: apiTokens.userId });
+  if (!row) return null;
+  const user = await db.query.users.findFirst({
+    columns: { id: true, email: true, name: true },
+    where: eq(users.id, row.userId),
+  });
+  return user ?? null;
+}
+
+/**
+ * Gives the user a new secret calendar feed token, replacing the old one so
+ * calendars still subscribed to the old URL stop receiving updates.
+ */
+export async function resetCalendarFeed(userId: string) {
+  const token = randomToken();
+  const values = { userId, tokenHash: await hashToken(token), createdAt: new Date().toISOString(), lastFetchedAt: null };
+  const [row] = await db.insert(calendarFeeds).values(values)
+    .onConflictDoUpdate({ target: calendarFeeds.userId, set: values })
+    .returning();
+  return { token, row };
+}
+
+/** The user a calendar feed token belongs to, or null if it was replaced. */
+export async function resolveCalendarFeed(token: string): Promise<User | null> {
+  const [row] = await db
+    .update(calendarFeeds)
+    .set({ lastFetchedAt: new Date().toISOString() })
+    .where(eq(calendarFeeds.tokenHash, await hashToken(token)))
+    .returning({ userId: calendarFeeds.userId });
+  if (!row) return null;
+  const user = await db.query.users.findFirst({
+    columns: { id: true, email: true, name: true },
+    where: eq(users.id, row.userId),
+  });
+  return user ?? null;
+}
@@ -0,0 +1,38 @@
+import { Hono } from "hono";
+
+import { exportIcs } from "@/utils/ics";
+import { resolveCalendarFeed } from "./auth";
+import { appRouter } from "./trpc/app-router";
+
+/**
+ * Read-only iCalendar feed of a user's deadlines, at
+ * `/api/calendar/<token>.ics`. Calendar apps cannot send headers, so the
+ * secret token in the URL is the credential; it is created and replaced from
+ * the app (see the calendarFeed router).
+ *
+ * `?type=todo` serves VTODOs instead of all-day events.
+ */
+const calendar = new Hono();
+
+calendar.get("/:file", async (c) => {
+  const token = c.req.param("file").replace(/\.ics$/, "");
+  const user = await resolveCalendarFeed(token);
+  if (!user) {
+    return c.text("This calendar feed was reset or removed", 404);
+  }
+
+  const caller = appRouter.createCaller({ req: c.req.raw, token: null, user });
+  const [tasks, projects, contexts] = await Promise.all([caller.tasks.list(), caller.projects.list(), caller.contexts.list()]);
+  const ics = exportIcs(tasks, projects, {
+    contexts,
+    kind: c.req.query("type") === "todo" ? "todo" : "event",
+    name: "TaskFlow deadlines",
+  });
+
+  return c.body(ics, 200, {
+    "Content-Type": "text/calendar; charset=utf-8",
+    "Cache-Control": "private, max-age=300",
+  });
+});
+
+export default calendar;
@@ -2,8 +2,10 @@ import { trpcServer } from "@hono/trpc-server";
 import { Hono } from "hono";
 import { cors } from "hono/cors";
 
+import calendar from "./calendar";
+import rest from "./rest";
 import { appRouter } from "./trpc/app-router";
-import { createContext } from "./trpc/create-context";
+import { createContext } from "./trpc/create-contexts";
 
 const app = new Hono();
 
@@ -18,6 +20,9 @@ app.use(
   }),
 );
 
+app.route("/v1", rest);
+app.route("/calendar", calendar);
+
 app.get("/", (c) => {
   return c.json({ status: "ok", message: "API is running" });
 });
@@ -0,0 +1,29 @@
+import { Hono } from "hono";
+
+import { isLocalDb, migrateLocalDb } from "@/db";
+import app from "./hono";
+
+/**
+ * Offline stand-in for the hosted API: serves the Hono app under /api (where
+ * the deployed app is mounted) on top of an embedded PGlite database.
+ *
+ *   bun run backend:local
+ *
+ * The Expo app talks to it through the default http://localhost:3000 base URL.
+ */
+if (!isLocalDb) {
+  throw new Error("backend/local.ts must run with DATABASE_DRIVER=pglite");
+}
+
+await migrateLocalDb();
+
+const server = new Hono();
+server.route("/api", app);
+
+const port = Number(process.env.PORT ?? 3000);
+console.log(`[local] API listening on http://localhost:${port}/api`);
+
+export default {
+  port,
+  fetch: server.fetch,
+};
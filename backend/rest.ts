@@ -0,0 +1,142 @@
+import { TRPCError, type inferRouterInputs } from "@trpc/server";
+import { getHTTPStatusCodeFromError } from "@trpc/server/http";
+import { Hono, type Context } from "hono";
+import type { ContentfulStatusCode } from "hono/utils/http-status";
+import * as z from "zod";
+
+import type { Task } from "@/types/task";
+import { resolveTaskReference } from "@/utils/dependencies";
+import { parseTaskInput } from "@/utils/helpers";
+import { getBearerToken, resolveApiToken, type User } from "./auth";
+import { appRouter } from "./trpc/app-router";
+
+/**
+ * Plain JSON API for shell scripts, launcher workflows and home automations
+ * that cannot speak tRPC+superjson. Requests authenticate with a personal
+ * access token (`Authorization: Bearer tf_pat_...`) created in the app.
+ *
+ * Handlers go through the tRPC procedures, so validation, per-user scoping
+ * and sync bookkeeping behave exactly as they do for the app.
+ */
+type Env = { Variables: { user: User; token: string } };
+
+// Bodies are passed through as-is and validated by the procedures.
+type Input = inferRouterInputs<typeof appRouter>;
+
+const rest = new Hono<Env>();
+
+const caller = (c: Context<Env>) =>
+  appRouter.createCaller({ req: c.req.raw, token: c.get("token"), user: c.get("user") });
+
+// JSON has no `undefined`; `null` is how REST clients clear a field.
+const nullsToUndefined = (body: Record<string, unknown>) =>
+  Object.fromEntries(Object.entries(body).map(([key, value]) => [key, value ?? undefined]));
+
+async function readJson(c: Context<Env>): Promise<Record<string, unknown>> {
+  const body = await c.req.json();
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "Expected a JSON object" });
+  }
+  return body;
+}
+
+rest.use("*", async (c, next) => {
+  const token = getBearerToken(c.req.raw);
+  const user = token ? await resolveApiToken(token) : null;
+  if (!token || !user) {
+    return c.json({ error: { code: "UNAUTHORIZED", message: "Send a personal access token as a Bearer token" } }, 401);
+  }
+  c.set("token", token);
+  c.set("user", user);
+  await next();
+});
+
+rest.get("/tasks", async (c) => {
+  const { status, projectId, trashed } = c.req.query();
+  const tasks = await caller(c).tasks.list({ status: status as Task["status"] | undefined, projectId, trashed: trashed === "true" });
+  return c.json(tasks);
+});
+
+rest.post("/tasks", async (c) => {
+  const task = await caller(c).tasks.create(nullsToUndefined(await readJson(c)) as Input["tasks"]["create"]);
+  return c.json(task, 201);
+});
+
+rest.get("/tasks/:id", async (c) => {
+  return c.json(await caller(c).tasks.get({ id: c.req.param("id") }));
+});
+
+rest.patch("/tasks/:id", async (c) => {
+  const updates = nullsToUndefined(await readJson(c));
+  return c.json(await caller(c).tasks.update({ id: c.req.param("id"), updates: updates as Input["tasks"]["update"]["updates"] }));
+});
+
+rest.delete("/tasks/:id", async (c) => {
+  await caller(c).tasks.delete({ id: c.req.param("id") });
+  return c.body(null, 204);
+});
+
+/**
+ * Quick capture. Takes the same syntax as the app's quick-add bar
+ * ("Call mom @phone due:tomorrow +family"), either as `{"text": "..."}` or
+ * as a text/plain body.
+ */
+rest.post("/inbox", async (c) => {
+  const isJson = c.req.header("content-type")?.includes("application/json");
+  const text = isJson ? (await readJson(c)).text : await c.req.text();
+  if (typeof text !== "string" || !text.trim()) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "Send the item as `text`" });
+  }
+
+  // Accounts that have not synced yet still have the built-in contexts.
+  const contexts = await caller(c).contexts.list();
+  const parsed = parseTaskInput(text.trim(), contexts.length > 0 ? contexts : undefined);
+  let projectId: string | undefined;
+  if (parsed.projectName) {
+    const name = parsed.projectName.toLowerCase();
+    const projects = await caller(c).projects.list();
+    projectId = projects.find(p =>
+      p.title.toLowerCase() === name || p.title.toLowerCase().replace(/\s+/g, "-") === name,
+    )?.id;
+  }
+
+  let dependsOn: string[] | undefined;
+  if (parsed.dependencies.length > 0) {
+    const tasks = await caller(c).tasks.list();
+    dependsOn = parsed.dependencies
+      .map(reference => resolveTaskReference(reference, tasks)?.id)
+      .filter((id): id is string => !!id);
+  }
+
+  const task = await caller(c).tasks.create({
+    title: parsed.title,
+    status: parsed.status ?? "inbox",
+    priority: parsed.priority,
+    contexts: parsed.contexts.length > 0 ? parsed.contexts : undefined,
+    projectId,
+    dueDate: parsed.dueDate,
+    startDate: parsed.startDate,
+    waitUntil: parsed.waitUntil,
+    dependsOn: dependsOn?.length ? dependsOn : undefined,
+    tags: parsed.tags,
+    recurrence: parsed.recurrence,
+  });
+  return c.json(task, 201);
+});
+
+rest.onError((error, c) => {
+  if (error instanceof TRPCError) {
+    const status = getHTTPStatusCodeFromError(error) as ContentfulStatusCode;
+    if (error.cause instanceof z.ZodError) {
+      return c.json({ error: { code: error.code, message: "Invalid request", issues: error.cause.issues } }, status);
+    }
+    return c.json({ error: { code: error.code, message: error.message } }, status);
+  }
+  if (error instanceof SyntaxError) {
+    return c.json({ error: { code: "BAD_REQUEST", message: "Body is not valid JSON" } }, 400);
+  }
+  console.error("[rest] Unhandled error:", error);
+  return c.json({ error: { code: "INTERNAL_SERVER_ERROR", message: "Something went wrong" } }, 500);
+});
+
+export default rest;
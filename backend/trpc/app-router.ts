@@ -1,8 +1,30 @@
-import { createTRPCRouter } from "./create-context";
+import { createTRPCRouter } from "./create-contexts";
+import { areasRouter } from "./routes/areas";
+import { authRouter } from "./routes/auth";
+import { calendarFeedRouter } from "./routes/calendar-feed";
+import { calendarsRouter } from "./routes/calendars";
+import { contextSetsRouter } from "./routes/context-sets";
+import { contextsRouter } from "./routes/contexts";
 import { exampleRouter } from "./routes/example";
+import { goalsRouter } from "./routes/goals";
+import { projectsRouter } from "./routes/projects";
+import { syncRouter } from "./routes/sync";
+import { tasksRouter } from "./routes/tasks";
+import { tokensRouter } from "./routes/tokens";
 
 export const appRouter = createTRPCRouter({
   example: exampleRouter,
+  auth: authRouter,
+  tasks: tasksRouter,
+  projects: projectsRouter,
+  areas: areasRouter,
+  goals: goalsRouter,
+  contexts: contextsRouter,
+  contextSets: contextSetsRouter,
+  sync: syncRouter,
+  tokens: tokensRouter,
+  calendarFeed: calendarFeedRouter,
+  calendars: calendarsRouter,
 });
 
 export type AppRouter = typeof appRouter;
@@ -1,10 +1,15 @@
-import { initTRPC } from "@trpc/server";
+import { initTRPC, TRPCError } from "@trpc/server";
 import { FetchCreateContextFnOptions } from "@trpc/server/adapters/fetch";
 import superjson from "superjson";
 
+import { getBearerToken, resolveSession, type User } from "../auth";
+
 export const createContext = async (opts: FetchCreateContextFnOptions) => {
+  const token = getBearerToken(opts.req);
   return {
     req: opts.req,
+    token,
+    user: token ? await resolveSession(token) : null as User | null,
   };
 };
 
@@ -16,3 +21,11 @@ const t = initTRPC.context<Context>().create({
 
 export const createTRPCRouter = t.router;
 export const publicProcedure = t.procedure;
+
+/** Procedures that need a signed-in user; `ctx.user` is always set inside. */
+export const protectedProcedure = t.procedure.use(({ ctx, next }) => {
+  if (!ctx.user) {
+    throw new TRPCError({ code: "UNAUTHORIZED", message: "Sign in to continue" });
+  }
+  return next({ ctx: { ...ctx, user: ctx.user } });
+});
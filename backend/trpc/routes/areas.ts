@@ -0,0 +1,77 @@
+import { TRPCError } from "@trpc/server";
+import { and, eq, isNull } from "drizzle-orm";
+import * as z from "zod";
+
+import { db } from "@/db";
+import { areas } from "@/db/schema";
+import { areaSchema } from "@/types/schemas";
+import type { Area } from "@/types/task";
+import { createTRPCRouter, protectedProcedure } from "../create-contexts";
+import { bumpRevision, fromRow, patchSchema, toPatch } from "../rows";
+
+const createAreaSchema = areaSchema.partial({ id: true, createdAt: true });
+const updateAreaSchema = patchSchema(areaSchema.omit({ id: true, createdAt: true }));
+
+export const areasRouter = createTRPCRouter({
+  list: protectedProcedure
+    .query(async ({ ctx }) => {
+      const rows = await db.query.areas.findMany({
+        where: (a, { and, eq, isNull }) => and(eq(a.userId, ctx.user.id), isNull(a.deletedAt)),
+        orderBy: (a, { asc }) => asc(a.createdAt),
+      });
+      return rows.map(row => fromRow<Area>(row));
+    }),
+
+  get: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const row = await db.query.areas.findFirst({ where: (a, { and, eq, isNull }) => and(eq(a.userId, ctx.user.id), eq(a.id, input.id), isNull(a.deletedAt)) });
+      if (!row) {
+        throw new TRPCError({ code: "NOT_FOUND", message: `Area ${input.id} not found` });
+      }
+      return fromRow<Area>(row);
+    }),
+
+  create: protectedProcedure
+    .input(createAreaSchema)
+    .mutation(async ({ ctx, input }) => {
+      const id = input.id ?? crypto.randomUUID();
+      const [row] = await db.insert(areas).values({
+        ...input,
+        userId: ctx.user.id,
+        id,
+        createdAt: input.createdAt ?? new Date().toISOString(),
+      }).onConflictDoNothing().returning();
+      if (!row) {
+        throw new TRPCError({ code: "CONFLICT", message: `Area ${id} already exists` });
+      }
+      return fromRow<Area>(row);
+    }),
+
+  update: protectedProcedure
+    .input(z.object({ id: z.string(), updates: updateAreaSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const [row] = await db.update(areas)
+        .set({ ...toPatch<typeof areas.$inferInsert>(input.updates), ...bumpRevision(areas, Object.keys(input.updates)) })
+        .where(and(eq(areas.userId, ctx.user.id), eq(areas.id, input.id), isNull(areas.deletedAt)))
+        .returning();
+      if (!row) {
+        throw new TRPCError({ code: "NOT_FOUND", message: `Area ${input.id} not found` });
+      }
+      return fromRow<Area>(row);
+    }),
+
+  delete: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      // Deletes leave a tombstone so that synced devices drop the record too.
+      const [row] = await db.update(areas)
+        .set({ deletedAt: new Date().toISOString(), ...bumpRevision(areas) })
+        .where(and(eq(areas.userId, ctx.user.id), eq(areas.id, input.id), isNull(areas.deletedAt)))
+        .returning({ id: areas.id });
+      if (!row) {
+        throw new TRPCError({ code: "NOT_FOUND", message: `Area ${input.id} not found` });
+      }
+      return { id: row.id };
+    }),
+});
@@ -0,0 +1,50 @@
+import { TRPCError } from "@trpc/server";
+import { eq } from "drizzle-orm";
+import * as z from "zod";
+
+import { db } from "@/db";
+import { users } from "@/db/schema";
+import { createSession, hashPassword, revokeSession, verifyPassword } from "../../auth";
+import { createTRPCRouter, protectedProcedure, publicProcedure } from "../create-contexts";
+
+const emailSchema = z.email().transform(email => email.trim().toLowerCase());
+
+const credentialsSchema = z.object({
+  email: emailSchema,
+  password: z.string().min(8, "Password must be at least 8 characters").max(200),
+});
+
+export const authRouter = createTRPCRouter({
+  register: publicProcedure
+    .input(credentialsSchema.extend({ name: z.string().trim().min(1).max(100).optional() }))
+    .mutation(async ({ input }) => {
+      const [user] = await db.insert(users).values({
+        id: crypto.randomUUID(),
+        email: input.email,
+        name: input.name,
+        passwordHash: await hashPassword(input.password),
+        createdAt: new Date().toISOString(),
+      }).onConflictDoNothing().returning({ id: users.id, email: users.email, name: users.name });
+      if (!user) {
+        throw new TRPCError({ code: "CONFLICT", message: `An account for ${input.email} already exists` });
+      }
+      return { user, ...await createSession(user.id) };
+    }),
+
+  login: publicProcedure
+    .input(credentialsSchema.extend({ password: z.string().min(1) }))
+    .mutation(async ({ input }) => {
+      const row = await db.query.users.findFirst({ where: eq(users.email, input.email) });
+      if (!row || !(await verifyPassword(input.password, row.passwordHash))) {
+        throw new TRPCError({ code: "UNAUTHORIZED", message: "Wrong email or password" });
+      }
+      return { user: { id: row.id, email: row.email, name: row.name }, ...await createSession(row.id) };
+    }),
+
+  logout: protectedProcedure.mutation(async ({ ctx }) => {
+    if (ctx.token) await revokeSession(ctx.token);
+    return { success: true };
+  }),
+
+  me: protectedProcedure.query(({ ctx }) => ctx.user),
+});
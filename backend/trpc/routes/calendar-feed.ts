@@ -0,0 +1,34 @@
+import { eq } from "drizzle-orm";
+
+import { db } from "@/db";
+import { calendarFeeds } from "@/db/schema";
+import { resetCalendarFeed } from "../../auth";
+import { createTRPCRouter, protectedProcedure } from "../create-contexts";
+import { fromRow } from "../rows";
+
+export interface CalendarFeed {
+  createdAt: string;
+  lastFetchedAt?: string;
+}
+
+const toCalendarFeed = (row: typeof calendarFeeds.$inferSelect) =>
+  fromRow<CalendarFeed>({ createdAt: row.createdAt, lastFetchedAt: row.lastFetchedAt });
+
+export const calendarFeedRouter = createTRPCRouter({
+  /** Whether the user has a feed; its URL is only known right after a reset. */
+  get: protectedProcedure.query(async ({ ctx }) => {
+    const row = await db.query.calendarFeeds.findFirst({ where: (t, { eq }) => eq(t.userId, ctx.user.id) });
+    return row ? toCalendarFeed(row) : null;
+  }),
+
+  /** Creates the feed, or replaces its token; returns the new token once. */
+  reset: protectedProcedure.mutation(async ({ ctx }) => {
+    const { token, row } = await resetCalendarFeed(ctx.user.id);
+    return { token, feed: toCalendarFeed(row) };
+  }),
+
+  remove: protectedProcedure.mutation(async ({ ctx }) => {
+    await db.delete(calendarFeeds).where(eq(calendarFeeds.userId, ctx.user.id));
+    return { success: true };
+  }),
+});
@@ -0,0 +1,244 @@
+import { lookup } from "node:dns";
+import { request as httpRequest, type IncomingMessage } from "node:http";
+import { request as httpsRequest } from "node:https";
+import { BlockList, isIP, type LookupFunction } from "node:net";
+import { TRPCError } from "@trpc/server";
+import { and, eq } from "drizzle-orm";
+import * as z from "zod";
+
+import { db } from "@/db";
+import { calendarSubscriptions } from "@/db/schema";
+import type { CalendarEvent, CalendarSubscription } from "@/types/calendar";
+import { PROJECT_COLORS } from "@/types/task";
+import { expandIcsEvents, parseIcs, type ParsedCalendar } from "@/utils/ics";
+import { createTRPCRouter, protectedProcedure } from "../create-contexts";
+import { fromRow } from "../rows";
+
+const FETCH_TIMEOUT_MS = 15_000;
+const MAX_CALENDAR_BYTES = 5 * 1024 * 1024;
+const MAX_REDIRECTS = 5;
+// Calendar apps refresh subscriptions every few hours; a few minutes of
+// caching keeps screen changes from refetching every URL.
+const CACHE_TTL_MS = 10 * 60 * 1000;
+// Longest range one request may expand, so a runaway client cannot ask for
+// centuries of a daily event.
+const MAX_RANGE_MS = 400 * 24 * 60 * 60 * 1000;
+
+const cache = new Map<string, { fetchedAt: number; calendar: ParsedCalendar }>();
+
+const toSubscription = (row: typeof calendarSubscriptions.$inferSelect) => fromRow<CalendarSubscription>(row);
+
+// Addresses no public calendar lives at: this network, loopback, private
+// ranges, link-local, shared and reserved space. IPv4-mapped IPv6
+// addresses are checked against the IPv4 rules.
+const PRIVATE_RANGES: { ipv4: [string, number][]; ipv6: [string, number][] } = {
+  ipv4: [
+    ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+    ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 3],
+  ],
+  ipv6: [["::", 127], ["64:ff9b::", 96], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8]],
+};
+const PRIVATE_ADDRESSES = new BlockList();
+PRIVATE_RANGES.ipv4.forEach(([address, prefix]) => PRIVATE_ADDRESSES.addSubnet(address, prefix, "ipv4"));
+PRIVATE_RANGES.ipv6.forEach(([address, prefix]) => PRIVATE_ADDRESSES.addSubnet(address, prefix, "ipv6"));
+
+const isPrivateAddress = (address: string) => PRIVATE_ADDRESSES.check(address, isIP(address) === 6 ? "ipv6" : "ipv4");
+
+const refused = () => new TRPCError({ code: "BAD_REQUEST", message: "Only public http(s) and webcal URLs can be subscribed to" });
+
+/**
+ * `webcal://` is how calendars advertise subscribable URLs; it is plain
+ * HTTPS underneath. Names and addresses that are obviously local are
+ * refused here; checkedLookup does the rest once the name is resolved.
+ */
+function toFetchUrl(input: string): URL {
+  let url: URL;
+  try {
+    url = new URL(input.trim().replace(/^webcals?:\/\//i, "https://"));
+  } catch {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "That is not a valid URL" });
+  }
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, "");
+  const isPrivate = host === "localhost"
+    || host.endsWith(".localhost")
+    || host.endsWith(".local")
+    || host.endsWith(".internal")
+    || (isIP(host) !== 0 && isPrivateAddress(host));
+  if (!["http:", "https:"].includes(url.protocol) || isPrivate) throw refused();
+  return url;
+}
+
+class PrivateHostError extends Error {}
+
+/**
+ * Resolves a host for the connection and refuses it if any of its addresses
+ * is on the server's own network, so the backend cannot be used to probe it.
+ * The socket connects to the addresses checked here, so a name that resolves
+ * elsewhere a moment later cannot slip past. Every redirect hop goes through
+ * it too.
+ */
+const checkedLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, "");
+    if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+      return callback(new PrivateHostError(hostname), "");
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+function get(url: URL, signal: AbortSignal): Promise<IncomingMessage> {
+  const request = url.protocol === "https:" ? httpsRequest : httpRequest;
+  return new Promise((resolve, reject) => {
+    request(url.href, { headers: { accept: "text/calendar, */*" }, lookup: checkedLookup, signal }, resolve)
+      .on("error", reject)
+      .end();
+  });
+}
+
+/** Fetches `url`, following at most MAX_REDIRECTS redirects to public hosts only. */
+async function fetchPublic(url: URL): Promise<{ url: URL; response: IncomingMessage }> {
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+  for (let hops = 0; ; hops++) {
+    let response: IncomingMessage;
+    try {
+      response = await get(url, signal);
+    } catch (error) {
+      if (error instanceof PrivateHostError) throw refused();
+      console.log("[calendars] Fetch failed:", url.host, error);
+      throw new TRPCError({ code: "BAD_REQUEST", message: `Could not reach ${url.host}` });
+    }
+    const status = response.statusCode ?? 0;
+    const location = response.headers.location;
+    if (status < 300 || status >= 400 || !location) return { url, response };
+    response.destroy();
+    if (hops === MAX_REDIRECTS) {
+      throw new TRPCError({ code: "BAD_REQUEST", message: `${url.host} redirects too many times` });
+    }
+    url = toFetchUrl(new URL(location, url).href);
+  }
+}
+
+/** The body as text, giving up as soon as it passes MAX_CALENDAR_BYTES whatever content-length said. */
+async function readBody(response: IncomingMessage): Promise<string> {
+  const decoder = new TextDecoder();
+  let size = 0;
+  let text = "";
+  try {
+    for await (const chunk of response as AsyncIterable<Buffer>) {
+      size += chunk.byteLength;
+      if (size > MAX_CALENDAR_BYTES) {
+        response.destroy();
+        throw new TRPCError({ code: "BAD_REQUEST", message: "This calendar is too large" });
+      }
+      text += decoder.decode(chunk, { stream: true });
+    }
+  } catch (error) {
+    if (error instanceof TRPCError) throw error;
+    throw new TRPCError({ code: "BAD_REQUEST", message: "The calendar download was cut off" });
+  }
+  return text + decoder.decode();
+}
+
+async function fetchCalendar(input: string, { fresh = false } = {}) {
+  const requested = toFetchUrl(input);
+  const cached = cache.get(requested.href);
+  if (!fresh && cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) return cached;
+
+  const { url, response } = await fetchPublic(requested);
+  const status = response.statusCode ?? 0;
+  if (status < 200 || status >= 300) {
+    response.destroy();
+    throw new TRPCError({ code: "BAD_REQUEST", message: `${url.host} answered ${status}` });
+  }
+
+  let calendar: ParsedCalendar;
+  const text = await readBody(response);
+  try {
+    calendar = parseIcs(text);
+  } catch (error) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: error instanceof Error ? error.message : "Could not read this calendar" });
+  }
+  const entry = { fetchedAt: Date.now(), calendar };
+  cache.set(requested.href, entry);
+  return entry;
+}
+
+export const calendarsRouter = createTRPCRouter({
+  list: protectedProcedure.query(async ({ ctx }) => {
+    const rows = await db.query.calendarSubscriptions.findMany({
+      where: (t, { eq }) => eq(t.userId, ctx.user.id),
+      orderBy: (t, { asc }) => asc(t.createdAt),
+    });
+    return rows.map(toSubscription);
+  }),
+
+  /** Fetches the URL once to check it is a calendar before saving it. */
+  subscribe: protectedProcedure
+    .input(z.object({
+      url: z.string().trim().min(1),
+      name: z.string().trim().max(100).optional(),
+      color: z.string().optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      const { calendar } = await fetchCalendar(input.url, { fresh: true });
+      const existing = await db.$count(calendarSubscriptions, eq(calendarSubscriptions.userId, ctx.user.id));
+      const now = new Date().toISOString();
+      const [row] = await db.insert(calendarSubscriptions).values({
+        id: crypto.randomUUID(),
+        userId: ctx.user.id,
+        name: input.name || calendar.name || toFetchUrl(input.url).host,
+        url: input.url,
+        color: input.color ?? PROJECT_COLORS[existing % PROJECT_COLORS.length],
+        createdAt: now,
+        lastFetchedAt: now,
+      }).returning();
+      return toSubscription(row);
+    }),
+
+  unsubscribe: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const [row] = await db.delete(calendarSubscriptions)
+        .where(and(eq(calendarSubscriptions.userId, ctx.user.id), eq(calendarSubscriptions.id, input.id)))
+        .returning({ id: calendarSubscriptions.id });
+      if (!row) {
+        throw new TRPCError({ code: "NOT_FOUND", message: `Calendar ${input.id} not found` });
+      }
+      return { id: row.id };
+    }),
+
+  /**
+   * Occurrences from all subscribed calendars between `from` and `to`. A
+   * calendar that cannot be fetched is left out and its error recorded, so
+   * one broken URL does not hide the others.
+   */
+  events: protectedProcedure
+    .input(z.object({ from: z.string(), to: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const from = new Date(input.from);
+      const to = new Date(input.to);
+      if (isNaN(from.getTime()) || isNaN(to.getTime()) || to < from || to.getTime() - from.getTime() > MAX_RANGE_MS) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Ask for at most a year of events at a time" });
+      }
+
+      const rows = await db.query.calendarSubscriptions.findMany({ where: (t, { eq }) => eq(t.userId, ctx.user.id) });
+      const results = await Promise.all(rows.map(async (row): Promise<CalendarEvent[]> => {
+        const isSubscription = and(eq(calendarSubscriptions.userId, ctx.user.id), eq(calendarSubscriptions.id, row.id));
+        try {
+          const { calendar, fetchedAt } = await fetchCalendar(row.url);
+          const lastFetchedAt = new Date(fetchedAt).toISOString();
+          if (row.lastError || row.lastFetchedAt !== lastFetchedAt) {
+            await db.update(calendarSubscriptions).set({ lastFetchedAt, lastError: null }).where(isSubscription);
+          }
+          return expandIcsEvents(calendar.events, row.id, from, to);
+        } catch (error) {
+          const message = error instanceof Error ? error.message : "Could not fetch this calendar";
+          await db.update(calendarSubscriptions).set({ lastError: message }).where(isSubscription);
+          return [];
+        }
+      }));
+      return results.flat();
+    }),
+});
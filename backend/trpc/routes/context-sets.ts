@@ -0,0 +1,77 @@
+import { TRPCError } from "@trpc/server";
+import { and, eq, isNull } from "drizzle-orm";
+import * as z from "zod";
+
+import { db } from "@/db";
+import { contextSets } from "@/db/schema";
+import { contextSetSchema } from "@/types/schemas";
+import type { ContextSet } from "@/types/task";
+import { createTRPCRouter, protectedProcedure } from "../create-contexts";
+import { bumpRevision, fromRow, patchSchema, toPatch } from "../rows";
+
+const createContextSetSchema = contextSetSchema.partial({ id: true, createdAt: true });
+const updateContextSetSchema = patchSchema(contextSetSchema.omit({ id: true, createdAt: true }));
+
+export const contextSetsRouter = createTRPCRouter({
+  list: protectedProcedure
+    .query(async ({ ctx }) => {
+      const rows = await db.query.contextSets.findMany({
+        where: (c, { and, eq, isNull }) => and(eq(c.userId, ctx.user.id), isNull(c.deletedAt)),
+        orderBy: (c, { asc }) => asc(c.createdAt),
+      });
+      return rows.map(row => fromRow<ContextSet>(row));
+    }),
+
+  get: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const row = await db.query.contextSets.findFirst({ where: (c, { and, eq, isNull }) => and(eq(c.userId, ctx.user.id), eq(c.id, input.id), isNull(c.deletedAt)) });
+      if (!row) {
+        throw new TRPCError({ code: "NOT_FOUND", message: `Context set ${input.id} not found` });
+      }
+      return fromRow<ContextSet>(row);
+    }),
+
+  create: protectedProcedure
+    .input(createContextSetSchema)
+    .mutation(async ({ ctx, input }) => {
+      const id = input.id ?? crypto.randomUUID();
+      const [row] = await db.insert(contextSets).values({
+        ...input,
+        userId: ctx.user.id,
+        id,
+        createdAt: input.createdAt ?? new Date().toISOString(),
+      }).onConflictDoNothing().returning();
+      if (!row) {
+        throw new TRPCError({ code: "CONFLICT", message: `Context set ${id} already exists` });
+      }
+      return fromRow<ContextSet>(row);
+    }),
+
+  update: protectedProcedure
+    .input(z.object({ id: z.string(), updates: updateContextSetSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const [row] = await db.update(contextSets)
+        .set({ ...toPatch<typeof contextSets.$inferInsert>(input.updates), ...bumpRevision(contextSets, Object.keys(input.updates)) })
+        .where(and(eq(contextSets.userId, ctx.user.id), eq(contextSets.id, input.id), isNull(contextSets.deletedAt)))
+        .returning();
+      if (!row) {
+        throw new TRPCError({ code: "NOT_FOUND", message: `Context set ${input.id} not found` });
+      }
+      return fromRow<ContextSet>(row);
+    }),
+
+  delete: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      // Deletes leave a tombstone so that synced devices drop the record too.
+      const [row] = await db.update(contextSets)
+        .set({ deletedAt: new Date().toISOString(), ...bumpRevision(contextSets) })
+        .where(and(eq(contextSets.userId, ctx.user.id), eq(contextSets.id, input.id), isNull(contextSets.deletedAt)))
+        .returning({ id: contextSets.id });
+      if (!row) {
+        throw new TRPCError({ code: "NOT_FOUND", message: `Context set ${input.id} not found` });
+      }
+      return { id: row.id };
+    }),
+});
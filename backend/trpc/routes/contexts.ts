@@ -0,0 +1,77 @@
+import { TRPCError } from "@trpc/server";
+import { and, eq, isNull } from "drizzle-orm";
+import * as z from "zod";
+
+import { db } from "@/db";
+import { contexts } from "@/db/schema";
+import { contextSchema } from "@/types/schemas";
+import type { Context } from "@/types/task";
+import { createTRPCRouter, protectedProcedure } from "../create-contexts";
+import { bumpRevision, fromRow, patchSchema, toPatch } from "../rows";
+
+const createContextSchema = contextSchema.partial({ id: true, createdAt: true });
+const updateContextSchema = patchSchema(contextSchema.omit({ id: true, createdAt: true }));
+
+export const contextsRouter = createTRPCRouter({
+  list: protectedProcedure
+    .query(async ({ ctx }) => {
+      const rows = await db.query.contexts.findMany({
+        where: (c, { and, eq, isNull }) => and(eq(c.userId, ctx.user.id), isNull(c.deletedAt)),
+        orderBy: (c, { asc }) => asc(c.createdAt),
+      });
+      return rows.map(row => fromRow<Context>(row));
+    }),
+
+  get: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const row = await db.query.contexts.findFirst({ where: (c, { and, eq, isNull }) => and(eq(c.userId, ctx.user.id), eq(c.id, input.id), isNull(c.deletedAt)) });
+      if (!row) {
+        throw new TRPCError({ code: "NOT_FOUND", message: `Context ${input.id} not found` });
+      }
+      return fromRow<Context>(row);
+    }),
+
+  create: protectedProcedure
+    .input(createContextSchema)
+    .mutation(async ({ ctx, input }) => {
+      const id = input.id ?? crypto.randomUUID();
+      const [row] = await db.insert(contexts).values({
+        ...input,
+        userId: ctx.user.id,
+        id,
+        createdAt: input.createdAt ?? new Date().toISOString(),
+      }).onConflictDoNothing().returning();
+      if (!row) {
+        throw new TRPCError({ code: "CONFLICT", message: `Context ${id} already exists` });
+      }
+      return fromRow<Context>(row);
+    }),
+
+  update: protectedProcedure
+    .input(z.object({ id: z.string(), updates: updateContextSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const [row] = await db.update(contexts)
+        .set({ ...toPatch<typeof contexts.$inferInsert>(input.updates), ...bumpRevision(contexts, Object.keys(input.updates)) })
+        .where(and(eq(contexts.userId, ctx.user.id), eq(contexts.id, input.id), isNull(contexts.deletedAt)))
+        .returning();
+      if (!row) {
+        throw new TRPCError({ code: "NOT_FOUND", message: `Context ${input.id} not found` });
+      }
+      return fromRow<Context>(row);
+    }),
+
+  delete: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      // Deletes leave a tombstone so that synced devices drop the record too.
+      const [row] = await db.update(contexts)
+        .set({ deletedAt: new Date().toISOString(), ...bumpRevision(contexts) })
+        .where(and(eq(contexts.userId, ctx.user.id), eq(contexts.id, input.id), isNull(contexts.deletedAt)))
+        .returning({ id: contexts.id });
+      if (!row) {
+        throw new TRPCError({ code: "NOT_FOUND", message: `Context ${input.id} not found` });
+      }
+      return { id: row.id };
+    }),
+});
@@ -1,6 +1,6 @@
 import * as z from "zod";
 
-import { createTRPCRouter, publicProcedure } from "../create-context";
+import { createTRPCRouter, publicProcedure } from "../create-contexts";
 
 export const exampleRouter = createTRPCRouter({
   hi: publicProcedure
@@ -0,0 +1,83 @@
+import { TRPCError } from "@trpc/server";
+import { and, eq, isNull } from "drizzle-orm";
+import * as z from "zod";
+
+import { db } from "@/db";
+import { goals } from "@/db/schema";
+import { goalSchema } from "@/types/schemas";
+import type { Goal } from "@/types/task";
+import { createTRPCRouter, protectedProcedure } from "../create-contexts";
+import { bumpRevision, fromRow, patchSchema, toPatch } from "../rows";
+
+const createGoalSchema = goalSchema.partial({ id: true, createdAt: true });
+const updateGoalSchema = patchSchema(goalSchema.omit({ id: true, createdAt: true }));
+
+export const goalsRouter = createTRPCRouter({
+  list: protectedProcedure
+    .input(z.object({ horizon: goalSchema.shape.horizon.optional(), areaId: z.string().optional() }).optional())
+    .query(async ({ ctx, input }) => {
+      const rows = await db.query.goals.findMany({
+        where: (g, { and, eq, isNull }) => and(
+          eq(g.userId, ctx.user.id),
+          isNull(g.deletedAt),
+          input?.horizon ? eq(g.horizon, input.horizon) : undefined,
+          input?.areaId ? eq(g.areaId, input.areaId) : undefined,
+        ),
+        orderBy: (g, { asc }) => asc(g.createdAt),
+      });
+      return rows.map(row => fromRow<Goal>(row));
+    }),
+
+  get: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const row = await db.query.goals.findFirst({ where: (g, { and, eq, isNull }) => and(eq(g.userId, ctx.user.id), eq(g.id, input.id), isNull(g.deletedAt)) });
+      if (!row) {
+        throw new TRPCError({ code: "NOT_FOUND", message: `Goal ${input.id} not found` });
+      }
+      return fromRow<Goal>(row);
+    }),
+
+  create: protectedProcedure
+    .input(createGoalSchema)
+    .mutation(async ({ ctx, input }) => {
+      const id = input.id ?? crypto.randomUUID();
+      const [row] = await db.insert(goals).values({
+        ...input,
+        userId: ctx.user.id,
+        id,
+        createdAt: input.createdAt ?? new Date().toISOString(),
+      }).onConflictDoNothing().returning();
+      if (!row) {
+        throw new TRPCError({ code: "CONFLICT", message: `Goal ${id} already exists` });
+      }
+      return fromRow<Goal>(row);
+    }),
+
+  update: protectedProcedure
+    .input(z.object({ id: z.string(), updates: updateGoalSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const [row] = await db.update(goals)
+        .set({ ...toPatch<typeof goals.$inferInsert>(input.updates), ...bumpRevision(goals, Object.keys(input.updates)) })
+        .where(and(eq(goals.userId, ctx.user.id), eq(goals.id, input.id), isNull(goals.deletedAt)))
+        .returning();
+      if (!row) {
+        throw new TRPCError({ code: "NOT_FOUND", message: `Goal ${input.id} not found` });
+      }
+      return fromRow<Goal>(row);
+    }),
+
+  delete: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      // Deletes leave a tombstone so that synced devices drop the record too.
+      const [row] = await db.update(goals)
+        .set({ deletedAt: new Date().toISOString(), ...bumpRevision(goals) })
+        .where(and(eq(goals.userId, ctx.user.id), eq(goals.id, input.id), isNull(goals.deletedAt)))
+        .returning({ id: goals.id });
+      if (!row) {
+        throw new TRPCError({ code: "NOT_FOUND", message: `Goal ${input.id} not found` });
+      }
+      return { id: row.id };
+    }),
+});
@@ -0,0 +1,102 @@
+import { TRPCError } from "@trpc/server";
+import { and, arrayContains, eq, isNull } from "drizzle-orm";
+import * as z from "zod";
+
+import { db } from "@/db";
+import { projects, tasks } from "@/db/schema";
+import { projectSchema, projectTasksActionSchema } from "@/types/schemas";
+import type { Project } from "@/types/task";
+import { createTRPCRouter, protectedProcedure } from "../create-contexts";
+import { bumpRevision, fromRow, patchSchema, toPatch } from "../rows";
+
+const createProjectSchema = projectSchema.partial({ id: true, createdAt: true });
+const updateProjectSchema = patchSchema(projectSchema.omit({ id: true, createdAt: true }));
+
+export const projectsRouter = createTRPCRouter({
+  list: protectedProcedure
+    .input(z.object({
+      status: projectSchema.shape.status.optional(),
+      areaId: z.string().optional(),
+      /** Only projects that serve this goal. */
+      goalId: z.string().optional(),
+      /** List the Trash instead of the projects outside it. */
+      trashed: z.boolean().optional(),
+    }).optional())
+    .query(async ({ ctx, input }) => {
+      const rows = await db.query.projects.findMany({
+        where: (p, { and, eq, isNull, isNotNull }) => and(
+          eq(p.userId, ctx.user.id),
+          isNull(p.deletedAt),
+          input?.trashed ? isNotNull(p.trashedAt) : isNull(p.trashedAt),
+          input?.status ? eq(p.status, input.status) : undefined,
+          input?.areaId ? eq(p.areaId, input.areaId) : undefined,
+          input?.goalId ? arrayContains(p.goalIds, [input.goalId]) : undefined,
+        ),
+        orderBy: (p, { asc }) => asc(p.createdAt),
+      });
+      return rows.map(row => fromRow<Project>(row));
+    }),
+
+  get: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const row = await db.query.projects.findFirst({ where: (p, { and, eq, isNull }) => and(eq(p.userId, ctx.user.id), eq(p.id, input.id), isNull(p.deletedAt)) });
+      if (!row) {
+        throw new TRPCError({ code: "NOT_FOUND", message: `Project ${input.id} not found` });
+      }
+      return fromRow<Project>(row);
+    }),
+
+  create: protectedProcedure
+    .input(createProjectSchema)
+    .mutation(async ({ ctx, input }) => {
+      const id = input.id ?? crypto.randomUUID();
+      const [row] = await db.insert(projects).values({
+        ...input,
+        userId: ctx.user.id,
+        id,
+        createdAt: input.createdAt ?? new Date().toISOString(),
+      }).onConflictDoNothing().returning();
+      if (!row) {
+        throw new TRPCError({ code: "CONFLICT", message: `Project ${id} already exists` });
+      }
+      return fromRow<Project>(row);
+    }),
+
+  update: protectedProcedure
+    .input(z.object({ id: z.string(), updates: updateProjectSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const [row] = await db.update(projects)
+        .set({ ...toPatch<typeof projects.$inferInsert>(input.updates), ...bumpRevision(projects, Object.keys(input.updates)) })
+        .where(and(eq(projects.userId, ctx.user.id), eq(projects.id, input.id), isNull(projects.deletedAt)))
+        .returning();
+      if (!row) {
+        throw new TRPCError({ code: "NOT_FOUND", message: `Project ${input.id} not found` });
+      }
+      return fromRow<Project>(row);
+    }),
+
+  delete: protectedProcedure
+    .input(z.object({ id: z.string(), tasks: projectTasksActionSchema.default({ action: "detach" }) }))
+    .mutation(async ({ ctx, input }) => {
+      // Like tasks, a deleted project goes to the Trash. Its tasks are
+      // trashed with it, moved or detached so none point at a missing project.
+      const trashedAt = new Date().toISOString();
+      const [row] = await db.update(projects)
+        .set({ trashedAt, ...bumpRevision(projects, ["trashedAt"]) })
+        .where(and(eq(projects.userId, ctx.user.id), eq(projects.id, input.id), isNull(projects.deletedAt), isNull(projects.trashedAt)))
+        .returning({ id: projects.id });
+      if (!row) {
+        throw new TRPCError({ code: "NOT_FOUND", message: `Project ${input.id} not found` });
+      }
+
+      const action = input.tasks;
+      const patch = action.action === "trash" ? { trashedAt }
+        : action.action === "move" ? { projectId: action.projectId }
+        : { projectId: null };
+      await db.update(tasks)
+        .set({ ...patch, ...bumpRevision(tasks, Object.keys(patch)) })
+        .where(and(eq(tasks.userId, ctx.user.id), eq(tasks.projectId, input.id), isNull(tasks.deletedAt), isNull(tasks.trashedAt)));
+      return { id: row.id };
+    }),
+});
@@ -0,0 +1,188 @@
+import { TRPCError } from "@trpc/server";
+import { and, asc, eq, gt, lt, sql, type SQL } from "drizzle-orm";
+import * as z from "zod";
+
+import { db } from "@/db";
+import { areas, contextSets, contexts, goals, projects, tasks, users } from "@/db/schema";
+import { syncChangeSchema, SYNC_ENTITIES, type PushResult, type RemoteChange, type SyncChange, type SyncEntity } from "@/types/sync";
+import { initialClocks, mergeFields } from "@/utils/merge";
+import { createTRPCRouter, protectedProcedure } from "../create-contexts";
+import { bumpRevision, fromRow, toRow } from "../rows";
+
+// The synced tables share their key and bookkeeping columns, so the
+// queries below are written once against the tasks table's column types.
+type SyncTable = typeof tasks;
+
+const SYNC_TABLES: Record<SyncEntity, SyncTable> = {
+  tasks,
+  projects: projects as unknown as SyncTable,
+  areas: areas as unknown as SyncTable,
+  goals: goals as unknown as SyncTable,
+  contexts: contexts as unknown as SyncTable,
+  contextSets: contextSets as unknown as SyncTable,
+};
+
+type SyncRow = SyncTable["$inferSelect"];
+
+function toRemoteChange(entity: SyncEntity, row: SyncRow): RemoteChange {
+  return {
+    entity,
+    id: row.id,
+    rev: row.rev,
+    deleted: row.deletedAt !== null,
+    record: row.deletedAt === null ? fromRow(row) : undefined,
+  } as RemoteChange;
+}
+
+const MAX_ATTEMPTS = 3;
+
+async function applyChange(userId: string, change: SyncChange): Promise<PushResult> {
+  const table = SYNC_TABLES[change.entity];
+  const isRecord = and(eq(table.userId, userId), eq(table.id, change.id));
+  const result = { entity: change.entity, id: change.id };
+
+  // Optimistic concurrency: read, merge, and write back only if nobody
+  // bumped the revision in between; otherwise merge again on the fresh row.
+  for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+    const [row] = await db.select().from(table).where(isRecord);
+
+    if (change.op === "delete") {
+      // Never reached the server, or already gone: nothing left to do.
+      if (!row || row.deletedAt) return { ...result, status: "applied", rev: row?.rev ?? 0 };
+      const [deleted] = await db.update(table)
+        .set({ deletedAt: new Date().toISOString(), ...bumpRevision(table) })
+        .where(and(isRecord, eq(table.rev, row.rev)))
+        .returning();
+      if (deleted) return { ...result, status: "applied", rev: deleted.rev, current: toRemoteChange(change.entity, deleted) };
+      continue;
+    }
+
+    const record = change.record!;
+    const edits = change.fields ?? Object.fromEntries(Object.keys(record).map(field => [field, new Date().toISOString()]));
+
+    if (!row) {
+      const [inserted] = await db.insert(table)
+        .values({
+          ...toRow<SyncTable["$inferInsert"]>(table, record),
+          userId,
+          fieldClocks: initialClocks(record, new Date().toISOString(), 1),
+        })
+        .onConflictDoNothing()
+        .returning();
+      if (inserted) return { ...result, status: "applied", rev: inserted.rev, current: toRemoteChange(change.entity, inserted) };
+      continue;
+    }
+
+    if (row.deletedAt) {
+      // Deleted elsewhere: the tombstone wins over edits made in the meantime.
+      if (change.baseRev < row.rev) {
+        return { ...result, status: "applied", rev: row.rev, current: toRemoteChange(change.entity, row) };
+      }
+      // The device had seen the delete, so this is the record brought back
+      // on purpose (an undo, or a redo of an undone add).
+      const [revived] = await db.update(table)
+        .set({
+          ...toRow<SyncTable["$inferInsert"]>(table, record),
+          deletedAt: null,
+          fieldClocks: initialClocks(record, new Date().toISOString(), row.rev + 1),
+          ...bumpRevision(table),
+        })
+        .where(and(isRecord, eq(table.rev, row.rev)))
+        .returning();
+      if (revived) return { ...result, status: "applied", rev: revived.rev, current: toRemoteChange(change.entity, revived) };
+      continue;
+    }
+
+    const merged = mergeFields(fromRow<typeof record>(row), row.fieldClocks, record, edits, change.baseRev, row.rev + 1);
+    const [updated] = await db.update(table)
+      .set({ ...toRow<SyncTable["$inferInsert"]>(table, merged.record), fieldClocks: merged.clocks, ...bumpRevision(table) })
+      .where(and(isRecord, eq(table.rev, row.rev)))
+      .returning();
+    if (updated) {
+      return {
+        ...result,
+        status: merged.conflicts.length > 0 ? "conflict" : "applied",
+        rev: updated.rev,
+        current: toRemoteChange(change.entity, updated),
+        conflicts: merged.conflicts.length > 0 ? merged.conflicts : undefined,
+      };
+    }
+  }
+
+  throw new TRPCError({ code: "CONFLICT", message: `Could not write ${change.entity} ${change.id}, try again` });
+}
+
+/**
+ * Devices pull by the transaction that made each write, not by `seq`: a write
+ * takes its seq when it starts but only becomes visible when it commits, so
+ * a slow one could land below a cursor a device has already passed. Every
+ * transaction older than the oldest one still running has finished, so rows
+ * (and cursors) are handed out only below that point. The query needs a
+ * table, hence the user's row.
+ */
+async function visibleHorizon(userId: string): Promise<number> {
+  const [{ horizon }] = await db
+    .select({ horizon: sql<number>`pg_snapshot_xmin(pg_current_snapshot())::text::bigint`.mapWith(Number) })
+    .from(users)
+    .where(eq(users.id, userId));
+  return horizon;
+}
+
+type PulledRow = { txId: number; seq: number; change: RemoteChange };
+
+const inCommitOrder = (a: PulledRow, b: PulledRow) => a.txId - b.txId || a.seq - b.seq;
+
+async function pullRows(userId: string, entity: SyncEntity, where: (table: SyncTable) => SQL | undefined, limit?: number): Promise<PulledRow[]> {
+  const table = SYNC_TABLES[entity];
+  const query = db.select().from(table)
+    .where(and(eq(table.userId, userId), where(table)))
+    .orderBy(asc(table.txId), asc(table.seq));
+  const rows = limit === undefined ? await query : await query.limit(limit);
+  return rows.map(row => ({ txId: row.txId, seq: row.seq, change: toRemoteChange(entity, row) }));
+}
+
+export const syncRouter = createTRPCRouter({
+  push: protectedProcedure
+    .input(z.object({ changes: z.array(syncChangeSchema).max(500) }))
+    .mutation(async ({ ctx, input }) => {
+      const results: PushResult[] = [];
+      // Sequential on purpose: a batch may hold several writes to one record.
+      for (const change of input.changes) {
+        results.push(await applyChange(ctx.user.id, change));
+      }
+      return { results };
+    }),
+
+  pull: protectedProcedure
+    .input(z.object({
+      since: z.number().int().nonnegative(),
+      limit: z.number().int().min(1).max(1000).default(500),
+    }))
+    .query(async ({ ctx, input }) => {
+      const horizon = await visibleHorizon(ctx.user.id);
+      const batches = await Promise.all(SYNC_ENTITIES.map(entity => pullRows(
+        ctx.user.id, entity, table => and(gt(table.txId, input.since), lt(table.txId, horizon)), input.limit + 1,
+      )));
+
+      // Every table returned its oldest rows, one more than fit, so cutting
+      // the merged list at `limit` never skips a row below the new cursor and
+      // shows whether anything is left.
+      const merged = batches.flat().sort(inCommitOrder);
+      let page = merged.slice(0, input.limit);
+      const hasMore = merged.length > input.limit;
+      if (hasMore) {
+        // The cursor only moves past whole transactions, so the rest of the
+        // last one's writes (a project's tasks unlinked together, say) come
+        // with this page.
+        const last = page[page.length - 1].txId;
+        const rest = await Promise.all(SYNC_ENTITIES.map(entity => pullRows(ctx.user.id, entity, table => eq(table.txId, last))));
+        page = [...page.filter(entry => entry.txId < last), ...rest.flat().sort(inCommitOrder)];
+      }
+
+      return {
+        changes: page.map(entry => entry.change),
+        cursor: page.length > 0 ? page[page.length - 1].txId : input.since,
+        hasMore,
+      };
+    }),
+});
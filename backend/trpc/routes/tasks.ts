@@ -0,0 +1,91 @@
+import { TRPCError } from "@trpc/server";
+import { and, eq, isNull } from "drizzle-orm";
+import * as z from "zod";
+
+import { db } from "@/db";
+import { tasks } from "@/db/schema";
+import { taskSchema, taskStatusSchema } from "@/types/schemas";
+import type { Task } from "@/types/task";
+import { createTRPCRouter, protectedProcedure } from "../create-contexts";
+import { bumpRevision, fromRow, patchSchema, toPatch } from "../rows";
+
+const createTaskSchema = taskSchema.partial({ id: true, createdAt: true, tags: true });
+const updateTaskSchema = patchSchema(taskSchema.omit({ id: true, createdAt: true }));
+
+export const tasksRouter = createTRPCRouter({
+  list: protectedProcedure
+    .input(z.object({
+      status: taskStatusSchema.optional(),
+      projectId: z.string().optional(),
+      /** List the Trash instead of the tasks outside it. */
+      trashed: z.boolean().optional(),
+    }).optional())
+    .query(async ({ ctx, input }) => {
+      const rows = await db.query.tasks.findMany({
+        where: (t, { and, eq, isNull, isNotNull }) => and(
+          eq(t.userId, ctx.user.id),
+          isNull(t.deletedAt),
+          input?.trashed ? isNotNull(t.trashedAt) : isNull(t.trashedAt),
+          input?.status ? eq(t.status, input.status) : undefined,
+          input?.projectId ? eq(t.projectId, input.projectId) : undefined,
+        ),
+        orderBy: (t, { asc }) => asc(t.createdAt),
+      });
+      return rows.map(row => fromRow<Task>(row));
+    }),
+
+  get: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ ctx, input }) => {
+      const row = await db.query.tasks.findFirst({ where: (t, { and, eq, isNull }) => and(eq(t.userId, ctx.user.id), eq(t.id, input.id), isNull(t.deletedAt)) });
+      if (!row) {
+        throw new TRPCError({ code: "NOT_FOUND", message: `Task ${input.id} not found` });
+      }
+      return fromRow<Task>(row);
+    }),
+
+  create: protectedProcedure
+    .input(createTaskSchema)
+    .mutation(async ({ ctx, input }) => {
+      const id = input.id ?? crypto.randomUUID();
+      const [row] = await db.insert(tasks).values({
+        ...input,
+        userId: ctx.user.id,
+        id,
+        tags: input.tags ?? [],
+        createdAt: input.createdAt ?? new Date().toISOString(),
+      }).onConflictDoNothing().returning();
+      if (!row) {
+        throw new TRPCError({ code: "CONFLICT", message: `Task ${id} already exists` });
+      }
+      return fromRow<Task>(row);
+    }),
+
+  update: protectedProcedure
+    .input(z.object({ id: z.string(), updates: updateTaskSchema }))
+    .mutation(async ({ ctx, input }) => {
+      const [row] = await db.update(tasks)
+        .set({ ...toPatch<typeof tasks.$inferInsert>(input.updates), ...bumpRevision(tasks, Object.keys(input.updates)) })
+        .where(and(eq(tasks.userId, ctx.user.id), eq(tasks.id, input.id), isNull(tasks.deletedAt)))
+        .returning();
+      if (!row) {
+        throw new TRPCError({ code: "NOT_FOUND", message: `Task ${input.id} not found` });
+      }
+      return fromRow<Task>(row);
+    }),
+
+  delete: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      // Deleting moves the task to the Trash; devices purge it from there
+      // after TRASH_RETENTION_DAYS, which leaves the sync tombstone.
+      const [row] = await db.update(tasks)
+        .set({ trashedAt: new Date().toISOString(), ...bumpRevision(tasks, ["trashedAt"]) })
+        .where(and(eq(tasks.userId, ctx.user.id), eq(tasks.id, input.id), isNull(tasks.deletedAt), isNull(tasks.trashedAt)))
+        .returning({ id: tasks.id });
+      if (!row) {
+        throw new TRPCError({ code: "NOT_FOUND", message: `Task ${input.id} not found` });
+      }
+      return { id: row.id };
+    }),
+});
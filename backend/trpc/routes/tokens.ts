@@ -0,0 +1,50 @@
+import { TRPCError } from "@trpc/server";
+import { and, eq } from "drizzle-orm";
+import * as z from "zod";
+
+import { db } from "@/db";
+import { apiTokens } from "@/db/schema";
+import { createApiToken } from "../../auth";
+import { createTRPCRouter, protectedProcedure } from "../create-contexts";
+import { fromRow } from "../rows";
+
+export interface ApiToken {
+  id: string;
+  name: string;
+  prefix: string;
+  createdAt: string;
+  lastUsedAt?: string;
+}
+
+// The hash stays on the server; the app only needs enough to tell tokens apart.
+const toApiToken = (row: typeof apiTokens.$inferSelect) =>
+  fromRow<ApiToken>({ id: row.id, name: row.name, prefix: row.prefix, createdAt: row.createdAt, lastUsedAt: row.lastUsedAt });
+
+export const tokensRouter = createTRPCRouter({
+  list: protectedProcedure.query(async ({ ctx }) => {
+    const rows = await db.query.apiTokens.findMany({
+      where: (t, { eq }) => eq(t.userId, ctx.user.id),
+      orderBy: (t, { desc }) => desc(t.createdAt),
+    });
+    return rows.map(toApiToken);
+  }),
+
+  create: protectedProcedure
+    .input(z.object({ name: z.string().trim().min(1).max(100) }))
+    .mutation(async ({ ctx, input }) => {
+      const { token, row } = await createApiToken(ctx.user.id, input.name);
+      return { token, apiToken: toApiToken(row) };
+    }),
+
+  revoke: protectedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      const [row] = await db.delete(apiTokens)
+        .where(and(eq(apiTokens.userId, ctx.user.id), eq(apiTokens.id, input.id)))
+        .returning({ id: apiTokens.id });
+      if (!row) {
+        throw new TRPCError({ code: "NOT_FOUND", message: `Token ${input.id} not found` });
+      }
+      return { id: row.id };
+    }),
+});
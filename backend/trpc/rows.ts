@@ -0,0 +1,84 @@
+import { getTableColumns, sql, type SQL } from "drizzle-orm";
+import type { AnyPgColumn, PgTable } from "drizzle-orm/pg-core";
+import * as z from "zod";
+
+// The owner and the sync bookkeeping (see db/schema.ts) never leave the API
+// as part of a record; the owner always comes from the session.
+const INTERNAL_COLUMNS = new Set(["userId", "rev", "seq", "txId", "fieldClocks", "deletedAt"]);
+
+/**
+ * Drizzle hands back `null` for empty columns while the app types model them
+ * as optional properties, so rows are normalised before leaving the API.
+ */
+export function fromRow<T>(row: object): T {
+  const record: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(row)) {
+    if (value !== null && !INTERNAL_COLUMNS.has(key)) record[key] = value;
+  }
+  return record as T;
+}
+
+/**
+ * The inverse for partial updates: a key sent as `undefined` means "clear
+ * this field", which Drizzle only writes when it is `null`.
+ */
+export function toPatch<TInsert extends object>(updates: object): Partial<TInsert> {
+  const patch: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(updates)) {
+    patch[key] = value === undefined ? null : value;
+  }
+  return patch as Partial<TInsert>;
+}
+
+/**
+ * The `updates` schema of a partial update: any field may be left out, but
+ * only optional ones may be cleared, since toPatch writes a cleared field as
+ * NULL.
+ */
+export function patchSchema<Shape extends z.ZodRawShape>(schema: z.ZodObject<Shape>) {
+  const required = Object.keys(schema.shape).filter(key => !z.safeParse(schema.shape[key], undefined).success);
+  return schema.partial().superRefine((updates, ctx) => {
+    required.forEach(key => {
+      if (key in updates && (updates as Record<string, unknown>)[key] === undefined) {
+        ctx.addIssue({ code: "custom", path: [key], message: `${key} cannot be cleared` });
+      }
+    });
+  });
+}
+
+/**
+ * Like toPatch, but for replacing a whole record: every data column the
+ * record leaves out is cleared.
+ */
+export function toRow<TInsert extends object>(table: PgTable, record: object): TInsert {
+  const values: Record<string, unknown> = {};
+  for (const key of Object.keys(getTableColumns(table))) {
+    if (INTERNAL_COLUMNS.has(key)) continue;
+    values[key] = (record as Record<string, unknown>)[key] ?? null;
+  }
+  return values as TInsert;
+}
+
+/**
+ * Columns to set alongside any write so that devices pulling changes see it.
+ * `fields` names the data columns being written, whose clocks move to the new
+ * revision so a concurrent edit from a device is detected as a conflict.
+ */
+export function bumpRevision(
+  table: { rev: AnyPgColumn; fieldClocks: AnyPgColumn },
+  fields: string[] = [],
+): { rev: SQL; seq: SQL; txId: SQL; fieldClocks?: SQL } {
+  const revision = {
+    rev: sql`${table.rev} + 1`,
+    seq: sql`nextval('sync_seq')`,
+    txId: sql`pg_current_xact_id()::text::bigint`,
+  };
+  if (fields.length === 0) return revision;
+
+  const at = new Date().toISOString();
+  const clocks = fields.map(field => sql`${field}::text, jsonb_build_object('at', ${at}::text, 'rev', ${table.rev} + 1)`);
+  return {
+    ...revision,
+    fieldClocks: sql`${table.fieldClocks} || jsonb_build_object(${sql.join(clocks, sql`, `)})`,
+  };
+}
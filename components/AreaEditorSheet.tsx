@@ -0,0 +1,294 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal, Pressable, ScrollView, TextInput, Platform } from 'react-native';
+import { Trash2, X, ChevronLeft, CircleSlash } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import AreaIcon, { AREA_ICONS } from '@/components/AreaIcon';
+import Colors from '@/constants/colors';
+import { Area } from '@/types/task';
+
+interface AreaEditorSheetProps {
+  visible: boolean;
+  /** Null to create a new area. */
+  area: Area | null;
+  areas: Area[];
+  projectCount: number;
+  goalCount: number;
+  onClose: () => void;
+  onSave: (values: Pick<Area, 'title' | 'description' | 'icon'>) => void;
+  /** Where the area's projects and goals go; undefined leaves them without one. */
+  onDelete: (moveToAreaId?: string) => void;
+}
+
+function plural(count: number, word: string) {
+  return `${count} ${count === 1 ? word : `${word}s`}`;
+}
+
+export default function AreaEditorSheet({ visible, area, areas, projectCount, goalCount, onClose, onSave, onDelete }: AreaEditorSheetProps) {
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [icon, setIcon] = useState('Layers');
+  const [choosingTarget, setChoosingTarget] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    setTitle(area?.title ?? '');
+    setDescription(area?.description ?? '');
+    setIcon(area?.icon ?? 'Layers');
+    setChoosingTarget(false);
+  }, [visible, area]);
+
+  const duplicate = areas.find(a => a.id !== area?.id && a.title.toLowerCase() === title.trim().toLowerCase());
+  const canSave = !!title.trim() && !duplicate;
+  const targets = areas.filter(a => a.id !== area?.id);
+  const hasContents = projectCount + goalCount > 0;
+  const contents = [projectCount > 0 && plural(projectCount, 'project'), goalCount > 0 && plural(goalCount, 'goal')]
+    .filter(Boolean)
+    .join(' and ');
+
+  const handleSave = () => {
+    if (!canSave) return;
+    if (Platform.OS !== 'web') {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+    onSave({ title: title.trim(), description: description.trim() || undefined, icon });
+    onClose();
+  };
+
+  const handleDelete = (moveToAreaId?: string) => {
+    if (Platform.OS !== 'web') {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+    }
+    onDelete(moveToAreaId);
+    onClose();
+  };
+
+  if (!visible) return null;
+
+  return (
+    <Modal visible transparent animationType="fade" onRequestClose={onClose}>
+      <Pressable style={styles.overlay} onPress={onClose}>
+        <Pressable style={styles.sheet} onPress={(e) => e.stopPropagation()}>
+          <View style={styles.header}>
+            {choosingTarget && (
+              <TouchableOpacity onPress={() => setChoosingTarget(false)} style={styles.backButton}>
+                <ChevronLeft size={20} color={Colors.textMuted} />
+              </TouchableOpacity>
+            )}
+            <Text style={styles.title} numberOfLines={1}>
+              {choosingTarget ? `Delete ${area?.title}` : area ? area.title : 'New Area'}
+            </Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <X size={20} color={Colors.textMuted} />
+            </TouchableOpacity>
+          </View>
+
+          {choosingTarget ? (
+            <>
+              <Text style={styles.description}>Its {contents} move to the area you pick.</Text>
+              <ScrollView style={styles.targets}>
+                {targets.map((target) => (
+                  <TouchableOpacity key={target.id} style={styles.actionItem} onPress={() => handleDelete(target.id)}>
+                    <View style={[styles.actionIcon, { backgroundColor: Colors.surfaceLight }]}>
+                      <AreaIcon name={target.icon} size={18} color={Colors.text} />
+                    </View>
+                    <Text style={styles.actionLabel}>{target.title}</Text>
+                  </TouchableOpacity>
+                ))}
+                <TouchableOpacity style={styles.actionItem} onPress={() => handleDelete()}>
+                  <View style={[styles.actionIcon, { backgroundColor: Colors.surfaceLight }]}>
+                    <CircleSlash size={18} color={Colors.textMuted} />
+                  </View>
+                  <Text style={styles.actionLabel}>No area</Text>
+                </TouchableOpacity>
+              </ScrollView>
+            </>
+          ) : (
+            <ScrollView showsVerticalScrollIndicator={false}>
+              <Text style={styles.label}>Name</Text>
+              <TextInput
+                style={styles.input}
+                value={title}
+                onChangeText={setTitle}
+                placeholder="Family"
+                placeholderTextColor={Colors.textMuted}
+                autoFocus={!area}
+              />
+              {duplicate && <Text style={styles.error}>{duplicate.title} already exists</Text>}
+
+              <Text style={styles.label}>Standard to maintain</Text>
+              <TextInput
+                style={[styles.input, styles.textArea]}
+                value={description}
+                onChangeText={setDescription}
+                placeholder="What keeping this area in order means (optional)"
+                placeholderTextColor={Colors.textMuted}
+                multiline
+              />
+
+              <Text style={styles.label}>Icon</Text>
+              <View style={styles.grid}>
+                {Object.keys(AREA_ICONS).map((iconName) => (
+                  <TouchableOpacity
+                    key={iconName}
+                    style={[styles.iconOption, icon === iconName && styles.iconSelected]}
+                    onPress={() => setIcon(iconName)}
+                  >
+                    <AreaIcon name={iconName} size={18} color={icon === iconName ? Colors.highlight : Colors.textSecondary} />
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <TouchableOpacity
+                style={[styles.saveButton, !canSave && styles.saveButtonDisabled]}
+                onPress={handleSave}
+                disabled={!canSave}
+              >
+                <Text style={styles.saveText}>{area ? 'Save' : 'Add Area'}</Text>
+              </TouchableOpacity>
+
+              {area && (
+                <TouchableOpacity
+                  style={styles.deleteItem}
+                  onPress={() => (hasContents && targets.length > 0 ? setChoosingTarget(true) : handleDelete())}
+                >
+                  <View style={[styles.actionIcon, { backgroundColor: `${Colors.error}20` }]}>
+                    <Trash2 size={18} color={Colors.error} />
+                  </View>
+                  <Text style={[styles.actionLabel, { color: Colors.error }]}>Delete Area</Text>
+                </TouchableOpacity>
+              )}
+            </ScrollView>
+          )}
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: Colors.surface,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    padding: 20,
+    paddingBottom: 40,
+    maxHeight: '85%',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  backButton: {
+    padding: 2,
+    marginRight: 8,
+  },
+  title: {
+    flex: 1,
+    fontSize: 17,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  closeButton: {
+    padding: 4,
+    marginLeft: 12,
+  },
+  description: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    lineHeight: 20,
+    marginBottom: 8,
+  },
+  targets: {
+    maxHeight: 320,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: Colors.textSecondary,
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: Colors.surfaceLight,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: Colors.text,
+  },
+  textArea: {
+    minHeight: 72,
+    textAlignVertical: 'top',
+  },
+  error: {
+    fontSize: 12,
+    color: Colors.highlight,
+    marginTop: 6,
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 10,
+  },
+  iconOption: {
+    width: 40,
+    height: 40,
+    borderRadius: 10,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: Colors.surfaceLight,
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  iconSelected: {
+    borderColor: Colors.highlight,
+    backgroundColor: `${Colors.highlight}20`,
+  },
+  saveButton: {
+    marginTop: 20,
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+    backgroundColor: Colors.highlight,
+  },
+  saveButtonDisabled: {
+    opacity: 0.4,
+  },
+  saveText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  actionItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    gap: 14,
+  },
+  deleteItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    marginTop: 12,
+    gap: 14,
+  },
+  actionIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 10,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  actionLabel: {
+    flex: 1,
+    fontSize: 16,
+    color: Colors.text,
+    fontWeight: '500',
+  },
+});
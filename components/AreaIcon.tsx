@@ -0,0 +1,23 @@
+import React from 'react';
+import {
+  Briefcase, User, Heart, DollarSign, Home, Users, BookOpen, GraduationCap, Palette, Dumbbell,
+  Plane, Sprout, Wrench, Music, Baby, PawPrint, Layers, LucideIcon,
+} from 'lucide-react-native';
+
+/** The icons an area can have, by the name stored in Area.icon. */
+export const AREA_ICONS: Record<string, LucideIcon> = {
+  Briefcase, User, Heart, DollarSign, Home, Users, BookOpen, GraduationCap, Palette, Dumbbell,
+  Plane, Sprout, Wrench, Music, Baby, PawPrint, Layers,
+};
+
+interface AreaIconProps {
+  name: string;
+  size?: number;
+  color: string;
+}
+
+/** Falls back to stacked layers for names this build does not know. */
+export default function AreaIcon({ name, size = 16, color }: AreaIconProps) {
+  const Icon = AREA_ICONS[name] ?? Layers;
+  return <Icon size={size} color={color} />;
+}
@@ -0,0 +1,104 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal, Pressable, ScrollView } from 'react-native';
+import { Check, CircleSlash, X } from 'lucide-react-native';
+import AreaIcon from '@/components/AreaIcon';
+import Colors from '@/constants/colors';
+import { Area } from '@/types/task';
+
+interface AreaPickerSheetProps {
+  /** What is being moved, for the title; null hides the sheet. */
+  title: string | null;
+  areas: Area[];
+  selectedAreaId?: string;
+  onClose: () => void;
+  onSelect: (areaId?: string) => void;
+}
+
+export default function AreaPickerSheet({ title, areas, selectedAreaId, onClose, onSelect }: AreaPickerSheetProps) {
+  if (title === null) return null;
+
+  const renderOption = (areaId: string | undefined, label: string, icon: React.ReactNode) => (
+    <TouchableOpacity
+      key={areaId ?? 'none'}
+      style={styles.option}
+      onPress={() => {
+        onSelect(areaId);
+        onClose();
+      }}
+    >
+      <View style={styles.optionIcon}>{icon}</View>
+      <Text style={styles.optionLabel}>{label}</Text>
+      {selectedAreaId === areaId && <Check size={18} color={Colors.highlight} />}
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal visible transparent animationType="fade" onRequestClose={onClose}>
+      <Pressable style={styles.overlay} onPress={onClose}>
+        <Pressable style={styles.sheet} onPress={(e) => e.stopPropagation()}>
+          <View style={styles.header}>
+            <Text style={styles.title} numberOfLines={1}>Move &quot;{title}&quot; to</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <X size={20} color={Colors.textMuted} />
+            </TouchableOpacity>
+          </View>
+          <ScrollView>
+            {areas.map(area => renderOption(area.id, area.title, <AreaIcon name={area.icon} size={18} color={Colors.text} />))}
+            {renderOption(undefined, 'No area', <CircleSlash size={18} color={Colors.textMuted} />)}
+          </ScrollView>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: Colors.surface,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    padding: 20,
+    paddingBottom: 40,
+    maxHeight: '70%',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  title: {
+    flex: 1,
+    fontSize: 17,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  closeButton: {
+    padding: 4,
+    marginLeft: 12,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    gap: 14,
+  },
+  optionIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 10,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: Colors.surfaceLight,
+  },
+  optionLabel: {
+    flex: 1,
+    fontSize: 16,
+    color: Colors.text,
+    fontWeight: '500',
+  },
+});
@@ -0,0 +1,309 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal, Pressable, ScrollView, TextInput, Platform } from 'react-native';
+import { Archive, ArchiveRestore, GitMerge, X, ChevronLeft } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import ContextIcon, { CONTEXT_ICONS } from '@/components/ContextIcon';
+import Colors from '@/constants/colors';
+import { Context, PROJECT_COLORS } from '@/types/task';
+import { activeContexts, contextNameError, normalizeContextName } from '@/utils/contexts';
+
+interface ContextEditorSheetProps {
+  visible: boolean;
+  /** Null to create a new context. */
+  context: Context | null;
+  contexts: Context[];
+  /** Tasks with this context, archived ones included once loaded. */
+  taskCount: number;
+  onClose: () => void;
+  onSave: (values: Pick<Context, 'name' | 'icon' | 'color'>) => void;
+  onArchive: (archived: boolean) => void;
+  onMerge: (intoId: string) => void;
+}
+
+export default function ContextEditorSheet({ visible, context, contexts, taskCount, onClose, onSave, onArchive, onMerge }: ContextEditorSheetProps) {
+  const [name, setName] = useState('');
+  const [icon, setIcon] = useState('AtSign');
+  const [color, setColor] = useState(PROJECT_COLORS[0]);
+  const [choosingTarget, setChoosingTarget] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    setName(context?.name ?? '');
+    setIcon(context?.icon ?? 'AtSign');
+    setColor(context?.color ?? PROJECT_COLORS[contexts.length % PROJECT_COLORS.length]);
+    setChoosingTarget(false);
+  }, [visible, context, contexts.length]);
+
+  const error = name ? contextNameError(name, contexts, context?.id) : undefined;
+  const targets = activeContexts(contexts).filter(c => c.id !== context?.id);
+  const taskLabel = `${taskCount} ${taskCount === 1 ? 'task' : 'tasks'}`;
+
+  const handleSave = () => {
+    if (!name.trim() || error) return;
+    if (Platform.OS !== 'web') {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+    onSave({ name: normalizeContextName(name), icon, color });
+    onClose();
+  };
+
+  const handleMerge = (intoId: string) => {
+    if (Platform.OS !== 'web') {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+    }
+    onMerge(intoId);
+    onClose();
+  };
+
+  if (!visible) return null;
+
+  return (
+    <Modal visible transparent animationType="fade" onRequestClose={onClose}>
+      <Pressable style={styles.overlay} onPress={onClose}>
+        <Pressable style={styles.sheet} onPress={(e) => e.stopPropagation()}>
+          <View style={styles.header}>
+            {choosingTarget && (
+              <TouchableOpacity onPress={() => setChoosingTarget(false)} style={styles.backButton}>
+                <ChevronLeft size={20} color={Colors.textMuted} />
+              </TouchableOpacity>
+            )}
+            <Text style={styles.title} numberOfLines={1}>
+              {choosingTarget ? `Merge @${context?.name} into` : context ? `@${context.name}` : 'New Context'}
+            </Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <X size={20} color={Colors.textMuted} />
+            </TouchableOpacity>
+          </View>
+
+          {choosingTarget ? (
+            <>
+              <Text style={styles.description}>
+                Its {taskLabel} move to the context you pick, and @{context?.name} is deleted.
+              </Text>
+              <ScrollView style={styles.targets}>
+                {targets.map((target) => (
+                  <TouchableOpacity key={target.id} style={styles.actionItem} onPress={() => handleMerge(target.id)}>
+                    <View style={[styles.actionIcon, { backgroundColor: `${target.color}20` }]}>
+                      <ContextIcon name={target.icon} color={target.color} />
+                    </View>
+                    <Text style={styles.actionLabel}>@{target.name}</Text>
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+            </>
+          ) : (
+            <ScrollView showsVerticalScrollIndicator={false}>
+              <Text style={styles.label}>Name</Text>
+              <View style={styles.nameRow}>
+                <Text style={styles.at}>@</Text>
+                <TextInput
+                  style={styles.nameInput}
+                  value={name}
+                  onChangeText={setName}
+                  placeholder="garage"
+                  placeholderTextColor={Colors.textMuted}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  autoFocus={!context}
+                  onSubmitEditing={handleSave}
+                />
+              </View>
+              {error && <Text style={styles.error}>{error}</Text>}
+
+              <Text style={styles.label}>Icon</Text>
+              <View style={styles.grid}>
+                {Object.keys(CONTEXT_ICONS).map((iconName) => (
+                  <TouchableOpacity
+                    key={iconName}
+                    style={[styles.iconOption, icon === iconName && { borderColor: color, backgroundColor: `${color}20` }]}
+                    onPress={() => setIcon(iconName)}
+                  >
+                    <ContextIcon name={iconName} size={18} color={icon === iconName ? color : Colors.textSecondary} />
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <Text style={styles.label}>Color</Text>
+              <View style={styles.grid}>
+                {PROJECT_COLORS.map((option) => (
+                  <TouchableOpacity
+                    key={option}
+                    style={[styles.colorOption, { backgroundColor: option }, color === option && styles.colorSelected]}
+                    onPress={() => setColor(option)}
+                  />
+                ))}
+              </View>
+
+              <TouchableOpacity
+                style={[styles.saveButton, { backgroundColor: color }, (!name.trim() || !!error) && styles.saveButtonDisabled]}
+                onPress={handleSave}
+                disabled={!name.trim() || !!error}
+              >
+                <Text style={styles.saveText}>{context ? 'Save' : 'Add Context'}</Text>
+              </TouchableOpacity>
+
+              {context && (
+                <View style={styles.manage}>
+                  {!context.archivedAt && targets.length > 0 && (
+                    <TouchableOpacity style={styles.actionItem} onPress={() => setChoosingTarget(true)}>
+                      <View style={[styles.actionIcon, { backgroundColor: Colors.surfaceLight }]}>
+                        <GitMerge size={18} color={Colors.text} />
+                      </View>
+                      <Text style={styles.actionLabel}>Merge into another context</Text>
+                    </TouchableOpacity>
+                  )}
+                  <TouchableOpacity
+                    style={styles.actionItem}
+                    onPress={() => {
+                      onArchive(!context.archivedAt);
+                      onClose();
+                    }}
+                  >
+                    <View style={[styles.actionIcon, { backgroundColor: Colors.surfaceLight }]}>
+                      {context.archivedAt ? <ArchiveRestore size={18} color={Colors.text} /> : <Archive size={18} color={Colors.text} />}
+                    </View>
+                    <Text style={styles.actionLabel}>{context.archivedAt ? 'Unarchive' : 'Archive'}</Text>
+                  </TouchableOpacity>
+                </View>
+              )}
+            </ScrollView>
+          )}
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: Colors.surface,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    padding: 20,
+    paddingBottom: 40,
+    maxHeight: '85%',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  backButton: {
+    padding: 2,
+    marginRight: 8,
+  },
+  title: {
+    flex: 1,
+    fontSize: 17,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  closeButton: {
+    padding: 4,
+    marginLeft: 12,
+  },
+  description: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    lineHeight: 20,
+    marginBottom: 8,
+  },
+  targets: {
+    maxHeight: 320,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: Colors.textSecondary,
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  nameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: Colors.surfaceLight,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+  },
+  at: {
+    fontSize: 16,
+    color: Colors.textMuted,
+    marginRight: 2,
+  },
+  nameInput: {
+    flex: 1,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: Colors.text,
+  },
+  error: {
+    fontSize: 12,
+    color: Colors.highlight,
+    marginTop: 6,
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 10,
+  },
+  iconOption: {
+    width: 40,
+    height: 40,
+    borderRadius: 10,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: Colors.surfaceLight,
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  colorOption: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+  },
+  colorSelected: {
+    borderWidth: 3,
+    borderColor: Colors.text,
+  },
+  saveButton: {
+    marginTop: 20,
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+  },
+  saveButtonDisabled: {
+    opacity: 0.4,
+  },
+  saveText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.background,
+  },
+  manage: {
+    marginTop: 12,
+  },
+  actionItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    gap: 14,
+  },
+  actionIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 10,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  actionLabel: {
+    flex: 1,
+    fontSize: 16,
+    color: Colors.text,
+    fontWeight: '500',
+  },
+});
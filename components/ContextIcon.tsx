@@ -0,0 +1,23 @@
+import React from 'react';
+import {
+  Home, Briefcase, Monitor, Smartphone, ShoppingCart, Globe, Car, Coffee, Users, Phone, Mail,
+  BookOpen, Wrench, Dumbbell, Plane, Building, Laptop, Headphones, AtSign, LucideIcon,
+} from 'lucide-react-native';
+
+/** The icons a context can have, by the name stored in Context.icon. */
+export const CONTEXT_ICONS: Record<string, LucideIcon> = {
+  Home, Briefcase, Monitor, Smartphone, ShoppingCart, Globe, Car, Coffee, Users, Phone, Mail,
+  BookOpen, Wrench, Dumbbell, Plane, Building, Laptop, Headphones, AtSign,
+};
+
+interface ContextIconProps {
+  name: string;
+  size?: number;
+  color: string;
+}
+
+/** Falls back to an @ for names this build does not know. */
+export default function ContextIcon({ name, size = 16, color }: ContextIconProps) {
+  const Icon = CONTEXT_ICONS[name] ?? AtSign;
+  return <Icon size={size} color={color} />;
+}
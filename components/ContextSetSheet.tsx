@@ -0,0 +1,225 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal, Pressable, ScrollView, TextInput, Platform } from 'react-native';
+import { Trash2, X } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import ContextIcon from '@/components/ContextIcon';
+import Colors from '@/constants/colors';
+import { Context, ContextSet } from '@/types/task';
+import { activeContexts } from '@/utils/contexts';
+
+interface ContextSetSheetProps {
+  visible: boolean;
+  /** Null to create a new set. */
+  set: ContextSet | null;
+  contexts: Context[];
+  onClose: () => void;
+  onSave: (values: Pick<ContextSet, 'name' | 'contextIds'>) => void;
+  onDelete: () => void;
+}
+
+export default function ContextSetSheet({ visible, set, contexts, onClose, onSave, onDelete }: ContextSetSheetProps) {
+  const [name, setName] = useState('');
+  const [contextIds, setContextIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (!visible) return;
+    setName(set?.name ?? '');
+    setContextIds(set?.contextIds ?? []);
+  }, [visible, set]);
+
+  // Archived contexts already in the set stay listed so they can be taken out.
+  const choices = [
+    ...activeContexts(contexts),
+    ...contexts.filter(c => c.archivedAt && contextIds.includes(c.id)),
+  ];
+  const canSave = !!name.trim() && contextIds.length > 0;
+
+  const toggle = (id: string) => {
+    setContextIds(ids => ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id]);
+  };
+
+  const handleSave = () => {
+    if (!canSave) return;
+    if (Platform.OS !== 'web') {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+    onSave({ name: name.trim(), contextIds });
+    onClose();
+  };
+
+  if (!visible) return null;
+
+  return (
+    <Modal visible transparent animationType="fade" onRequestClose={onClose}>
+      <Pressable style={styles.overlay} onPress={onClose}>
+        <Pressable style={styles.sheet} onPress={(e) => e.stopPropagation()}>
+          <View style={styles.header}>
+            <Text style={styles.title} numberOfLines={1}>{set ? set.name : 'New Context Set'}</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <X size={20} color={Colors.textMuted} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView showsVerticalScrollIndicator={false}>
+            <Text style={styles.label}>Name</Text>
+            <TextInput
+              style={styles.nameInput}
+              value={name}
+              onChangeText={setName}
+              placeholder="At office"
+              placeholderTextColor={Colors.textMuted}
+              autoFocus={!set}
+            />
+
+            <Text style={styles.label}>Contexts</Text>
+            <Text style={styles.hint}>Filtering by the set shows tasks with any of these.</Text>
+            <View style={styles.chips}>
+              {choices.map((ctx) => {
+                const selected = contextIds.includes(ctx.id);
+                return (
+                  <TouchableOpacity
+                    key={ctx.id}
+                    style={[styles.chip, selected && { borderColor: ctx.color, backgroundColor: `${ctx.color}20` }]}
+                    onPress={() => toggle(ctx.id)}
+                  >
+                    <ContextIcon name={ctx.icon} size={14} color={selected ? ctx.color : Colors.textMuted} />
+                    <Text style={[styles.chipText, selected && { color: ctx.color }]}>@{ctx.name}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            <TouchableOpacity
+              style={[styles.saveButton, !canSave && styles.saveButtonDisabled]}
+              onPress={handleSave}
+              disabled={!canSave}
+            >
+              <Text style={styles.saveText}>{set ? 'Save' : 'Add Set'}</Text>
+            </TouchableOpacity>
+
+            {set && (
+              <TouchableOpacity
+                style={styles.actionItem}
+                onPress={() => {
+                  onDelete();
+                  onClose();
+                }}
+              >
+                <View style={[styles.actionIcon, { backgroundColor: `${Colors.error}20` }]}>
+                  <Trash2 size={18} color={Colors.error} />
+                </View>
+                <Text style={[styles.actionLabel, { color: Colors.error }]}>Delete Set</Text>
+              </TouchableOpacity>
+            )}
+          </ScrollView>
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: Colors.surface,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    padding: 20,
+    paddingBottom: 40,
+    maxHeight: '85%',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  title: {
+    flex: 1,
+    fontSize: 17,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  closeButton: {
+    padding: 4,
+    marginLeft: 12,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: Colors.textSecondary,
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  hint: {
+    fontSize: 12,
+    color: Colors.textMuted,
+    marginTop: -4,
+    marginBottom: 8,
+  },
+  nameInput: {
+    backgroundColor: Colors.surfaceLight,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: Colors.text,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: Colors.surfaceLight,
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  chipText: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+  },
+  saveButton: {
+    marginTop: 20,
+    paddingVertical: 14,
+    borderRadius: 12,
+    alignItems: 'center',
+    backgroundColor: Colors.highlight,
+  },
+  saveButtonDisabled: {
+    opacity: 0.4,
+  },
+  saveText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: Colors.text,
+  },
+  actionItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    marginTop: 12,
+    gap: 14,
+  },
+  actionIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 10,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  actionLabel: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '500',
+  },
+});
@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal, Pressable, ScrollView, Platform } from 'react-native';
+import { Trash2, Unlink, FolderInput, X, ChevronLeft } from 'lucide-react-native';
+import { Project, ProjectTasksAction, TRASH_RETENTION_DAYS } from '@/types/task';
+import Colors from '@/constants/colors';
+import * as Haptics from 'expo-haptics';
+
+interface DeleteProjectSheetProps {
+  project: Project | null;
+  taskCount: number;
+  /** Where the project's tasks can be moved instead. */
+  otherProjects: Project[];
+  onClose: () => void;
+  onDelete: (tasksAction: ProjectTasksAction) => void;
+}
+
+export default function DeleteProjectSheet({ project, taskCount, otherProjects, onClose, onDelete }: DeleteProjectSheetProps) {
+  const [choosingTarget, setChoosingTarget] = useState(false);
+
+  const handleClose = () => {
+    setChoosingTarget(false);
+    onClose();
+  };
+
+  const handleDelete = (tasksAction: ProjectTasksAction) => {
+    if (Platform.OS !== 'web') {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
+    }
+    onDelete(tasksAction);
+    handleClose();
+  };
+
+  if (!project) return null;
+
+  const taskLabel = `${taskCount} ${taskCount === 1 ? 'task' : 'tasks'}`;
+
+  return (
+    <Modal visible transparent animationType="fade" onRequestClose={handleClose}>
+      <Pressable style={styles.overlay} onPress={handleClose}>
+        <Pressable style={styles.sheet} onPress={(e) => e.stopPropagation()}>
+          <View style={styles.header}>
+            {choosingTarget && (
+              <TouchableOpacity onPress={() => setChoosingTarget(false)} style={styles.backButton}>
+                <ChevronLeft size={20} color={Colors.textMuted} />
+              </TouchableOpacity>
+            )}
+            <Text style={styles.title} numberOfLines={2}>
+              {choosingTarget ? `Move ${taskLabel} to` : `Delete "${project.title}"?`}
+            </Text>
+            <TouchableOpacity onPress={handleClose} style={styles.closeButton}>
+              <X size={20} color={Colors.textMuted} />
+            </TouchableOpacity>
+          </View>
+
+          {choosingTarget ? (
+            <ScrollView style={styles.targets}>
+              {otherProjects.map((target) => (
+                <TouchableOpacity
+                  key={target.id}
+                  style={styles.actionItem}
+                  onPress={() => handleDelete({ action: 'move', projectId: target.id })}
+                >
+                  <View style={[styles.projectColor, { backgroundColor: target.color }]} />
+                  <Text style={styles.actionLabel} numberOfLines={1}>{target.title}</Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          ) : (
+            <>
+              <Text style={styles.description}>
+                The project goes to the Trash, where it can be restored for {TRASH_RETENTION_DAYS} days.
+                {taskCount > 0 ? ` What should happen to its ${taskLabel}?` : ''}
+              </Text>
+
+              {taskCount > 0 && (
+                <>
+                  <TouchableOpacity style={styles.actionItem} onPress={() => handleDelete({ action: 'trash' })}>
+                    <View style={[styles.actionIcon, { backgroundColor: `${Colors.highlight}20` }]}>
+                      <Trash2 size={18} color={Colors.highlight} />
+                    </View>
+                    <Text style={[styles.actionLabel, { color: Colors.highlight }]}>Move them to Trash too</Text>
+                  </TouchableOpacity>
+
+                  {otherProjects.length > 0 && (
+                    <TouchableOpacity style={styles.actionItem} onPress={() => setChoosingTarget(true)}>
+                      <View style={[styles.actionIcon, { backgroundColor: `${Colors.project}20` }]}>
+                        <FolderInput size={18} color={Colors.project} />
+                      </View>
+                      <Text style={styles.actionLabel}>Move them to another project</Text>
+                    </TouchableOpacity>
+                  )}
+                </>
+              )}
+
+              <TouchableOpacity style={styles.actionItem} onPress={() => handleDelete({ action: 'detach' })}>
+                <View style={[styles.actionIcon, { backgroundColor: Colors.surfaceLight }]}>
+                  {taskCount > 0 ? <Unlink size={18} color={Colors.text} /> : <Trash2 size={18} color={Colors.text} />}
+                </View>
+                <Text style={styles.actionLabel}>{taskCount > 0 ? 'Keep them without a project' : 'Move to Trash'}</Text>
+              </TouchableOpacity>
+            </>
+          )}
+        </Pressable>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: Colors.surface,
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    padding: 20,
+    paddingBottom: 40,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginBottom: 12,
+  },
+  backButton: {
+    padding: 2,
+    marginRight: 8,
+  },
+  title: {
+    flex: 1,
+    fontSize: 17,
+    fontWeight: '600',
+    color: Colors.text,
+    lineHeight: 22,
+  },
+  closeButton: {
+    padding: 4,
+    marginLeft: 12,
+  },
+  description: {
+    fontSize: 14,
+    color: Colors.textSecondary,
+    lineHeight: 20,
+    marginBottom: 8,
+  },
+  targets: {
+    maxHeight: 320,
+  },
+  actionItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    gap: 14,
+  },
+  actionIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 10,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  projectColor: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+  },
+  actionLabel: {
+    flex: 1,
+    fontSize: 16,
+    color: Colors.text,
+    fontWeight: '500',
+  },
+});
@@ -1,10 +1,15 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { View, Text, StyleSheet, TextInput, TouchableOpacity, Modal, ScrollView, Pressable, Platform } from 'react-native';
-import { X, Calendar, Flag, Hash, User, FolderOpen } from 'lucide-react-native';
-import { Task, Priority, Context, CONTEXTS, PRIORITIES } from '@/types/task';
+import { X, Calendar, CalendarClock, Flag, Hash, User, FolderOpen, Repeat, Lock, ListChecks, Square, CheckSquare } from 'lucide-react-native';
+import { Task, Priority, PRIORITIES, ChecklistItem } from '@/types/task';
 import { Project } from '@/types/task';
 import Colors from '@/constants/colors';
+import { useTasks } from '@/contexts/TaskContext';
 import * as Haptics from 'expo-haptics';
+import { activeContexts } from '@/utils/contexts';
+import { wouldCreateCycle } from '@/utils/dependencies';
+import { generateId } from '@/utils/helpers';
+import { describeRecurrence, formatRecurrence, parseRecurrence } from '@/utils/recurrence';
 
 interface EditTaskModalProps {
   visible: boolean;
@@ -18,25 +23,76 @@ export default function EditTaskModal({ visible, task, projects, onClose, onSave
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
   const [priority, setPriority] = useState<Priority | undefined>();
-  const [context, setContext] = useState<Context | undefined>();
+  const [taskContexts, setTaskContexts] = useState<string[]>([]);
   const [projectId, setProjectId] = useState<string | undefined>();
   const [dueDate, setDueDate] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [waitUntil, setWaitUntil] = useState('');
   const [waitingFor, setWaitingFor] = useState('');
   const [tags, setTags] = useState('');
+  const [checklist, setChecklist] = useState<ChecklistItem[]>([]);
+  const [newItem, setNewItem] = useState('');
+  const [dependsOn, setDependsOn] = useState<string[]>([]);
+  const [dependencyQuery, setDependencyQuery] = useState('');
+  const [repeat, setRepeat] = useState('');
+  const [until, setUntil] = useState('');
 
   useEffect(() => {
     if (task) {
       setTitle(task.title);
       setDescription(task.description || '');
       setPriority(task.priority);
-      setContext(task.context);
+      setTaskContexts(task.contexts ?? []);
       setProjectId(task.projectId);
       setDueDate(task.dueDate ? task.dueDate.split('T')[0] : '');
+      setStartDate(task.startDate ?? '');
+      setWaitUntil(task.waitUntil ?? '');
       setWaitingFor(task.waitingFor || '');
       setTags(task.tags.join(', '));
+      setChecklist(task.checklist ?? []);
+      setNewItem('');
+      setDependsOn(task.dependsOn ?? []);
+      setDependencyQuery('');
+      setRepeat(task.recurrence ? formatRecurrence(task.recurrence) : '');
+      setUntil(task.recurrence?.until ?? '');
     }
   }, [task]);
 
+  const { tasks, contexts } = useTasks();
+  // Archived contexts stay listed while the task still has them.
+  const contextChoices = useMemo(() => [
+    ...activeContexts(contexts),
+    ...contexts.filter(c => c.archivedAt && task?.contexts?.includes(c.id)),
+  ], [contexts, task]);
+  const blockers = useMemo(() => dependsOn
+    .map(id => tasks.find(t => t.id === id))
+    .filter((t): t is Task => !!t), [dependsOn, tasks]);
+  // Open tasks matching the search that can be added without a loop.
+  const candidates = useMemo(() => {
+    const query = dependencyQuery.trim().toLowerCase();
+    if (!task || !query) return [];
+    return tasks
+      .filter(t => t.status !== 'done' && !dependsOn.includes(t.id) && t.title.toLowerCase().includes(query))
+      .filter(t => !wouldCreateCycle(tasks, task.id, t.id))
+      .slice(0, 5);
+  }, [dependencyQuery, dependsOn, tasks, task]);
+
+  const addChecklistItem = () => {
+    if (!newItem.trim()) return;
+    setChecklist([...checklist, { id: generateId(), title: newItem.trim(), done: false }]);
+    setNewItem('');
+  };
+
+  const toDay = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value.trim()) ? value.trim() : undefined;
+  const validUntil = toDay(until);
+  const recurrence = repeat.trim() ? parseRecurrence(repeat, validUntil) : undefined;
+  // The rule as the fields first showed it; saving it unchanged keeps details
+  // the text does not carry, such as the day of the month it repeats on.
+  const repeatUnchanged = !!task?.recurrence
+    && repeat.trim() === formatRecurrence(task.recurrence)
+    && until.trim() === (task.recurrence.until ?? '');
+  const dueDateUnchanged = dueDate === (task?.dueDate ? task.dueDate.split('T')[0] : '');
+
   const handleSave = () => {
     if (Platform.OS !== 'web') {
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
@@ -45,11 +101,18 @@ export default function EditTaskModal({ visible, task, projects, onClose, onSave
       title: title.trim(),
       description: description.trim() || undefined,
       priority,
-      context,
+      contexts: taskContexts.length > 0 ? taskContexts : undefined,
       projectId,
-      dueDate: dueDate ? new Date(dueDate).toISOString() : undefined,
+      // An untouched due date keeps its time of day; an edited one is a plain day.
+      dueDate: dueDateUnchanged ? task?.dueDate : toDay(dueDate),
+      startDate: toDay(startDate),
+      waitUntil: toDay(waitUntil),
       waitingFor: waitingFor.trim() || undefined,
+      dependsOn: dependsOn.length > 0 ? dependsOn : undefined,
+      checklist: checklist.length > 0 ? checklist : undefined,
       tags: tags.split(',').map(t => t.trim()).filter(Boolean),
+      // A rule that does not parse leaves the old one in place.
+      recurrence: repeatUnchanged ? task?.recurrence : repeat.trim() ? recurrence ?? task?.recurrence : undefined,
     });
     onClose();
   };
@@ -92,6 +155,41 @@ export default function EditTaskModal({ visible, task, projects, onClose, onSave
               />
             </View>
 
+            <View style={styles.field}>
+              <View style={styles.labelRow}>
+                <ListChecks size={14} color={Colors.textMuted} />
+                <Text style={styles.label}>Checklist</Text>
+              </View>
+              {checklist.map((item) => (
+                <View key={item.id} style={styles.checklistItem}>
+                  <TouchableOpacity
+                    onPress={() => setChecklist(checklist.map(i => i.id === item.id ? { ...i, done: !i.done } : i))}
+                    hitSlop={8}
+                  >
+                    {item.done
+                      ? <CheckSquare size={18} color={Colors.success} />
+                      : <Square size={18} color={Colors.textMuted} />}
+                  </TouchableOpacity>
+                  <Text style={[styles.checklistTitle, item.done && styles.checklistTitleDone]} numberOfLines={2}>
+                    {item.title}
+                  </Text>
+                  <TouchableOpacity onPress={() => setChecklist(checklist.filter(i => i.id !== item.id))} hitSlop={8}>
+                    <X size={16} color={Colors.textMuted} />
+                  </TouchableOpacity>
+                </View>
+              ))}
+              <TextInput
+                style={styles.input}
+                value={newItem}
+                onChangeText={setNewItem}
+                onSubmitEditing={addChecklistItem}
+                blurOnSubmit={false}
+                returnKeyType="done"
+                placeholder="Add an item"
+                placeholderTextColor={Colors.textMuted}
+              />
+            </View>
+
             <View style={styles.field}>
               <View style={styles.labelRow}>
                 <Flag size={14} color={Colors.textMuted} />
@@ -119,17 +217,19 @@ export default function EditTaskModal({ visible, task, projects, onClose, onSave
             <View style={styles.field}>
               <View style={styles.labelRow}>
                 <Hash size={14} color={Colors.textMuted} />
-                <Text style={styles.label}>Context</Text>
+                <Text style={styles.label}>Contexts</Text>
               </View>
               <View style={styles.chips}>
-                {CONTEXTS.map((c) => (
+                {contextChoices.map((c) => (
                   <TouchableOpacity
-                    key={c.value}
-                    style={[styles.chip, context === c.value && styles.chipSelected]}
-                    onPress={() => setContext(context === c.value ? undefined : c.value)}
+                    key={c.id}
+                    style={[styles.chip, taskContexts.includes(c.id) && styles.chipSelected]}
+                    onPress={() => setTaskContexts(taskContexts.includes(c.id)
+                      ? taskContexts.filter(id => id !== c.id)
+                      : [...taskContexts, c.id])}
                   >
-                    <Text style={[styles.chipText, context === c.value && styles.chipTextSelected]}>
-                      {c.label}
+                    <Text style={[styles.chipText, taskContexts.includes(c.id) && styles.chipTextSelected]}>
+                      @{c.name}
                     </Text>
                   </TouchableOpacity>
                 ))}
@@ -177,6 +277,106 @@ export default function EditTaskModal({ visible, task, projects, onClose, onSave
               />
             </View>
 
+            <View style={styles.field}>
+              <View style={styles.labelRow}>
+                <CalendarClock size={14} color={Colors.textMuted} />
+                <Text style={styles.label}>Defer</Text>
+              </View>
+              <View style={styles.row}>
+                <TextInput
+                  style={[styles.input, styles.rowInput]}
+                  value={startDate}
+                  onChangeText={setStartDate}
+                  placeholder="Start YYYY-MM-DD"
+                  placeholderTextColor={Colors.textMuted}
+                />
+                <TextInput
+                  style={[styles.input, styles.rowInput]}
+                  value={waitUntil}
+                  onChangeText={setWaitUntil}
+                  placeholder="Hide until YYYY-MM-DD"
+                  placeholderTextColor={Colors.textMuted}
+                />
+              </View>
+            </View>
+
+            <View style={styles.field}>
+              <View style={styles.labelRow}>
+                <Repeat size={14} color={Colors.textMuted} />
+                <Text style={styles.label}>Repeat</Text>
+              </View>
+              <View style={styles.row}>
+                <TextInput
+                  style={[styles.input, styles.rowInput]}
+                  value={repeat}
+                  onChangeText={setRepeat}
+                  placeholder="weekly, 2w, mon,thu, ~3d"
+                  placeholderTextColor={Colors.textMuted}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                />
+                <TextInput
+                  style={[styles.input, styles.rowInput]}
+                  value={until}
+                  onChangeText={setUntil}
+                  placeholder="Until YYYY-MM-DD"
+                  placeholderTextColor={Colors.textMuted}
+                  editable={!!repeat.trim()}
+                />
+              </View>
+              {repeat.trim() !== '' && (
+                <Text style={[styles.hint, !recurrence && styles.hintError]}>
+                  {recurrence ? describeRecurrence(recurrence) : 'Not a repeat rule; ~ repeats after the task is done'}
+                </Text>
+              )}
+            </View>
+
+            <View style={styles.field}>
+              <View style={styles.labelRow}>
+                <Lock size={14} color={Colors.textMuted} />
+                <Text style={styles.label}>Depends On</Text>
+              </View>
+              {blockers.length > 0 && (
+                <View style={[styles.chips, styles.dependencyChips]}>
+                  {blockers.map((t) => (
+                    <TouchableOpacity
+                      key={t.id}
+                      style={[styles.chip, styles.chipSelected]}
+                      onPress={() => setDependsOn(dependsOn.filter(id => id !== t.id))}
+                    >
+                      <Text style={[styles.chipText, styles.chipTextSelected, t.status === 'done' && styles.chipTextDone]} numberOfLines={1}>
+                        {t.title}
+                      </Text>
+                      <X size={12} color={Colors.text} />
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
+              <TextInput
+                style={styles.input}
+                value={dependencyQuery}
+                onChangeText={setDependencyQuery}
+                placeholder="Search tasks that must be done first"
+                placeholderTextColor={Colors.textMuted}
+              />
+              {candidates.length > 0 && (
+                <View style={[styles.chips, styles.dependencyCandidates]}>
+                  {candidates.map((t) => (
+                    <TouchableOpacity
+                      key={t.id}
+                      style={styles.chip}
+                      onPress={() => {
+                        setDependsOn([...dependsOn, t.id]);
+                        setDependencyQuery('');
+                      }}
+                    >
+                      <Text style={styles.chipText} numberOfLines={1}>{t.title}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
+            </View>
+
             {task.status === 'waiting' && (
               <View style={styles.field}>
                 <View style={styles.labelRow}>
@@ -271,6 +471,21 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: Colors.border,
   },
+  row: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  rowInput: {
+    flex: 1,
+  },
+  hint: {
+    fontSize: 12,
+    color: Colors.textMuted,
+    marginTop: 6,
+  },
+  hintError: {
+    color: Colors.highlight,
+  },
   textArea: {
     minHeight: 80,
     textAlignVertical: 'top',
@@ -303,6 +518,30 @@ const styles = StyleSheet.create({
     color: Colors.text,
     fontWeight: '500',
   },
+  checklistItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginBottom: 10,
+  },
+  checklistTitle: {
+    flex: 1,
+    fontSize: 15,
+    color: Colors.text,
+  },
+  checklistTitleDone: {
+    color: Colors.textMuted,
+    textDecorationLine: 'line-through',
+  },
+  chipTextDone: {
+    textDecorationLine: 'line-through',
+  },
+  dependencyChips: {
+    marginBottom: 8,
+  },
+  dependencyCandidates: {
+    marginTop: 8,
+  },
   projectDot: {
     width: 8,
     height: 8,
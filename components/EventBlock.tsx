@@ -0,0 +1,69 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { MapPin } from 'lucide-react-native';
+import Colors from '@/constants/colors';
+import type { CalendarInfo } from '@/contexts/CalendarContext';
+import type { CalendarEvent } from '@/types/calendar';
+import { formatEventTime } from '@/utils/helpers';
+
+interface EventBlockProps {
+  event: CalendarEvent;
+  calendar?: CalendarInfo;
+}
+
+/** A read-only event from another calendar; edit it in that calendar. */
+export default function EventBlock({ event, calendar }: EventBlockProps) {
+  const color = calendar?.color ?? Colors.info;
+
+  return (
+    <View style={[styles.container, { borderLeftColor: color, backgroundColor: `${color}12` }]}>
+      <Text style={styles.time}>{formatEventTime(event)}</Text>
+      <Text style={styles.title} numberOfLines={2}>{event.title}</Text>
+      <View style={styles.meta}>
+        {event.location && (
+          <View style={styles.location}>
+            <MapPin size={10} color={Colors.textMuted} />
+            <Text style={styles.metaText} numberOfLines={1}>{event.location}</Text>
+          </View>
+        )}
+        {calendar && <Text style={[styles.metaText, { color }]} numberOfLines={1}>{calendar.name}</Text>}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: 10,
+    borderLeftWidth: 4,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    marginBottom: 8,
+  },
+  time: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: Colors.textSecondary,
+    marginBottom: 2,
+  },
+  title: {
+    fontSize: 15,
+    color: Colors.text,
+  },
+  meta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    marginTop: 4,
+  },
+  location: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    flexShrink: 1,
+  },
+  metaText: {
+    fontSize: 12,
+    color: Colors.textMuted,
+  },
+});
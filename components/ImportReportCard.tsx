@@ -0,0 +1,120 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { AlertTriangle } from 'lucide-react-native';
+import Colors from '@/constants/colors';
+import type { ImportReport } from '@/types/import';
+
+interface ImportReportCardProps {
+  report: ImportReport;
+  /** Wording for a preview ("will be") or for a finished import ("were"). */
+  applied?: boolean;
+}
+
+const MAX_SKIPPED_SHOWN = 5;
+
+export default function ImportReportCard({ report, applied = false }: ImportReportCardProps) {
+  const unmapped = Object.entries(report.unmapped).sort((a, b) => b[1] - a[1]);
+  const counts = [
+    { label: applied ? 'Created' : 'New', value: report.created },
+    { label: 'Updated', value: report.updated },
+    { label: 'Removed', value: report.removed },
+    { label: 'Projects', value: report.projectsCreated },
+  ];
+
+  return (
+    <View style={styles.card}>
+      <View style={styles.countsRow}>
+        {counts.map(({ label, value }) => (
+          <View key={label} style={styles.count}>
+            <Text style={styles.countValue}>{value}</Text>
+            <Text style={styles.countLabel}>{label}</Text>
+          </View>
+        ))}
+      </View>
+
+      {unmapped.length > 0 && (
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <AlertTriangle size={14} color={Colors.warning} />
+            <Text style={styles.sectionTitle}>Not imported</Text>
+          </View>
+          {unmapped.map(([field, count]) => (
+            <Text key={field} style={styles.line}>
+              {field} <Text style={styles.muted}>on {count} {count === 1 ? 'item' : 'items'}</Text>
+            </Text>
+          ))}
+        </View>
+      )}
+
+      {report.skipped.length > 0 && (
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <AlertTriangle size={14} color={Colors.warning} />
+            <Text style={styles.sectionTitle}>Skipped ({report.skipped.length})</Text>
+          </View>
+          {report.skipped.slice(0, MAX_SKIPPED_SHOWN).map((item, index) => (
+            <Text key={index} style={styles.line} numberOfLines={2}>
+              {item.title} <Text style={styles.muted}>· {item.reason}</Text>
+            </Text>
+          ))}
+          {report.skipped.length > MAX_SKIPPED_SHOWN && (
+            <Text style={styles.muted}>+{report.skipped.length - MAX_SKIPPED_SHOWN} more</Text>
+          )}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: Colors.surface,
+    borderRadius: 12,
+    padding: 14,
+    borderWidth: 1,
+    borderColor: Colors.border,
+  },
+  countsRow: {
+    flexDirection: 'row',
+  },
+  count: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  countValue: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: Colors.text,
+  },
+  countLabel: {
+    fontSize: 12,
+    color: Colors.textMuted,
+    marginTop: 2,
+  },
+  section: {
+    marginTop: 14,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: Colors.border,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 6,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: Colors.warning,
+  },
+  line: {
+    fontSize: 13,
+    color: Colors.text,
+    marginBottom: 4,
+  },
+  muted: {
+    fontSize: 13,
+    color: Colors.textMuted,
+  },
+});
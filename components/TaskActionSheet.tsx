@@ -1,6 +1,6 @@
 import React from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, Modal, Pressable } from 'react-native';
-import { Inbox, Zap, Clock, Cloud, Trash2, Edit2, X, FolderOpen } from 'lucide-react-native';
+import { Inbox, Zap, Clock, Cloud, Trash2, Edit2, X, FolderOpen, FolderPlus } from 'lucide-react-native';
 import { Task, TaskStatus } from '@/types/task';
 import Colors from '@/constants/colors';
 import * as Haptics from 'expo-haptics';
@@ -13,6 +13,8 @@ interface TaskActionSheetProps {
   onMove: (status: TaskStatus) => void;
   onEdit: () => void;
   onDelete: () => void;
+  /** Offered for tasks with a checklist: make it a project of its items. */
+  onPromote?: () => void;
 }
 
 const actions = [
@@ -22,7 +24,7 @@ const actions = [
   { status: 'someday' as TaskStatus, label: 'Someday/Maybe', icon: Cloud, color: Colors.someday },
 ];
 
-export default function TaskActionSheet({ visible, task, onClose, onMove, onEdit, onDelete }: TaskActionSheetProps) {
+export default function TaskActionSheet({ visible, task, onClose, onMove, onEdit, onDelete, onPromote }: TaskActionSheetProps) {
   const handleMove = (status: TaskStatus) => {
     if (Platform.OS !== 'web') {
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
@@ -39,6 +41,14 @@ export default function TaskActionSheet({ visible, task, onClose, onMove, onEdit
     onClose();
   };
 
+  const handlePromote = () => {
+    if (Platform.OS !== 'web') {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    }
+    onPromote?.();
+    onClose();
+  };
+
   if (!task) return null;
 
   return (
@@ -77,11 +87,20 @@ export default function TaskActionSheet({ visible, task, onClose, onMove, onEdit
             <Text style={styles.actionLabel}>Edit Task</Text>
           </TouchableOpacity>
 
+          {onPromote && !!task.checklist?.length && (
+            <TouchableOpacity style={styles.actionItem} onPress={handlePromote}>
+              <View style={[styles.actionIcon, { backgroundColor: `${Colors.project}20` }]}>
+                <FolderPlus size={18} color={Colors.project} />
+              </View>
+              <Text style={styles.actionLabel}>Make Project of Checklist</Text>
+            </TouchableOpacity>
+          )}
+
           <TouchableOpacity style={styles.actionItem} onPress={handleDelete}>
             <View style={[styles.actionIcon, { backgroundColor: `${Colors.highlight}20` }]}>
               <Trash2 size={18} color={Colors.highlight} />
             </View>
-            <Text style={[styles.actionLabel, { color: Colors.highlight }]}>Delete Task</Text>
+            <Text style={[styles.actionLabel, { color: Colors.highlight }]}>Move to Trash</Text>
           </TouchableOpacity>
         </Pressable>
       </Pressable>
@@ -1,9 +1,11 @@
 import React from 'react';
 import { View, Text, StyleSheet, TouchableOpacity, Animated } from 'react-native';
-import { Check, Circle, Clock, Calendar, Tag, MoreHorizontal } from 'lucide-react-native';
-import { Task } from '@/types/task';
+import { Check, Circle, Clock, Calendar, CalendarClock, Tag, MoreHorizontal, Repeat, Lock, Link2, ListChecks } from 'lucide-react-native';
+import { Context, Task } from '@/types/task';
 import Colors from '@/constants/colors';
+import { contextLabel } from '@/utils/contexts';
 import { formatDate, isOverdue, isDueToday } from '@/utils/helpers';
+import { formatRecurrence } from '@/utils/recurrence';
 
 interface TaskItemProps {
   task: Task;
@@ -11,11 +13,18 @@ interface TaskItemProps {
   onComplete?: () => void;
   onLongPress?: () => void;
   showProject?: boolean;
+  /** From the list's `dependencies`, so rows need not read the whole context. */
+  blockedBy?: Task[];
+  blocking?: Task[];
+  /** deferredUntil(task, today) for the list's `today`. */
+  deferredUntil?: string;
+  contexts: Context[];
 }
 
-export default function TaskItem({ task, onPress, onComplete, onLongPress, showProject }: TaskItemProps) {
+export default function TaskItem({ task, onPress, onComplete, onLongPress, showProject, blockedBy, blocking, deferredUntil: deferred, contexts }: TaskItemProps) {
   const isComplete = task.status === 'done';
   const overdue = isOverdue(task.dueDate);
+  const checklistDone = task.checklist?.filter(item => item.done).length ?? 0;
   const dueToday = isDueToday(task.dueDate);
 
   const getPriorityColor = () => {
@@ -61,9 +70,46 @@ export default function TaskItem({ task, onPress, onComplete, onLongPress, showP
             </View>
           )}
 
-          {task.context && (
+          {deferred && (
             <View style={styles.badge}>
-              <Text style={styles.badgeText}>{task.context}</Text>
+              <CalendarClock size={10} color={Colors.textMuted} />
+              <Text style={styles.badgeText}>Back {formatDate(deferred)}</Text>
+            </View>
+          )}
+
+          {!!task.checklist?.length && (
+            <View style={styles.badge}>
+              <ListChecks size={10} color={checklistDone === task.checklist.length ? Colors.success : Colors.textMuted} />
+              <Text style={styles.badgeText}>{checklistDone}/{task.checklist.length}</Text>
+            </View>
+          )}
+
+          {blockedBy && (
+            <View style={[styles.badge, styles.badgeBlocked]}>
+              <Lock size={10} color={Colors.highlight} />
+              <Text style={[styles.badgeText, styles.badgeTextBlocked]} numberOfLines={1}>
+                Blocked by {blockedBy[0].title}{blockedBy.length > 1 ? ` +${blockedBy.length - 1}` : ''}
+              </Text>
+            </View>
+          )}
+
+          {blocking && (
+            <View style={styles.badge}>
+              <Link2 size={10} color={Colors.textMuted} />
+              <Text style={styles.badgeText}>Blocking {blocking.length}</Text>
+            </View>
+          )}
+
+          {task.recurrence && (
+            <View style={styles.badge}>
+              <Repeat size={10} color={Colors.textMuted} />
+              <Text style={styles.badgeText}>{formatRecurrence(task.recurrence)}</Text>
+            </View>
+          )}
+
+          {!!task.contexts?.length && (
+            <View style={styles.badge}>
+              <Text style={styles.badgeText}>{task.contexts.map(id => contextLabel(id, contexts)).join(' ')}</Text>
             </View>
           )}
 
@@ -171,6 +217,13 @@ const styles = StyleSheet.create({
   badgeTextWaiting: {
     color: Colors.warning,
   },
+  badgeBlocked: {
+    backgroundColor: 'rgba(233, 69, 96, 0.15)',
+    maxWidth: 180,
+  },
+  badgeTextBlocked: {
+    color: Colors.highlight,
+  },
   moreButton: {
     padding: 4,
     marginLeft: 8,
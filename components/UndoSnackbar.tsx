@@ -0,0 +1,110 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Animated, Platform } from 'react-native';
+import { Redo2, Sparkles, Undo2 } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { useTasks } from '@/contexts/TaskContext';
+import Colors from '@/constants/colors';
+
+const VISIBLE_MS = 5000;
+
+/**
+ * Shows the latest change with a way to take it back. Undoing keeps the bar
+ * up so several steps can be undone, or redone, in a row.
+ */
+export default function UndoSnackbar() {
+  const { history, canUndo, canRedo, undo, redo } = useTasks();
+  const latest = history.latest;
+  const [visible, setVisible] = useState(false);
+  const opacity = useRef(new Animated.Value(0)).current;
+
+  useEffect(() => {
+    if (!latest) return;
+    setVisible(true);
+    Animated.timing(opacity, { toValue: 1, duration: 150, useNativeDriver: true }).start();
+    const timer = setTimeout(() => {
+      Animated.timing(opacity, { toValue: 0, duration: 200, useNativeDriver: true }).start(() => setVisible(false));
+    }, VISIBLE_MS);
+    return () => clearTimeout(timer);
+  }, [latest, opacity]);
+
+  if (!latest || !visible) return null;
+
+  const handleUndo = () => {
+    if (Platform.OS !== 'web') {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+    undo();
+  };
+
+  const handleRedo = () => {
+    if (Platform.OS !== 'web') {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    }
+    redo();
+  };
+
+  const prefix = latest.action === 'undone' ? 'Undone: ' : latest.action === 'redone' ? 'Redone: ' : '';
+
+  return (
+    <Animated.View style={[styles.container, { opacity }]} pointerEvents="box-none">
+      <View style={styles.bar}>
+        {latest.entry.source === 'assistant' && <Sparkles size={14} color={Colors.project} />}
+        <Text style={styles.label} numberOfLines={2}>
+          {prefix}{latest.entry.label}
+        </Text>
+        {latest.action !== 'applied' && canRedo && (
+          <TouchableOpacity style={styles.action} onPress={handleRedo} hitSlop={8}>
+            <Redo2 size={14} color={Colors.textSecondary} />
+            <Text style={styles.redoText}>Redo</Text>
+          </TouchableOpacity>
+        )}
+        {canUndo && (
+          <TouchableOpacity style={styles.action} onPress={handleUndo} hitSlop={8}>
+            <Undo2 size={14} color={Colors.highlight} />
+            <Text style={styles.undoText}>Undo</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </Animated.View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    bottom: 96,
+  },
+  bar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    backgroundColor: Colors.surfaceLight,
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 14,
+    borderWidth: 1,
+    borderColor: Colors.borderLight,
+  },
+  label: {
+    flex: 1,
+    fontSize: 14,
+    color: Colors.text,
+  },
+  action: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  undoText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.highlight,
+  },
+  redoText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: Colors.textSecondary,
+  },
+});
@@ -0,0 +1,76 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import createContextHook from '@nkzw/create-context-hook';
+import { useCallback } from 'react';
+import { loadSession, saveSession, AuthSession } from '@/lib/auth';
+import { resetSync } from '@/lib/sync';
+import { trpcClient } from '@/lib/trpc';
+
+interface Credentials {
+  email: string;
+  password: string;
+}
+
+const toSession = (result: { token: string; expiresAt: string; user: { id: string; email: string; name: string | null } }): AuthSession => ({
+  token: result.token,
+  expiresAt: result.expiresAt,
+  user: { id: result.user.id, email: result.user.email, name: result.user.name ?? undefined },
+});
+
+export const [AuthProvider, useAuth] = createContextHook(() => {
+  const queryClient = useQueryClient();
+
+  const sessionQuery = useQuery({
+    queryKey: ['session'],
+    queryFn: loadSession,
+  });
+
+  const storeSession = useCallback(async (next: AuthSession | null) => {
+    await saveSession(next);
+    queryClient.setQueryData(['session'], next);
+  }, [queryClient]);
+
+  const signInMutation = useMutation({
+    mutationFn: async (credentials: Credentials) => {
+      console.log('[AuthContext] Signing in');
+      return toSession(await trpcClient.auth.login.mutate(credentials));
+    },
+    onSuccess: storeSession,
+  });
+
+  const signUpMutation = useMutation({
+    mutationFn: async (details: Credentials & { name?: string }) => {
+      console.log('[AuthContext] Creating account');
+      return toSession(await trpcClient.auth.register.mutate(details));
+    },
+    onSuccess: storeSession,
+  });
+
+  const signOut = useCallback(async () => {
+    console.log('[AuthContext] Signing out');
+    try {
+      await trpcClient.auth.logout.mutate();
+    } catch (error) {
+      // Offline or already expired: the token is forgotten locally either way.
+      console.log('[AuthContext] Could not revoke session:', error);
+    }
+    // The records are the account's; the next person to sign in must not get them.
+    await resetSync();
+    await storeSession(null);
+  }, [storeSession]);
+
+  /** Drops a session the server no longer accepts. */
+  const expireSession = useCallback(() => {
+    console.log('[AuthContext] Session expired');
+    return storeSession(null);
+  }, [storeSession]);
+
+  return {
+    user: sessionQuery.data?.user ?? null,
+    isLoading: sessionQuery.isLoading,
+    signIn: signInMutation.mutateAsync,
+    signUp: signUpMutation.mutateAsync,
+    isSubmitting: signInMutation.isPending || signUpMutation.isPending,
+    signOut,
+    expireSession,
+  };
+});
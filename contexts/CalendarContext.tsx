@@ -0,0 +1,145 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import createContextHook from '@nkzw/create-context-hook';
+import { useCallback, useMemo } from 'react';
+import { trpc } from '@/lib/trpc';
+import { useAuth } from '@/contexts/AuthContext';
+import type { RestoreMode } from '@/types/backup';
+import type { CalendarEvent, ImportedCalendar } from '@/types/calendar';
+import { PROJECT_COLORS } from '@/types/task';
+import { planRestore } from '@/utils/backup';
+import { eventOccursOn, generateId } from '@/utils/helpers';
+import { expandIcsEvents, parseIcs } from '@/utils/ics';
+
+const STORAGE_KEY = 'taskflow_calendars';
+
+// Subscribed calendars change on the server's schedule, not ours.
+const EVENTS_STALE_MS = 5 * 60 * 1000;
+
+/** What screens need to label and colour an event. */
+export interface CalendarInfo {
+  id: string;
+  name: string;
+  color: string;
+}
+
+export const [CalendarProvider, useCalendars] = createContextHook(() => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const utils = trpc.useUtils();
+
+  const importedQuery = useQuery({
+    queryKey: ['calendars'],
+    queryFn: async (): Promise<ImportedCalendar[]> => {
+      const stored = await AsyncStorage.getItem(STORAGE_KEY);
+      return stored ? JSON.parse(stored) : [];
+    },
+  });
+  const imported = useMemo(() => importedQuery.data ?? [], [importedQuery.data]);
+
+  const saveImported = useMutation({
+    mutationFn: async (calendars: ImportedCalendar[]) => {
+      console.log('[CalendarContext] Saving imported calendars:', calendars.length);
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(calendars));
+      return calendars;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(['calendars'], data);
+    },
+    onError: (error) => {
+      console.error('[CalendarContext] Failed to save calendars:', error);
+    },
+  });
+
+  const subscriptionsQuery = trpc.calendars.list.useQuery(undefined, { enabled: !!user });
+  const subscriptions = useMemo(() => (user ? subscriptionsQuery.data ?? [] : []), [user, subscriptionsQuery.data]);
+
+  const subscribeMutation = trpc.calendars.subscribe.useMutation({
+    onSuccess: () => {
+      utils.calendars.list.invalidate();
+      utils.calendars.events.invalidate();
+    },
+  });
+
+  const unsubscribeMutation = trpc.calendars.unsubscribe.useMutation({
+    onSuccess: () => {
+      utils.calendars.list.invalidate();
+      utils.calendars.events.invalidate();
+    },
+  });
+
+  const calendars = useMemo((): CalendarInfo[] => [
+    ...subscriptions.map(({ id, name, color }) => ({ id, name, color })),
+    ...imported.map(({ id, name, color }) => ({ id, name, color })),
+  ], [subscriptions, imported]);
+
+  /** Parses an .ics file and keeps its events; throws if it is not one. */
+  const importCalendarFile = useCallback(async (fileName: string, text: string) => {
+    const parsed = parseIcs(text);
+    const calendar: ImportedCalendar = {
+      id: generateId(),
+      name: parsed.name ?? fileName.replace(/\.ics$/i, ''),
+      color: PROJECT_COLORS[calendars.length % PROJECT_COLORS.length],
+      importedAt: new Date().toISOString(),
+      events: parsed.events,
+    };
+    await saveImported.mutateAsync([...imported, calendar]);
+    return calendar;
+  }, [calendars.length, imported, saveImported]);
+
+  const removeImportedCalendar = useCallback((id: string) => {
+    saveImported.mutate(imported.filter(c => c.id !== id));
+  }, [imported, saveImported]);
+
+  const restoreCalendars = useCallback((restored: ImportedCalendar[], mode: RestoreMode) => {
+    const plan = planRestore(imported, restored, mode);
+    saveImported.mutate(plan.records);
+    return plan.summary;
+  }, [imported, saveImported]);
+
+  return {
+    calendars,
+    imported,
+    subscriptions,
+    subscriptionsLoading: subscriptionsQuery.isLoading,
+    importCalendarFile,
+    removeImportedCalendar,
+    restoreCalendars,
+    subscribe: subscribeMutation.mutateAsync,
+    isSubscribing: subscribeMutation.isPending,
+    unsubscribe: unsubscribeMutation.mutate,
+  };
+});
+
+/**
+ * Events from all calendars between `from` and `to`, for screens that show
+ * them next to tasks. Imported calendars are expanded on the device;
+ * subscribed ones come from the backend once signed in.
+ */
+export function useCalendarEvents(from: Date, to: Date) {
+  const { user } = useAuth();
+  const { calendars, imported } = useCalendars();
+  const fromIso = from.toISOString();
+  const toIso = to.toISOString();
+
+  const remoteQuery = trpc.calendars.events.useQuery(
+    { from: fromIso, to: toIso },
+    { enabled: !!user, staleTime: EVENTS_STALE_MS },
+  );
+
+  const events = useMemo(() => {
+    const local = imported.flatMap(c => expandIcsEvents(c.events, c.id, new Date(fromIso), new Date(toIso)));
+    const remote = user ? remoteQuery.data ?? [] : [];
+    return [...remote, ...local];
+  }, [imported, fromIso, toIso, user, remoteQuery.data]);
+
+  const calendarsById = useMemo(() => new Map(calendars.map(c => [c.id, c])), [calendars]);
+
+  const getEventsForDay = useCallback((date: Date): CalendarEvent[] => {
+    return events
+      .filter(event => eventOccursOn(event, date))
+      .sort((a, b) => Number(b.allDay) - Number(a.allDay) || new Date(a.start).getTime() - new Date(b.start).getTime());
+  }, [events]);
+
+  return { events, calendarsById, getEventsForDay };
+}
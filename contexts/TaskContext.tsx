@@ -1,136 +1,348 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import createContextHook from '@nkzw/create-context-hook';
-import { useState, useEffect, useMemo, useCallback } from 'react';
-import { Task, Project, Area, Goal, TaskStatus, Priority, Context } from '@/types/task';
-import { generateId } from '@/utils/helpers';
-
-const STORAGE_KEYS = {
-  TASKS: 'taskflow_tasks',
-  PROJECTS: 'taskflow_projects',
-  AREAS: 'taskflow_areas',
-  GOALS: 'taskflow_goals',
-};
-
-const DEFAULT_AREAS: Area[] = [
-  { id: 'work', title: 'Work', description: 'Professional responsibilities', icon: 'Briefcase', createdAt: new Date().toISOString() },
-  { id: 'personal', title: 'Personal', description: 'Personal life and growth', icon: 'User', createdAt: new Date().toISOString() },
-  { id: 'health', title: 'Health', description: 'Physical and mental wellbeing', icon: 'Heart', createdAt: new Date().toISOString() },
-  { id: 'finance', title: 'Finance', description: 'Financial management', icon: 'DollarSign', createdAt: new Date().toISOString() },
-];
+import { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import { AppState } from 'react-native';
+import { TRPCClientError } from '@trpc/client';
+import { Task, Project, Area, Goal, TaskStatus, Priority, Context, ContextSet, ProjectTasksAction, PROJECT_COLORS, TRASH_RETENTION_DAYS } from '@/types/task';
+import { SYNC_ENTITIES, type RemoteChange, type SyncEntity, type SyncOp, type SyncRecordMap } from '@/types/sync';
+import { dismissConflict, getConflicts, getPendingCount, mergeRemoteChanges, queueChange, seedOutbox, setSyncUser, syncNow, SyncConflict } from '@/lib/sync';
+import { clearQuarantine, getQuarantine, loadCollection, loadRecords, saveRecords, RecordQuery } from '@/lib/storage';
+import { useAuth } from '@/contexts/AuthContext';
+import type { BackupData, RestoreMode, RestoreSummary } from '@/types/backup';
+import type { ChangeOptions, HistoryEntry, RecordChange, RecordChangeOf } from '@/types/history';
+import type { ImportResult } from '@/types/import';
+import { areaSchema, contextSchema, contextSetSchema, goalSchema, projectSchema, taskSchema, taskStatusSchema } from '@/types/schemas';
+import { planRestore, RestorePlan } from '@/utils/backup';
+import { buildDependencyGraph, nextInSequence, sortByProjectOrder } from '@/utils/dependencies';
+import { goalProgress } from '@/utils/goals';
+import { deferredUntil, generateId, toDayKey } from '@/utils/helpers';
+import { invertChanges, resolveChange } from '@/utils/history';
+import { changedFields } from '@/utils/merge';
+import { nextDueDate, nextRecurrence, shiftDay } from '@/utils/recurrence';
+
+const SYNC_INTERVAL_MS = 60 * 1000;
+const SYNC_DEBOUNCE_MS = 2000;
+// Completed tasks older than this stay on disk until a screen asks for them.
+const ARCHIVE_AFTER_DAYS = 30;
+const HISTORY_LIMIT = 50;
+
+export interface SyncStatus {
+  /** False until an account is signed in; nothing leaves the device before. */
+  enabled: boolean;
+  syncing: boolean;
+  pending: number;
+  lastSyncedAt?: string;
+  error?: string;
+}
+
+/** Everything except old completed tasks outside open projects. */
+function recentTaskQueries(projects: Project[]): RecordQuery[] {
+  const cutoff = new Date(Date.now() - ARCHIVE_AFTER_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  return [
+    ...taskStatusSchema.options.filter(status => status !== 'done').map(status => ({ index: 'status' as const, equals: status })),
+    { index: 'completedAt', from: cutoff },
+    // Kept so project progress still counts their finished tasks.
+    ...projects.filter(p => p.status !== 'completed').map(p => ({ index: 'projectId' as const, equals: p.id })),
+  ];
+}
+
+type SavedChanges = { [E in SyncEntity]: { entity: E; put: SyncRecordMap[E][]; remove: string[] } }[SyncEntity];
+
+interface History {
+  undo: HistoryEntry[];
+  redo: HistoryEntry[];
+  /** The entry most recently applied, undone or redone, for the snackbar. */
+  latest?: { entry: HistoryEntry; action: 'applied' | 'undone' | 'redone' };
+}
 
 export const [TaskProvider, useTasks] = createContextHook(() => {
   const queryClient = useQueryClient();
-  const [tasks, setTasks] = useState<Task[]>([]);
-  const [projects, setProjects] = useState<Project[]>([]);
-  const [areas, setAreas] = useState<Area[]>(DEFAULT_AREAS);
+  const { user, expireSession } = useAuth();
+  const userId = user?.id;
+  const [taskRecords, setTasks] = useState<Task[]>([]);
+  const [projectRecords, setProjects] = useState<Project[]>([]);
+  const [areas, setAreas] = useState<Area[]>([]);
   const [goals, setGoals] = useState<Goal[]>([]);
+  const [contexts, setContexts] = useState<Context[]>([]);
+  const [contextSets, setContextSets] = useState<ContextSet[]>([]);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>({ enabled: false, syncing: false, pending: 0 });
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [archiveLoaded, setArchiveLoaded] = useState(false);
+  const syncTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Only this provider writes the store, so what it loaded never goes stale.
+  const projectsQuery = useQuery({
+    queryKey: ['projects'],
+    queryFn: () => loadCollection('projects', projectSchema, []),
+    staleTime: Infinity,
+  });
 
   const tasksQuery = useQuery({
     queryKey: ['tasks'],
-    queryFn: async () => {
-      const stored = await AsyncStorage.getItem(STORAGE_KEYS.TASKS);
-      return stored ? JSON.parse(stored) : [];
-    },
-  });
-
-  const projectsQuery = useQuery({
-    queryKey: ['projects'],
-    queryFn: async () => {
-      const stored = await AsyncStorage.getItem(STORAGE_KEYS.PROJECTS);
-      return stored ? JSON.parse(stored) : [];
-    },
+    queryFn: () => loadRecords('tasks', taskSchema, recentTaskQueries(projectsQuery.data ?? [])),
+    enabled: projectsQuery.isFetched,
+    staleTime: Infinity,
   });
 
   const areasQuery = useQuery({
     queryKey: ['areas'],
-    queryFn: async () => {
-      const stored = await AsyncStorage.getItem(STORAGE_KEYS.AREAS);
-      return stored ? JSON.parse(stored) : DEFAULT_AREAS;
-    },
+    queryFn: () => loadCollection('areas', areaSchema, []),
+    staleTime: Infinity,
   });
 
   const goalsQuery = useQuery({
     queryKey: ['goals'],
-    queryFn: async () => {
-      const stored = await AsyncStorage.getItem(STORAGE_KEYS.GOALS);
-      return stored ? JSON.parse(stored) : [];
+    queryFn: () => loadCollection('goals', goalSchema, []),
+    staleTime: Infinity,
+  });
+
+  const contextsQuery = useQuery({
+    queryKey: ['contexts'],
+    queryFn: () => loadCollection('contexts', contextSchema, []),
+    staleTime: Infinity,
+  });
+
+  const contextSetsQuery = useQuery({
+    queryKey: ['contextSets'],
+    queryFn: () => loadCollection('contextSets', contextSetSchema, []),
+    staleTime: Infinity,
+  });
+
+  // Filled while the collections above load, so read it once they have.
+  const quarantineQuery = useQuery({
+    queryKey: ['quarantine'],
+    queryFn: getQuarantine,
+    enabled: tasksQuery.isFetched && projectsQuery.isFetched && areasQuery.isFetched && goalsQuery.isFetched && contextsQuery.isFetched && contextSetsQuery.isFetched,
+  });
+  const quarantined = useMemo(() => quarantineQuery.data ?? [], [quarantineQuery.data]);
+
+  const discardQuarantine = useMutation({
+    mutationFn: clearQuarantine,
+    onSuccess: () => {
+      queryClient.setQueryData(['quarantine'], []);
+    },
+    onError: (error) => {
+      console.error('[TaskContext] Failed to clear quarantine:', error);
     },
   });
 
+  // The latest records, readable synchronously so several changes in one
+  // tick (an assistant reply, a bulk import) each see the ones before.
+  const current = useRef<{ [E in SyncEntity]: SyncRecordMap[E][] }>({ tasks: [], projects: [], areas: [], goals: [], contexts: [], contextSets: [] });
+  const historyRef = useRef<History>({ undo: [], redo: [] });
+  const [history, setHistory] = useState<History>(historyRef.current);
+
+  const setRecords = useCallback(<E extends SyncEntity>(entity: E, records: SyncRecordMap[E][]) => {
+    const setters: { [K in SyncEntity]: (records: SyncRecordMap[K][]) => void } = {
+      tasks: setTasks,
+      projects: setProjects,
+      areas: setAreas,
+      goals: setGoals,
+      contexts: setContexts,
+      contextSets: setContextSets,
+    };
+    current.current = { ...current.current, [entity]: records };
+    setters[entity](records);
+  }, []);
+
+  const updateHistory = useCallback((next: History) => {
+    historyRef.current = next;
+    setHistory(next);
+  }, []);
+
+  /** Reads everything again after the stored records were replaced, as on sign-out. */
+  const reloadRecords = useCallback(async () => {
+    updateHistory({ undo: [], redo: [] });
+    setArchiveLoaded(false);
+    await Promise.all(['projects', 'tasks', 'areas', 'goals', 'contexts', 'contextSets', 'quarantine']
+      .map(key => queryClient.resetQueries({ queryKey: [key] })));
+  }, [updateHistory, queryClient]);
+
+  // Signing out deletes the stored records (see AuthContext).
+  const signedInAs = useRef(userId);
   useEffect(() => {
-    if (tasksQuery.data) setTasks(tasksQuery.data);
-  }, [tasksQuery.data]);
+    const previous = signedInAs.current;
+    signedInAs.current = userId;
+    if (previous && !userId) reloadRecords();
+  }, [userId, reloadRecords]);
 
   useEffect(() => {
-    if (projectsQuery.data) setProjects(projectsQuery.data);
-  }, [projectsQuery.data]);
+    if (tasksQuery.data) setRecords('tasks', tasksQuery.data);
+  }, [tasksQuery.data, setRecords]);
 
   useEffect(() => {
-    if (areasQuery.data) setAreas(areasQuery.data);
-  }, [areasQuery.data]);
+    if (projectsQuery.data) setRecords('projects', projectsQuery.data);
+  }, [projectsQuery.data, setRecords]);
 
   useEffect(() => {
-    if (goalsQuery.data) setGoals(goalsQuery.data);
-  }, [goalsQuery.data]);
-
-  const syncTasks = useMutation({
-    mutationFn: async (newTasks: Task[]) => {
-      console.log('[TaskContext] Saving tasks:', newTasks.length);
-      await AsyncStorage.setItem(STORAGE_KEYS.TASKS, JSON.stringify(newTasks));
-      console.log('[TaskContext] Tasks saved successfully');
-      return newTasks;
-    },
-    onSuccess: (data) => {
-      console.log('[TaskContext] Mutation success, updating query cache');
-      queryClient.setQueryData(['tasks'], data);
-    },
-    onError: (error) => {
-      console.error('[TaskContext] Failed to save tasks:', error);
-    },
-  });
+    if (areasQuery.data) setRecords('areas', areasQuery.data);
+  }, [areasQuery.data, setRecords]);
 
-  const syncProjects = useMutation({
-    mutationFn: async (newProjects: Project[]) => {
-      console.log('[TaskContext] Saving projects:', newProjects.length);
-      await AsyncStorage.setItem(STORAGE_KEYS.PROJECTS, JSON.stringify(newProjects));
-      return newProjects;
-    },
-    onSuccess: (data) => {
-      queryClient.setQueryData(['projects'], data);
-    },
-    onError: (error) => {
-      console.error('[TaskContext] Failed to save projects:', error);
-    },
-  });
+  useEffect(() => {
+    if (goalsQuery.data) setRecords('goals', goalsQuery.data);
+  }, [goalsQuery.data, setRecords]);
 
-  const syncAreas = useMutation({
-    mutationFn: async (newAreas: Area[]) => {
-      await AsyncStorage.setItem(STORAGE_KEYS.AREAS, JSON.stringify(newAreas));
-      return newAreas;
-    },
-    onSuccess: (data) => {
-      queryClient.setQueryData(['areas'], data);
-    },
-    onError: (error) => {
-      console.error('[TaskContext] Failed to save areas:', error);
-    },
-  });
+  useEffect(() => {
+    if (contextsQuery.data) setRecords('contexts', contextsQuery.data);
+  }, [contextsQuery.data, setRecords]);
 
-  const syncGoals = useMutation({
-    mutationFn: async (newGoals: Goal[]) => {
-      await AsyncStorage.setItem(STORAGE_KEYS.GOALS, JSON.stringify(newGoals));
-      return newGoals;
-    },
-    onSuccess: (data) => {
-      queryClient.setQueryData(['goals'], data);
+  useEffect(() => {
+    if (contextSetsQuery.data) setRecords('contextSets', contextSetsQuery.data);
+  }, [contextSetsQuery.data, setRecords]);
+
+  const saveChanges = useMutation({
+    mutationFn: async ({ entity, put, remove }: SavedChanges) => {
+      console.log(`[TaskContext] Saving ${entity}:`, put.length, 'changed,', remove.length, 'removed');
+      await saveRecords<{ id: string }>(entity, { put, remove });
     },
     onError: (error) => {
-      console.error('[TaskContext] Failed to save goals:', error);
+      console.error('[TaskContext] Failed to save changes:', error);
     },
   });
 
-  const addTask = useCallback((task: Omit<Task, 'id' | 'createdAt' | 'tags'> & { tags?: string[] }) => {
+  const applyRemoteChanges = useCallback((changes: RemoteChange[]) => {
+    console.log('[TaskContext] Applying remote changes:', changes.length);
+    const apply = <E extends SyncEntity>(entity: E) => {
+      const relevant = changes.filter(c => c.entity === entity);
+      if (relevant.length === 0) return;
+      const updated = mergeRemoteChanges(current.current[entity], changes, entity);
+      const byId = new Map(updated.map(r => [r.id, r]));
+      setRecords(entity, updated);
+      saveChanges.mutate({
+        entity,
+        put: relevant.flatMap(c => byId.get(c.id) ?? []),
+        remove: relevant.filter(c => !byId.has(c.id)).map(c => c.id),
+      } as SavedChanges);
+    };
+    SYNC_ENTITIES.forEach(apply);
+  }, [setRecords, saveChanges]);
+
+  const runSync = useCallback(async () => {
+    if (!userId) return;
+    setSyncStatus(prev => ({ ...prev, syncing: true }));
+    try {
+      const summary = await syncNow(applyRemoteChanges);
+      console.log('[TaskContext] Sync complete:', summary);
+      setSyncStatus({ enabled: true, syncing: false, pending: summary.pending, lastSyncedAt: new Date().toISOString() });
+      setConflicts([...summary.conflicts]);
+    } catch (error) {
+      // Offline or server unavailable: local data stays authoritative and the
+      // outbox is retried on the next run.
+      console.log('[TaskContext] Sync failed, will retry:', error);
+      if (error instanceof TRPCClientError && error.data?.code === 'UNAUTHORIZED') {
+        expireSession();
+      }
+      const pending = await getPendingCount();
+      setSyncStatus(prev => ({ ...prev, syncing: false, pending, error: error instanceof Error ? error.message : String(error) }));
+    }
+  }, [userId, applyRemoteChanges, expireSession]);
+
+  const scheduleSync = useCallback(() => {
+    if (syncTimer.current) clearTimeout(syncTimer.current);
+    syncTimer.current = setTimeout(runSync, SYNC_DEBOUNCE_MS);
+  }, [runSync]);
+
+  const recordChange = useCallback(<E extends SyncEntity>(entity: E, op: SyncOp, id: string, record?: SyncRecordMap[E], fields?: string[]) => {
+    queueChange(entity, op, id, record, fields);
+    scheduleSync();
+  }, [scheduleSync]);
+
+  const resolveConflict = useCallback(async (conflictId: string) => {
+    setConflicts(await dismissConflict(conflictId));
+  }, []);
+
+  /** Applies changes to memory, the store and the sync outbox. */
+  const applyChanges = useCallback((changes: RecordChange[]) => {
+    const apply = <E extends SyncEntity>(entity: E) => {
+      const relevant = changes.filter(c => c.entity === entity) as RecordChangeOf<E>[];
+      if (relevant.length === 0) return;
+      const byId = new Map(current.current[entity].map(r => [r.id, r]));
+      const put: SyncRecordMap[E][] = [];
+      const remove: string[] = [];
+      relevant.forEach(change => {
+        const next = resolveChange(byId.get(change.id), change);
+        if (next) {
+          byId.set(change.id, next);
+          put.push(next);
+          recordChange(entity, 'upsert', change.id, next, change.fields);
+        } else {
+          byId.delete(change.id);
+          remove.push(change.id);
+          recordChange(entity, 'delete', change.id);
+        }
+      });
+      setRecords(entity, Array.from(byId.values()));
+      saveChanges.mutate({ entity, put, remove } as SavedChanges);
+    };
+    SYNC_ENTITIES.forEach(apply);
+  }, [recordChange, setRecords, saveChanges]);
+
+  /** Applies changes and adds them to the undo history. */
+  const commit = useCallback((label: string, changes: RecordChange[], options: ChangeOptions = {}) => {
+    if (changes.length === 0) return;
+    applyChanges(changes);
+    const { undo } = historyRef.current;
+    const last = undo[undo.length - 1];
+    const entry: HistoryEntry = options.group && last?.group === options.group
+      ? { ...last, label: `${last.label}, ${label}`, changes: [...last.changes, ...changes], at: new Date().toISOString() }
+      : { id: generateId(), label, source: options.source ?? 'user', group: options.group, changes, at: new Date().toISOString() };
+    const kept = entry.id === last?.id ? undo.slice(0, -1) : undo;
+    updateHistory({ undo: [...kept, entry].slice(-HISTORY_LIMIT), redo: [], latest: { entry, action: 'applied' } });
+  }, [applyChanges, updateHistory]);
+
+  const undo = useCallback(() => {
+    const { undo: undoStack, redo } = historyRef.current;
+    const entry = undoStack[undoStack.length - 1];
+    if (!entry) return;
+    console.log('[TaskContext] Undoing:', entry.label);
+    applyChanges(invertChanges(entry.changes));
+    updateHistory({ undo: undoStack.slice(0, -1), redo: [...redo, entry], latest: { entry, action: 'undone' } });
+  }, [applyChanges, updateHistory]);
+
+  const redo = useCallback(() => {
+    const { undo: undoStack, redo: redoStack } = historyRef.current;
+    const entry = redoStack[redoStack.length - 1];
+    if (!entry) return;
+    console.log('[TaskContext] Redoing:', entry.label);
+    applyChanges(entry.changes);
+    updateHistory({ undo: [...undoStack, entry], redo: redoStack.slice(0, -1), latest: { entry, action: 'redone' } });
+  }, [applyChanges, updateHistory]);
+
+  // Trashed records stay loaded for the Trash screen but out of every list.
+  const tasks = useMemo(() => taskRecords.filter(t => !t.trashedAt), [taskRecords]);
+  const projects = useMemo(() => projectRecords.filter(p => !p.trashedAt), [projectRecords]);
+  const trash = useMemo(() => ({
+    tasks: taskRecords.filter(t => t.trashedAt),
+    projects: projectRecords.filter(p => p.trashedAt),
+  }), [taskRecords, projectRecords]);
+
+  // Deferred tasks come back on their day without a reload: `today` moves at
+  // midnight and whenever the app returns to the foreground.
+  const [today, setToday] = useState(() => toDayKey(new Date()));
+  useEffect(() => {
+    const refresh = () => setToday(toDayKey(new Date()));
+    const midnight = new Date();
+    midnight.setHours(24, 0, 0, 0);
+    const timeout = setTimeout(refresh, midnight.getTime() - Date.now() + 1000);
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active') refresh();
+    });
+    return () => {
+      clearTimeout(timeout);
+      subscription.remove();
+    };
+  }, [today]);
+
+  /** Open tasks whose start or wait date is still ahead; see deferredUntil. */
+  const deferredTasks = useMemo(() => tasks.filter(t => deferredUntil(t, today)), [tasks, today]);
+  /** Everything in `tasks` that is not deferred, for the action lists. */
+  const availableTasks = useMemo(() => tasks.filter(t => !deferredUntil(t, today)), [tasks, today]);
+  /** Which tasks wait on which; blocked tasks stay out of Next Actions. */
+  const dependencies = useMemo(() => buildDependencyGraph(tasks, projects), [tasks, projects]);
+
+  const findRecord = <E extends SyncEntity>(entity: E, id: string) => current.current[entity].find(r => r.id === id);
+
+  const addTask = useCallback((task: Omit<Task, 'id' | 'createdAt' | 'tags'> & { tags?: string[] }, options?: ChangeOptions) => {
     const newTask: Task = {
       ...task,
       id: generateId(),
@@ -138,124 +350,437 @@ export const [TaskProvider, useTasks] = createContextHook(() => {
       createdAt: new Date().toISOString(),
     };
     console.log('[TaskContext] Adding task:', newTask.title);
-    setTasks(prev => {
-      const updated = [...prev, newTask];
-      syncTasks.mutate(updated);
-      return updated;
-    });
+    commit(`Added "${newTask.title}"`, [{ entity: 'tasks', id: newTask.id, after: newTask }], options);
     return newTask;
-  }, [syncTasks]);
+  }, [commit]);
 
-  const updateTask = useCallback((id: string, updates: Partial<Task>) => {
+  const updateTask = useCallback((id: string, updates: Partial<Task>, options?: ChangeOptions) => {
     console.log('[TaskContext] Updating task:', id);
-    setTasks(prev => {
-      const updated = prev.map(t => t.id === id ? { ...t, ...updates } : t);
-      syncTasks.mutate(updated);
-      return updated;
-    });
-  }, [syncTasks]);
-
-  const deleteTask = useCallback((id: string) => {
-    console.log('[TaskContext] Deleting task:', id);
-    setTasks(prev => {
-      const updated = prev.filter(t => t.id !== id);
-      syncTasks.mutate(updated);
-      return updated;
-    });
-  }, [syncTasks]);
-
-  const completeTask = useCallback((id: string) => {
+    const task = findRecord('tasks', id);
+    if (!task) return;
+    const fields = changedFields(task, updates);
+    if (fields.length === 0) return;
+    commit(`Edited "${task.title}"`, [{ entity: 'tasks', id, before: task, after: { ...task, ...updates }, fields }], options);
+  }, [commit]);
+
+  /** Moves the task to the Trash, where it stays for TRASH_RETENTION_DAYS. */
+  const deleteTask = useCallback((id: string, options?: ChangeOptions) => {
+    console.log('[TaskContext] Trashing task:', id);
+    const task = findRecord('tasks', id);
+    if (!task || task.trashedAt) return;
+    const trashed: Task = { ...task, trashedAt: new Date().toISOString() };
+    commit(`Moved "${task.title}" to Trash`, [{ entity: 'tasks', id, before: task, after: trashed, fields: ['trashedAt'] }], options);
+  }, [commit]);
+
+  /**
+   * Marks the task done. A recurring task also gets its next instance, which
+   * takes the recurrence over so completing the old one again adds no other.
+   * In a sequential project the task after it becomes a next action.
+   */
+  const completeTask = useCallback((id: string, options?: ChangeOptions) => {
     console.log('[TaskContext] Completing task:', id);
-    setTasks(prev => {
-      const updated = prev.map(t =>
-        t.id === id ? { ...t, status: 'done' as TaskStatus, completedAt: new Date().toISOString() } : t
-      );
-      syncTasks.mutate(updated);
-      return updated;
-    });
-  }, [syncTasks]);
-
-  const moveTask = useCallback((id: string, status: TaskStatus) => {
+    const task = findRecord('tasks', id);
+    if (!task) return;
+    const completedAt = new Date().toISOString();
+    const { recurrence, ...rest } = task;
+    const completed: Task = { ...rest, status: 'done', completedAt };
+    const changes: RecordChange[] = [{ entity: 'tasks', id, before: task, after: completed, fields: ['status', 'completedAt', 'recurrence'] }];
+    const dueDate = task.status !== 'done' ? nextDueDate(task, completedAt) : undefined;
+    if (recurrence && dueDate) {
+      const next: Task = { ...rest, recurrence: nextRecurrence(task), dueDate, id: generateId(), createdAt: completedAt };
+      if (next.checklist) next.checklist = next.checklist.map(item => ({ ...item, done: false }));
+      // Start and wait dates keep their distance from the due date.
+      if (task.dueDate && next.startDate) next.startDate = shiftDay(next.startDate, task.dueDate, dueDate);
+      if (task.dueDate && next.waitUntil) next.waitUntil = shiftDay(next.waitUntil, task.dueDate, dueDate);
+      console.log('[TaskContext] Next instance due:', dueDate);
+      changes.push({ entity: 'tasks', id: next.id, after: next });
+    }
+    const following = task.status !== 'done'
+      ? nextInSequence(task, current.current.tasks.filter(t => !t.trashedAt), current.current.projects)
+      : undefined;
+    if (following) {
+      console.log('[TaskContext] Promoting next in sequence:', following.id);
+      changes.push({ entity: 'tasks', id: following.id, before: following, after: { ...following, status: 'next' }, fields: ['status'] });
+    }
+    commit(`Completed "${task.title}"`, changes, options);
+  }, [commit]);
+
+  /** Moves a task one place up (-1) or down (1) among its project's open tasks. */
+  const reorderTask = useCallback((id: string, offset: -1 | 1, options?: ChangeOptions) => {
+    const task = findRecord('tasks', id);
+    if (!task?.projectId) return;
+    const siblings = sortByProjectOrder(current.current.tasks.filter(t =>
+      t.projectId === task.projectId && !t.trashedAt && t.status !== 'done'));
+    const from = siblings.findIndex(t => t.id === id);
+    const to = from + offset;
+    if (from < 0 || to < 0 || to >= siblings.length) return;
+    [siblings[from], siblings[to]] = [siblings[to], siblings[from]];
+    // Renumber the whole list, so tasks that had no position get one.
+    const changes = siblings.flatMap((t, position): RecordChange[] => t.position === position
+      ? []
+      : [{ entity: 'tasks', id: t.id, before: t, after: { ...t, position }, fields: ['position'] }]);
+    commit(`Reordered "${task.title}"`, changes, options);
+  }, [commit]);
+
+  const moveTask = useCallback((id: string, status: TaskStatus, options?: ChangeOptions) => {
     console.log('[TaskContext] Moving task:', id, 'to', status);
-    setTasks(prev => {
-      const updated = prev.map(t => t.id === id ? { ...t, status } : t);
-      syncTasks.mutate(updated);
-      return updated;
-    });
-  }, [syncTasks]);
+    const task = findRecord('tasks', id);
+    if (!task) return;
+    commit(`Moved "${task.title}" to ${status}`, [{ entity: 'tasks', id, before: task, after: { ...task, status }, fields: ['status'] }], options);
+  }, [commit]);
 
-  const addProject = useCallback((project: Omit<Project, 'id' | 'createdAt'>) => {
+  const addProject = useCallback((project: Omit<Project, 'id' | 'createdAt'>, options?: ChangeOptions) => {
     const newProject: Project = {
       ...project,
       id: generateId(),
       createdAt: new Date().toISOString(),
     };
     console.log('[TaskContext] Adding project:', newProject.title);
-    setProjects(prev => {
-      const updated = [...prev, newProject];
-      syncProjects.mutate(updated);
-      return updated;
-    });
+    commit(`Added project "${newProject.title}"`, [{ entity: 'projects', id: newProject.id, after: newProject }], options);
     return newProject;
-  }, [syncProjects]);
-
-  const updateProject = useCallback((id: string, updates: Partial<Project>) => {
-    setProjects(prev => {
-      const updated = prev.map(p => p.id === id ? { ...p, ...updates } : p);
-      syncProjects.mutate(updated);
-      return updated;
-    });
-  }, [syncProjects]);
-
-  const deleteProject = useCallback((id: string) => {
-    setProjects(prev => {
-      const updated = prev.filter(p => p.id !== id);
-      syncProjects.mutate(updated);
-      return updated;
+  }, [commit]);
+
+  /**
+   * Turns a task into a project of the same name, with a task for each of its
+   * checklist items. The task is replaced rather than trashed.
+   */
+  const promoteToProject = useCallback((id: string, options?: ChangeOptions) => {
+    console.log('[TaskContext] Promoting task to project:', id);
+    const task = findRecord('tasks', id);
+    if (!task) return undefined;
+    const now = new Date().toISOString();
+    const project: Project = {
+      id: generateId(),
+      title: task.title,
+      description: task.description,
+      status: 'active',
+      dueDate: task.dueDate,
+      createdAt: now,
+      color: PROJECT_COLORS[current.current.projects.length % PROJECT_COLORS.length],
+    };
+    const steps = (task.checklist ?? []).map((item, position): Task => ({
+      id: generateId(),
+      title: item.title,
+      status: item.done ? 'done' : 'next',
+      contexts: task.contexts,
+      projectId: project.id,
+      position,
+      tags: [],
+      createdAt: now,
+      completedAt: item.done ? now : undefined,
+    }));
+    commit(`Made "${task.title}" a project`, [
+      { entity: 'tasks', id, before: task },
+      { entity: 'projects', id: project.id, after: project },
+      ...steps.map((step): RecordChange => ({ entity: 'tasks', id: step.id, after: step })),
+    ], options);
+    return project;
+  }, [commit]);
+
+  const updateProject = useCallback((id: string, updates: Partial<Project>, options?: ChangeOptions) => {
+    const project = findRecord('projects', id);
+    if (!project) return;
+    const fields = changedFields(project, updates);
+    if (fields.length === 0) return;
+    commit(`Edited project "${project.title}"`, [{ entity: 'projects', id, before: project, after: { ...project, ...updates }, fields }], options);
+  }, [commit]);
+
+  /**
+   * Every task of the given projects, including completed ones old enough to
+   * have been left on disk at startup (see recentTaskQueries).
+   */
+  const loadProjectTasks = useCallback(async (projectIds: string[]): Promise<Task[]> => {
+    const ids = new Set(projectIds);
+    const stored = await loadRecords('tasks', taskSchema, projectIds.map(id => ({ index: 'projectId' as const, equals: id })));
+    const known = new Set(current.current.tasks.map(t => t.id));
+    return [
+      ...current.current.tasks.filter(t => t.projectId && ids.has(t.projectId)),
+      ...stored.filter(t => !known.has(t.id)),
+    ];
+  }, []);
+
+  /**
+   * Moves the project to the Trash. Its tasks are trashed with it, moved to
+   * another project or kept without one, so none point at a missing project.
+   */
+  const deleteProject = useCallback(async (id: string, tasksAction: ProjectTasksAction = { action: 'detach' }, options?: ChangeOptions) => {
+    const project = findRecord('projects', id);
+    if (!project || project.trashedAt) return;
+    const trashedAt = new Date().toISOString();
+    const taskChanges = (await loadProjectTasks([id]))
+      .filter(t => !t.trashedAt)
+      .map((task): RecordChange => {
+        if (tasksAction.action === 'trash') {
+          return { entity: 'tasks', id: task.id, before: task, after: { ...task, trashedAt }, fields: ['trashedAt'] };
+        }
+        const projectId = tasksAction.action === 'move' ? tasksAction.projectId : undefined;
+        return { entity: 'tasks', id: task.id, before: task, after: { ...task, projectId }, fields: ['projectId'] };
+      });
+    console.log('[TaskContext] Trashing project:', id, 'and', tasksAction.action, taskChanges.length, 'tasks');
+    commit(`Moved project "${project.title}" to Trash`, [
+      { entity: 'projects', id, before: project, after: { ...project, trashedAt }, fields: ['trashedAt'] },
+      ...taskChanges,
+    ], options);
+  }, [loadProjectTasks, commit]);
+
+  /**
+   * Takes a task or project out of the Trash, with the tasks trashed along
+   * with a project. A task whose project is still in the Trash, or gone,
+   * comes back without one.
+   */
+  const restoreFromTrash = useCallback((entity: 'tasks' | 'projects', id: string) => {
+    const record = findRecord(entity, id);
+    if (!record?.trashedAt) return;
+    const changes = [{ entity, id, before: record, after: { ...record, trashedAt: undefined }, fields: ['trashedAt'] } as RecordChange];
+    if (entity === 'tasks') {
+      const task = record as Task;
+      const project = task.projectId ? findRecord('projects', task.projectId) : undefined;
+      if (task.projectId && (!project || project.trashedAt)) {
+        changes[0] = { entity, id, before: task, after: { ...task, trashedAt: undefined, projectId: undefined }, fields: ['trashedAt', 'projectId'] };
+      }
+    }
+    if (entity === 'projects') {
+      current.current.tasks
+        .filter(t => t.projectId === id && t.trashedAt === record.trashedAt)
+        .forEach(task => changes.push({ entity: 'tasks', id: task.id, before: task, after: { ...task, trashedAt: undefined }, fields: ['trashedAt'] }));
+    }
+    commit(`Restored "${record.title}"`, changes);
+  }, [commit]);
+
+  /**
+   * Deletes trashed records for good; this is the delete other devices sync.
+   * Tasks of a deleted project that stay behind lose their link to it.
+   */
+  const deleteForever = useCallback(async (records: { entity: 'tasks' | 'projects'; id: string }[], label: string) => {
+    const changes = records.flatMap(({ entity, id }): RecordChange[] => {
+      const record = findRecord(entity, id);
+      return record?.trashedAt ? [{ entity, id, before: record } as RecordChange] : [];
     });
-  }, [syncProjects]);
-
-  const addGoal = useCallback((goal: Omit<Goal, 'id' | 'createdAt'>) => {
+    const deleted = new Set(changes.map(change => `${change.entity}:${change.id}`));
+    const projectIds = changes.filter(change => change.entity === 'projects').map(change => change.id);
+    (projectIds.length > 0 ? await loadProjectTasks(projectIds) : [])
+      .filter(t => !deleted.has(`tasks:${t.id}`))
+      .forEach(task => changes.push({ entity: 'tasks', id: task.id, before: task, after: { ...task, projectId: undefined }, fields: ['projectId'] }));
+    commit(label, changes);
+  }, [loadProjectTasks, commit]);
+
+  const addArea = useCallback((area: Omit<Area, 'id' | 'createdAt'>, options?: ChangeOptions) => {
+    const newArea: Area = {
+      ...area,
+      id: generateId(),
+      createdAt: new Date().toISOString(),
+    };
+    commit(`Added area "${newArea.title}"`, [{ entity: 'areas', id: newArea.id, after: newArea }], options);
+    return newArea;
+  }, [commit]);
+
+  const updateArea = useCallback((id: string, updates: Partial<Area>, options?: ChangeOptions) => {
+    const area = findRecord('areas', id);
+    if (!area) return;
+    const fields = changedFields(area, updates);
+    if (fields.length === 0) return;
+    commit(`Edited area "${area.title}"`, [{ entity: 'areas', id, before: area, after: { ...area, ...updates }, fields }], options);
+  }, [commit]);
+
+  /**
+   * Deletes an area. Its projects (trashed ones included) and goals move to
+   * `moveToAreaId`, or are left without an area.
+   */
+  const deleteArea = useCallback((id: string, moveToAreaId?: string, options?: ChangeOptions) => {
+    const area = findRecord('areas', id);
+    if (!area || moveToAreaId === id) return;
+    const projectChanges = current.current.projects
+      .filter(p => p.areaId === id)
+      .map((project): RecordChange => ({ entity: 'projects', id: project.id, before: project, after: { ...project, areaId: moveToAreaId }, fields: ['areaId'] }));
+    const goalChanges = current.current.goals
+      .filter(g => g.areaId === id)
+      .map((goal): RecordChange => ({ entity: 'goals', id: goal.id, before: goal, after: { ...goal, areaId: moveToAreaId }, fields: ['areaId'] }));
+    console.log('[TaskContext] Deleting area:', id, 'and moving', projectChanges.length, 'projects and', goalChanges.length, 'goals to', moveToAreaId ?? 'no area');
+    commit(`Deleted area "${area.title}"`, [...projectChanges, ...goalChanges, { entity: 'areas', id, before: area }], options);
+  }, [commit]);
+
+  const addGoal = useCallback((goal: Omit<Goal, 'id' | 'createdAt'>, options?: ChangeOptions) => {
     const newGoal: Goal = {
       ...goal,
       id: generateId(),
       createdAt: new Date().toISOString(),
     };
-    setGoals(prev => {
-      const updated = [...prev, newGoal];
-      syncGoals.mutate(updated);
-      return updated;
-    });
+    commit(`Added goal "${newGoal.title}"`, [{ entity: 'goals', id: newGoal.id, after: newGoal }], options);
     return newGoal;
-  }, [syncGoals]);
-
-  const updateGoal = useCallback((id: string, updates: Partial<Goal>) => {
-    setGoals(prev => {
-      const updated = prev.map(g => g.id === id ? { ...g, ...updates } : g);
-      syncGoals.mutate(updated);
-      return updated;
-    });
-  }, [syncGoals]);
+  }, [commit]);
+
+  const updateGoal = useCallback((id: string, updates: Partial<Goal>, options?: ChangeOptions) => {
+    const goal = findRecord('goals', id);
+    if (!goal) return;
+    const fields = changedFields(goal, updates);
+    if (fields.length === 0) return;
+    commit(`Edited goal "${goal.title}"`, [{ entity: 'goals', id, before: goal, after: { ...goal, ...updates }, fields }], options);
+  }, [commit]);
+
+  /** Also unlinks the goal from the projects that served it, trashed ones included. */
+  const deleteGoal = useCallback((id: string, options?: ChangeOptions) => {
+    const goal = findRecord('goals', id);
+    if (!goal) return;
+    const projectChanges = current.current.projects
+      .filter(p => p.goalIds?.includes(id))
+      .map((project): RecordChange => {
+        const goalIds = project.goalIds!.filter(goalId => goalId !== id);
+        return { entity: 'projects', id: project.id, before: project, after: { ...project, goalIds: goalIds.length > 0 ? goalIds : undefined }, fields: ['goalIds'] };
+      });
+    commit(`Deleted goal "${goal.title}"`, [...projectChanges, { entity: 'goals', id, before: goal }], options);
+  }, [commit]);
+
+  const addContext = useCallback((context: Omit<Context, 'id' | 'createdAt'>, options?: ChangeOptions) => {
+    const newContext: Context = {
+      ...context,
+      id: generateId(),
+      createdAt: new Date().toISOString(),
+    };
+    commit(`Added @${newContext.name}`, [{ entity: 'contexts', id: newContext.id, after: newContext }], options);
+    return newContext;
+  }, [commit]);
+
+  /** Renames, recolors and so on; tasks refer to the id, so none change. */
+  const updateContext = useCallback((id: string, updates: Partial<Context>, options?: ChangeOptions) => {
+    const context = findRecord('contexts', id);
+    if (!context) return;
+    const fields = changedFields(context, updates);
+    if (fields.length === 0) return;
+    commit(`Edited @${context.name}`, [{ entity: 'contexts', id, before: context, after: { ...context, ...updates }, fields }], options);
+  }, [commit]);
+
+  /** Archiving hides the context from pickers and filters; its tasks keep it. */
+  const archiveContext = useCallback((id: string, archived: boolean = true, options?: ChangeOptions) => {
+    const context = findRecord('contexts', id);
+    if (!context || !!context.archivedAt === archived) return;
+    const after: Context = { ...context, archivedAt: archived ? new Date().toISOString() : undefined };
+    commit(`${archived ? 'Archived' : 'Unarchived'} @${context.name}`, [{ entity: 'contexts', id, before: context, after, fields: ['archivedAt'] }], options);
+  }, [commit]);
+
+  const addContextSet = useCallback((set: Omit<ContextSet, 'id' | 'createdAt'>, options?: ChangeOptions) => {
+    const newSet: ContextSet = {
+      ...set,
+      id: generateId(),
+      createdAt: new Date().toISOString(),
+    };
+    commit(`Added set "${newSet.name}"`, [{ entity: 'contextSets', id: newSet.id, after: newSet }], options);
+    return newSet;
+  }, [commit]);
+
+  const updateContextSet = useCallback((id: string, updates: Partial<ContextSet>, options?: ChangeOptions) => {
+    const set = findRecord('contextSets', id);
+    if (!set) return;
+    const fields = changedFields(set, updates);
+    if (fields.length === 0) return;
+    commit(`Edited set "${set.name}"`, [{ entity: 'contextSets', id, before: set, after: { ...set, ...updates }, fields }], options);
+  }, [commit]);
+
+  const deleteContextSet = useCallback((id: string, options?: ChangeOptions) => {
+    const set = findRecord('contextSets', id);
+    if (!set) return;
+    commit(`Deleted set "${set.name}"`, [{ entity: 'contextSets', id, before: set }], options);
+  }, [commit]);
+
+  const importRecords = useCallback((result: Pick<ImportResult, 'tasks' | 'projects' | 'removedTaskIds'>) => {
+    console.log('[TaskContext] Importing:', result.tasks.length, 'tasks,', result.projects.length, 'projects');
+    const changes: RecordChange[] = [
+      ...result.projects.map((project): RecordChange => ({ entity: 'projects', id: project.id, after: project })),
+      ...result.tasks.map((task): RecordChange => {
+        const before = findRecord('tasks', task.id);
+        return { entity: 'tasks', id: task.id, before, after: task, fields: before && changedFields(before, task) };
+      }),
+      ...result.removedTaskIds.flatMap((id): RecordChange[] => {
+        const task = findRecord('tasks', id);
+        return task ? [{ entity: 'tasks', id, before: task }] : [];
+      }),
+    ];
+    commit(`Imported ${result.tasks.length} ${result.tasks.length === 1 ? 'task' : 'tasks'}`, changes, { source: 'import' });
+  }, [commit]);
+
+  /**
+   * Every task, including completed ones old enough to have been left on
+   * disk at startup. They stay in memory afterwards, like any other task.
+   */
+  const loadAllTasks = useCallback(async (): Promise<Task[]> => {
+    if (archiveLoaded) return current.current.tasks;
+    const stored = await loadCollection('tasks', taskSchema, []);
+    const known = new Set(current.current.tasks.map(t => t.id));
+    const archived = stored.filter(t => !known.has(t.id));
+    console.log('[TaskContext] Loaded archived tasks:', archived.length);
+    const all = [...current.current.tasks, ...archived];
+    setRecords('tasks', all);
+    setArchiveLoaded(true);
+    return all;
+  }, [archiveLoaded, setRecords]);
+
+  /**
+   * Moves every task and context set of one context to another, archived and
+   * trashed tasks included, then deletes the first context.
+   */
+  const mergeContexts = useCallback(async (fromId: string, intoId: string, options?: ChangeOptions) => {
+    const from = findRecord('contexts', fromId);
+    const into = findRecord('contexts', intoId);
+    if (!from || !into || fromId === intoId) return;
+    const replace = (ids: string[]) => [...new Set(ids.map(id => (id === fromId ? intoId : id)))];
+    const moved = (await loadAllTasks()).filter(t => t.contexts?.includes(fromId));
+    const sets = current.current.contextSets.filter(set => set.contextIds.includes(fromId));
+    console.log('[TaskContext] Merging context', fromId, 'into', intoId, 'with', moved.length, 'tasks');
+    commit(`Merged @${from.name} into @${into.name}`, [
+      ...moved.map((task): RecordChange => ({ entity: 'tasks', id: task.id, before: task, after: { ...task, contexts: replace(task.contexts!) }, fields: ['contexts'] })),
+      ...sets.map((set): RecordChange => ({ entity: 'contextSets', id: set.id, before: set, after: { ...set, contextIds: replace(set.contextIds) }, fields: ['contextIds'] })),
+      { entity: 'contexts', id: fromId, before: from },
+    ], options);
+  }, [loadAllTasks, commit]);
+
+  /** Applies a validated backup (see utils/backup.ts) and reports what changed. */
+  const restoreBackup = useCallback(async (data: Omit<BackupData, 'calendars'>, mode: RestoreMode): Promise<RestoreSummary> => {
+    console.log('[TaskContext] Restoring backup:', mode);
+    const plans = {
+      tasks: planRestore(await loadAllTasks(), data.tasks, mode),
+      projects: planRestore(current.current.projects, data.projects, mode),
+      areas: planRestore(current.current.areas, data.areas, mode),
+      goals: planRestore(current.current.goals, data.goals, mode),
+      // Older backups have none; keep the device's rather than clear them.
+      contexts: data.contexts ? planRestore(current.current.contexts, data.contexts, mode) : undefined,
+      contextSets: data.contextSets ? planRestore(current.current.contextSets, data.contextSets, mode) : undefined,
+    };
 
-  const deleteGoal = useCallback((id: string) => {
-    setGoals(prev => {
-      const updated = prev.filter(g => g.id !== id);
-      syncGoals.mutate(updated);
-      return updated;
-    });
-  }, [syncGoals]);
+    const summary: RestoreSummary = { added: 0, replaced: 0, removed: 0 };
+    const changes: RecordChange[] = [];
+    const collect = <E extends SyncEntity>(entity: E, plan: RestorePlan<SyncRecordMap[E]>) => {
+      plan.upserted.forEach(r => changes.push({ entity, id: r.id, before: findRecord(entity, r.id), after: r } as RecordChange));
+      plan.removedIds.forEach(id => changes.push({ entity, id, before: findRecord(entity, id) } as RecordChange));
+      summary.added += plan.summary.added;
+      summary.replaced += plan.summary.replaced;
+      summary.removed += plan.summary.removed;
+    };
+    collect('tasks', plans.tasks);
+    collect('projects', plans.projects);
+    collect('areas', plans.areas);
+    collect('goals', plans.goals);
+    if (plans.contexts) collect('contexts', plans.contexts);
+    if (plans.contextSets) collect('contextSets', plans.contextSets);
+    commit('Restored a backup', changes, { source: 'import' });
+    return summary;
+  }, [loadAllTasks, commit]);
 
   const getTasksByStatus = useCallback((status: TaskStatus) => {
     return tasks.filter(t => t.status === status);
   }, [tasks]);
 
+  /** In project order; see sortByProjectOrder. */
   const getTasksByProject = useCallback((projectId: string) => {
-    return tasks.filter(t => t.projectId === projectId);
+    return sortByProjectOrder(tasks.filter(t => t.projectId === projectId));
   }, [tasks]);
 
-  const getTasksByContext = useCallback((context: Context) => {
-    return tasks.filter(t => t.context === context && t.status !== 'done');
-  }, [tasks]);
+  // Blocked tasks, including all but the first of a sequential project, wait.
+  const getTasksByContext = useCallback((contextId: string) => {
+    return tasks.filter(t => t.contexts?.includes(contextId) && t.status !== 'done' && !dependencies.blockedBy.has(t.id));
+  }, [tasks, dependencies]);
+
+  const getProjectsByGoal = useCallback((goalId: string) => {
+    return projects.filter(p => p.goalIds?.includes(goalId));
+  }, [projects]);
 
   const getProjectProgress = useCallback((projectId: string) => {
     const projectTasks = tasks.filter(t => t.projectId === projectId);
@@ -264,19 +789,35 @@ export const [TaskProvider, useTasks] = createContextHook(() => {
     return Math.round((completed / projectTasks.length) * 100);
   }, [tasks]);
 
+  const getGoalProgress = useCallback((goalId: string) => {
+    const goal = goals.find(g => g.id === goalId);
+    return goal ? goalProgress(goal, getProjectsByGoal(goalId), getProjectProgress) : undefined;
+  }, [goals, getProjectsByGoal, getProjectProgress]);
+
+  /** Adds a dated entry to the goal's check-in log, recording its progress now. */
+  const checkInGoal = useCallback((id: string, note?: string, options?: ChangeOptions) => {
+    const goal = findRecord('goals', id);
+    if (!goal) return;
+    const checkIn = { id: generateId(), at: new Date().toISOString(), note: note?.trim() || undefined, progress: getGoalProgress(id)?.value };
+    const after: Goal = { ...goal, checkIns: [...(goal.checkIns ?? []), checkIn] };
+    commit(`Checked in on "${goal.title}"`, [{ entity: 'goals', id, before: goal, after, fields: ['checkIns'] }], options);
+  }, [commit, getGoalProgress]);
+
   const stats = useMemo(() => {
     const inbox = tasks.filter(t => t.status === 'inbox').length;
-    const next = tasks.filter(t => t.status === 'next').length;
-    const waiting = tasks.filter(t => t.status === 'waiting').length;
-    const someday = tasks.filter(t => t.status === 'someday').length;
+    const next = availableTasks.filter(t => t.status === 'next' && !dependencies.blockedBy.has(t.id)).length;
+    const blocked = availableTasks.filter(t => t.status === 'next' && dependencies.blockedBy.has(t.id)).length;
+    const waiting = availableTasks.filter(t => t.status === 'waiting').length;
+    const someday = availableTasks.filter(t => t.status === 'someday').length;
     const done = tasks.filter(t => t.status === 'done').length;
-    const today = tasks.filter(t => {
+    const deferred = deferredTasks.length;
+    const dueToday = availableTasks.filter(t => {
       if (!t.dueDate || t.status === 'done') return false;
       const due = new Date(t.dueDate);
       const now = new Date();
       return due.toDateString() === now.toDateString();
     }).length;
-    const overdue = tasks.filter(t => {
+    const overdue = availableTasks.filter(t => {
       if (!t.dueDate || t.status === 'done') return false;
       const due = new Date(t.dueDate);
       const now = new Date();
@@ -284,32 +825,129 @@ export const [TaskProvider, useTasks] = createContextHook(() => {
       return due < now;
     }).length;
 
-    return { inbox, next, waiting, someday, done, today, overdue, total: tasks.length };
-  }, [tasks]);
+    return { inbox, next, waiting, someday, done, deferred, blocked, today: dueToday, overdue, total: tasks.length };
+  }, [tasks, availableTasks, deferredTasks, dependencies]);
+
+  const isLoading = tasksQuery.isLoading || projectsQuery.isLoading || areasQuery.isLoading || goalsQuery.isLoading || contextsQuery.isLoading || contextSetsQuery.isLoading;
 
-  const isLoading = tasksQuery.isLoading || projectsQuery.isLoading || areasQuery.isLoading || goalsQuery.isLoading;
+  // Purging is housekeeping rather than an edit, so it skips the undo history.
+  // Archived tasks are checked once a screen loads them.
+  useEffect(() => {
+    if (isLoading) return;
+    const cutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const expired = [
+      ...current.current.tasks.filter(t => t.trashedAt && t.trashedAt < cutoff).map((task): RecordChange => ({ entity: 'tasks', id: task.id, before: task })),
+      ...current.current.projects.filter(p => p.trashedAt && p.trashedAt < cutoff).map((project): RecordChange => ({ entity: 'projects', id: project.id, before: project })),
+    ];
+    if (expired.length === 0) return;
+    console.log('[TaskContext] Purging expired trash:', expired.length);
+    applyChanges(expired);
+  }, [isLoading, archiveLoaded, applyChanges]);
+
+  // runSync changes with every render; the loop below reads the latest one
+  // here so that it only restarts when the account does.
+  const latestRunSync = useRef(runSync);
+  useEffect(() => {
+    latestRunSync.current = runSync;
+  }, [runSync]);
+
+  // Starts once the stored data has loaded and again when the account
+  // changes; later data changes are pushed through recordChange.
+  useEffect(() => {
+    if (isLoading) return;
+    if (!userId) {
+      setSyncStatus({ enabled: false, syncing: false, pending: 0 });
+      setConflicts([]);
+      return;
+    }
+    setSyncStatus(prev => ({ ...prev, enabled: true }));
+    setSyncUser(userId)
+      .then(cleared => {
+        // The previous account's records were deleted; this effect runs
+        // again once their replacements have loaded, and seeds those.
+        if (cleared) return reloadRecords();
+        getConflicts().then(stored => setConflicts([...stored]));
+        return seedOutbox(async () => ({
+          tasks: await loadCollection('tasks', taskSchema, []),
+          projects: current.current.projects,
+          areas: current.current.areas,
+          goals: current.current.goals,
+          contexts: current.current.contexts,
+          contextSets: current.current.contextSets,
+        }));
+      })
+      .then(() => latestRunSync.current());
+
+    const interval = setInterval(() => latestRunSync.current(), SYNC_INTERVAL_MS);
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active') latestRunSync.current();
+    });
+    return () => {
+      clearInterval(interval);
+      subscription.remove();
+    };
+  }, [isLoading, userId, reloadRecords]);
 
   return {
     tasks,
+    availableTasks,
+    deferredTasks,
+    today,
+    dependencies,
     projects,
     areas,
     goals,
+    contexts,
+    contextSets,
     isLoading,
     stats,
+    syncStatus,
+    syncNow: runSync,
+    conflicts,
+    resolveConflict,
     addTask,
     updateTask,
     deleteTask,
     completeTask,
     moveTask,
+    reorderTask,
     addProject,
     updateProject,
     deleteProject,
+    promoteToProject,
+    addArea,
+    updateArea,
+    deleteArea,
     addGoal,
     updateGoal,
     deleteGoal,
+    checkInGoal,
+    addContext,
+    updateContext,
+    archiveContext,
+    mergeContexts,
+    addContextSet,
+    updateContextSet,
+    deleteContextSet,
+    importRecords,
+    restoreBackup,
+    trash,
+    restoreFromTrash,
+    deleteForever,
+    history,
+    canUndo: history.undo.length > 0,
+    canRedo: history.redo.length > 0,
+    undo,
+    redo,
+    loadAllTasks,
+    archiveLoaded,
+    quarantined,
+    discardQuarantine: discardQuarantine.mutate,
     getTasksByStatus,
     getTasksByProject,
     getTasksByContext,
+    getProjectsByGoal,
     getProjectProgress,
+    getGoalProgress,
   };
 });
@@ -1,9 +1,37 @@
+import { PGlite } from '@electric-sql/pglite';
 import { neon } from '@netlify/neon';
-import { drizzle } from 'drizzle-orm/neon-http';
+import { drizzle as drizzleNeon } from 'drizzle-orm/neon-http';
+import type { PgDatabase, PgQueryResultHKT } from 'drizzle-orm/pg-core';
+import { drizzle as drizzlePglite } from 'drizzle-orm/pglite';
+import { migrate } from 'drizzle-orm/pglite/migrator';
 
 import * as schema from './schema';
 
-export const db = drizzle({
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+/**
+ * Set DATABASE_DRIVER=pglite to run against an embedded Postgres instead of
+ * Neon. PGLITE_DATA_DIR persists it to disk; without it the database lives in
+ * memory and is gone when the process exits.
+ */
+export const isLocalDb = process.env.DATABASE_DRIVER === 'pglite';
+
+const localDb = isLocalDb
+    ? drizzlePglite({ schema, client: new PGlite(process.env.PGLITE_DATA_DIR) })
+    : null;
+
+export const db: Database = localDb ?? drizzleNeon({
     schema,
     client: neon()
-});
\ No newline at end of file
+});
+
+/**
+ * Applies the drizzle-kit migrations to the embedded database. Neon is
+ * migrated through the "db:migrate" script instead.
+ */
+export async function migrateLocalDb(migrationsFolder = './migrations') {
+    if (!localDb) {
+        throw new Error('migrateLocalDb requires DATABASE_DRIVER=pglite');
+    }
+    await migrate(localDb, { migrationsFolder });
+}
@@ -1,7 +1,210 @@
-import { integer, pgTable, varchar, text } from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
+import { type AnyPgColumn, bigint, index, integer, jsonb, pgSequence, pgTable, primaryKey, varchar, text } from 'drizzle-orm/pg-core';
+
+import type { ChecklistItem, GoalCheckIn, KeyResult, ProjectReference, Recurrence } from '../types/task';
+import type { FieldClocks } from '../utils/merge';
 
 export const posts = pgTable('posts', {
     id: integer().primaryKey().generatedAlwaysAsIdentity(),
     title: varchar({ length: 255 }).notNull(),
     content: text().notNull().default('')
-});
\ No newline at end of file
+});
+
+/**
+ * Accounts. Passwords are stored as PBKDF2 hashes (see backend/auth.ts).
+ */
+export const users = pgTable('users', {
+    id: text().primaryKey(),
+    email: text().notNull().unique(),
+    name: text(),
+    passwordHash: text().notNull(),
+    createdAt: text().notNull()
+});
+
+/**
+ * Signed-in devices. Only a SHA-256 hash of the bearer token is stored, so a
+ * leaked database does not leak usable tokens.
+ */
+export const sessions = pgTable('sessions', {
+    tokenHash: text().primaryKey(),
+    userId: text().notNull().references(() => users.id, { onDelete: 'cascade' }),
+    createdAt: text().notNull(),
+    expiresAt: text().notNull()
+}, (t) => [
+    index().on(t.userId)
+]);
+
+/**
+ * Personal access tokens for scripts and integrations that call the REST API
+ * (see backend/rest.ts). Like sessions, only the token's hash is stored;
+ * `prefix` is the start of the token, kept so the app can tell tokens apart.
+ */
+export const apiTokens = pgTable('api_tokens', {
+    id: text().primaryKey(),
+    userId: text().notNull().references(() => users.id, { onDelete: 'cascade' }),
+    name: text().notNull(),
+    prefix: text().notNull(),
+    tokenHash: text().notNull().unique(),
+    createdAt: text().notNull(),
+    lastUsedAt: text()
+}, (t) => [
+    index().on(t.userId)
+]);
+
+/**
+ * Secret calendar feed URLs (see backend/calendar.ts), one per user. The
+ * token in the URL is the only credential a calendar app can send, so it is
+ * hashed like the other tokens and replaced rather than revealed again.
+ */
+export const calendarFeeds = pgTable('calendar_feeds', {
+    userId: text().primaryKey().references(() => users.id, { onDelete: 'cascade' }),
+    tokenHash: text().notNull().unique(),
+    createdAt: text().notNull(),
+    lastFetchedAt: text()
+});
+
+/**
+ * ICS calendars the user subscribed to; the backend fetches them so the app
+ * does not run into CORS or keep the URLs' contents on every device.
+ */
+export const calendarSubscriptions = pgTable('calendar_subscriptions', {
+    id: text().primaryKey(),
+    userId: text().notNull().references(() => users.id, { onDelete: 'cascade' }),
+    name: text().notNull(),
+    url: text().notNull(),
+    color: text().notNull(),
+    createdAt: text().notNull(),
+    lastFetchedAt: text(),
+    lastError: text()
+}, (t) => [
+    index().on(t.userId)
+]);
+
+/**
+ * Every write to a GTD row takes the next value of this sequence, which
+ * orders the writes when devices pull them.
+ */
+export const syncSeq = pgSequence('sync_seq');
+
+/**
+ * Bookkeeping shared by the synced tables: `rev` counts accepted writes to
+ * the row, `seq` orders writes across tables, `txId` is the transaction that
+ * made the last one (devices pull by it, see backend/trpc/routes/sync.ts),
+ * `fieldClocks` records when each field was last written (see
+ * utils/merge.ts) and `deletedAt` marks a tombstone that is kept so other
+ * devices learn about the delete.
+ */
+const syncColumns = () => ({
+    rev: integer().notNull().default(1),
+    seq: bigint({ mode: 'number' }).notNull().default(sql`nextval('sync_seq')`),
+    txId: bigint({ mode: 'number' }).notNull().default(sql`pg_current_xact_id()::text::bigint`),
+    fieldClocks: jsonb().$type<FieldClocks>().notNull().default({}),
+    deletedAt: text()
+});
+
+/**
+ * Every GTD row belongs to one user. Ids are generated on the device, so they
+ * are only unique per user and the primary key includes the owner.
+ */
+const ownerColumn = () => ({
+    userId: text().notNull().references(() => users.id, { onDelete: 'cascade' })
+});
+
+const ownerKeys = (t: { userId: AnyPgColumn; id: AnyPgColumn; txId: AnyPgColumn }) => [
+    primaryKey({ columns: [t.userId, t.id] }),
+    index().on(t.userId, t.txId)
+];
+
+/**
+ * GTD tables mirror the shapes in types/task.ts. Dates are stored as the same
+ * ISO strings the app uses, so rows round-trip without conversion.
+ */
+export const tasks = pgTable('tasks', {
+    ...ownerColumn(),
+    id: text().notNull(),
+    title: text().notNull(),
+    description: text(),
+    status: text({ enum: ['inbox', 'next', 'waiting', 'someday', 'done'] }).notNull(),
+    priority: text({ enum: ['high', 'medium', 'low'] }),
+    contexts: text().array(),
+    projectId: text(),
+    dueDate: text(),
+    startDate: text(),
+    waitUntil: text(),
+    waitingFor: text(),
+    dependsOn: text().array(),
+    checklist: jsonb().$type<ChecklistItem[]>(),
+    position: integer(),
+    tags: text().array().notNull().default([]),
+    createdAt: text().notNull(),
+    completedAt: text(),
+    estimatedMinutes: integer(),
+    metadata: jsonb().$type<Record<string, string>>(),
+    recurrence: jsonb().$type<Recurrence>(),
+    trashedAt: text(),
+    ...syncColumns()
+}, ownerKeys);
+
+export const projects = pgTable('projects', {
+    ...ownerColumn(),
+    id: text().notNull(),
+    title: text().notNull(),
+    description: text(),
+    outcome: text(),
+    notes: text(),
+    references: jsonb().$type<ProjectReference[]>(),
+    areaId: text(),
+    goalIds: text().array(),
+    status: text({ enum: ['active', 'completed', 'on-hold'] }).notNull(),
+    type: text({ enum: ['parallel', 'sequential'] }),
+    dueDate: text(),
+    createdAt: text().notNull(),
+    completedAt: text(),
+    color: text().notNull(),
+    trashedAt: text(),
+    ...syncColumns()
+}, ownerKeys);
+
+export const areas = pgTable('areas', {
+    ...ownerColumn(),
+    id: text().notNull(),
+    title: text().notNull(),
+    description: text(),
+    icon: text().notNull(),
+    createdAt: text().notNull(),
+    ...syncColumns()
+}, ownerKeys);
+
+export const contexts = pgTable('contexts', {
+    ...ownerColumn(),
+    id: text().notNull(),
+    name: text().notNull(),
+    icon: text().notNull(),
+    color: text().notNull(),
+    archivedAt: text(),
+    createdAt: text().notNull(),
+    ...syncColumns()
+}, ownerKeys);
+
+export const contextSets = pgTable('context_sets', {
+    ...ownerColumn(),
+    id: text().notNull(),
+    name: text().notNull(),
+    contextIds: text().array().notNull().default([]),
+    createdAt: text().notNull(),
+    ...syncColumns()
+}, ownerKeys);
+
+export const goals = pgTable('goals', {
+    ...ownerColumn(),
+    id: text().notNull(),
+    title: text().notNull(),
+    description: text(),
+    horizon: text({ enum: ['1-year', '3-year', '5-year', 'vision'] }).notNull(),
+    areaId: text(),
+    targetDate: text(),
+    keyResults: jsonb().$type<KeyResult[]>(),
+    checkIns: jsonb().$type<GoalCheckIn[]>(),
+    createdAt: text().notNull(),
+    ...syncColumns()
+}, ownerKeys);
@@ -0,0 +1,46 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const AUTH_KEY = 'taskflow_auth';
+
+export interface AccountUser {
+  id: string;
+  email: string;
+  name?: string;
+}
+
+export interface AuthSession {
+  token: string;
+  expiresAt: string;
+  user: AccountUser;
+}
+
+let session: AuthSession | null = null;
+let loading: Promise<AuthSession | null> | null = null;
+
+/** The stored session, read once and then kept in memory. */
+export function loadSession(): Promise<AuthSession | null> {
+  if (!loading) {
+    loading = AsyncStorage.getItem(AUTH_KEY).then(stored => {
+      session = stored ? JSON.parse(stored) : null;
+      if (session && new Date(session.expiresAt) <= new Date()) session = null;
+      return session;
+    });
+  }
+  return loading;
+}
+
+export async function saveSession(next: AuthSession | null) {
+  session = next;
+  loading = Promise.resolve(next);
+  if (next) {
+    await AsyncStorage.setItem(AUTH_KEY, JSON.stringify(next));
+  } else {
+    await AsyncStorage.removeItem(AUTH_KEY);
+  }
+}
+
+/** Headers for API calls: the bearer token when signed in, nothing otherwise. */
+export async function getAuthHeaders(): Promise<Record<string, string>> {
+  const current = await loadSession();
+  return current ? { authorization: `Bearer ${current.token}` } : {};
+}
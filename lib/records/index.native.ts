@@ -0,0 +1,105 @@
+import * as SQLite from 'expo-sqlite';
+
+import { COLLECTIONS, RECORD_INDEXES, indexValues, type Collection, type RecordIndex, type RecordStore, type StoredRow } from './types';
+
+export * from './types';
+
+const DATABASE_NAME = 'taskflow.db';
+
+// One table for every collection; the indexed fields are copied out of the
+// JSON into their own columns so SQLite can index them.
+const SCHEMA = `
+PRAGMA journal_mode = WAL;
+CREATE TABLE IF NOT EXISTS records (
+  collection TEXT NOT NULL,
+  id TEXT NOT NULL,
+  ${RECORD_INDEXES.map(index => `${index} TEXT`).join(',\n  ')},
+  data TEXT NOT NULL,
+  PRIMARY KEY (collection, id)
+);
+${RECORD_INDEXES.map(index => `CREATE INDEX IF NOT EXISTS records_${index} ON records (collection, ${index});`).join('\n')}
+`;
+
+interface Row {
+  id: string;
+  data: string;
+}
+
+function toStoredRow(row: Row): StoredRow {
+  try {
+    return { id: row.id, record: JSON.parse(row.data) };
+  } catch {
+    // Left as text so validation quarantines it.
+    return { id: row.id, record: row.data };
+  }
+}
+
+// Guards the column names interpolated into SQL below.
+function column(index: RecordIndex): string {
+  if (!RECORD_INDEXES.includes(index)) throw new Error(`Unknown index: ${index}`);
+  return index;
+}
+
+async function insert(db: SQLite.SQLiteDatabase, collection: Collection, records: { id: string }[]) {
+  const statement = await db.prepareAsync(
+    `INSERT OR REPLACE INTO records (collection, id, ${RECORD_INDEXES.join(', ')}, data) VALUES (?, ?, ${RECORD_INDEXES.map(() => '?').join(', ')}, ?)`,
+  );
+  try {
+    for (const record of records) {
+      const values = indexValues(record);
+      await statement.executeAsync([collection, record.id, ...RECORD_INDEXES.map(index => values[index] ?? null), JSON.stringify(record)]);
+    }
+  } finally {
+    await statement.finalizeAsync();
+  }
+}
+
+export async function openRecordStore(): Promise<RecordStore> {
+  const db = await SQLite.openDatabaseAsync(DATABASE_NAME);
+  await db.execAsync(SCHEMA);
+  console.log('[Records] Opened SQLite store for', COLLECTIONS.join(', '));
+
+  return {
+    async getAll(collection) {
+      const rows = await db.getAllAsync<Row>('SELECT id, data FROM records WHERE collection = ?', [collection]);
+      return rows.map(toStoredRow);
+    },
+
+    async getWhere(collection, index, value) {
+      const rows = await db.getAllAsync<Row>(
+        `SELECT id, data FROM records WHERE collection = ? AND ${column(index)} = ?`,
+        [collection, value],
+      );
+      return rows.map(toStoredRow);
+    },
+
+    async getFrom(collection, index, from) {
+      const rows = await db.getAllAsync<Row>(
+        `SELECT id, data FROM records WHERE collection = ? AND ${column(index)} >= ?`,
+        [collection, from],
+      );
+      return rows.map(toStoredRow);
+    },
+
+    async put(collection, records) {
+      if (records.length === 0) return;
+      await db.withTransactionAsync(() => insert(db, collection, records));
+    },
+
+    async remove(collection, ids) {
+      if (ids.length === 0) return;
+      await db.withTransactionAsync(async () => {
+        for (const id of ids) {
+          await db.runAsync('DELETE FROM records WHERE collection = ? AND id = ?', [collection, id]);
+        }
+      });
+    },
+
+    async replace(collection, records) {
+      await db.withTransactionAsync(async () => {
+        await db.runAsync('DELETE FROM records WHERE collection = ?', [collection]);
+        await insert(db, collection, records);
+      });
+    },
+  };
+}
@@ -0,0 +1,83 @@
+import { COLLECTIONS, RECORD_INDEXES, type Collection, type RecordStore, type StoredRow } from './types';
+
+export * from './types';
+
+// The browser build; devices use SQLite (see index.native.ts).
+
+const DATABASE_NAME = 'taskflow';
+// Bumped when a collection is added, so onupgradeneeded creates its store.
+const DATABASE_VERSION = 3;
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function done(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'));
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  const req = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+  req.onupgradeneeded = () => {
+    const db = req.result;
+    COLLECTIONS.forEach(collection => {
+      if (db.objectStoreNames.contains(collection)) return;
+      const store = db.createObjectStore(collection, { keyPath: 'id' });
+      RECORD_INDEXES.forEach(index => store.createIndex(index, index));
+    });
+  };
+  return request(req);
+}
+
+const toStoredRows = (records: { id: string }[]): StoredRow[] => records.map(record => ({ id: record.id, record }));
+
+export async function openRecordStore(): Promise<RecordStore> {
+  const db = await openDatabase();
+  console.log('[Records] Opened IndexedDB store for', COLLECTIONS.join(', '));
+
+  const read = (collection: Collection) => db.transaction(collection, 'readonly').objectStore(collection);
+
+  const write = async (collection: Collection, change: (store: IDBObjectStore) => void) => {
+    const tx = db.transaction(collection, 'readwrite');
+    change(tx.objectStore(collection));
+    await done(tx);
+  };
+
+  return {
+    async getAll(collection) {
+      return toStoredRows(await request(read(collection).getAll()));
+    },
+
+    async getWhere(collection, index, value) {
+      return toStoredRows(await request(read(collection).index(index).getAll(value)));
+    },
+
+    async getFrom(collection, index, from) {
+      return toStoredRows(await request(read(collection).index(index).getAll(IDBKeyRange.lowerBound(from))));
+    },
+
+    async put(collection, records) {
+      if (records.length === 0) return;
+      await write(collection, store => records.forEach(record => store.put(record)));
+    },
+
+    async remove(collection, ids) {
+      if (ids.length === 0) return;
+      await write(collection, store => ids.forEach(id => store.delete(id)));
+    },
+
+    async replace(collection, records) {
+      await write(collection, store => {
+        store.clear();
+        records.forEach(record => store.put(record));
+      });
+    },
+  };
+}
@@ -0,0 +1,40 @@
+// A store that reads and writes records one at a time, so saving a task does
+// not rewrite every other task. SQLite backs it on devices and IndexedDB in
+// the browser; lib/storage.ts validates what comes out of it.
+
+export const COLLECTIONS = ['tasks', 'projects', 'areas', 'goals', 'contexts', 'contextSets'] as const;
+
+export type Collection = typeof COLLECTIONS[number];
+
+/** Fields kept in an index, for every collection that has them. */
+export const RECORD_INDEXES = ['status', 'projectId', 'dueDate', 'completedAt'] as const;
+
+export type RecordIndex = typeof RECORD_INDEXES[number];
+
+/** A record as stored; `record` is unchecked and may not be valid. */
+export interface StoredRow {
+  id: string;
+  record: unknown;
+}
+
+export interface RecordStore {
+  getAll(collection: Collection): Promise<StoredRow[]>;
+  /** Records whose indexed field equals `value`. */
+  getWhere(collection: Collection, index: RecordIndex, value: string): Promise<StoredRow[]>;
+  /** Records whose indexed field sorts at or after `from`. */
+  getFrom(collection: Collection, index: RecordIndex, from: string): Promise<StoredRow[]>;
+  put(collection: Collection, records: { id: string }[]): Promise<void>;
+  remove(collection: Collection, ids: string[]): Promise<void>;
+  /** Swaps the whole collection for `records` in one transaction. */
+  replace(collection: Collection, records: { id: string }[]): Promise<void>;
+}
+
+/** The indexed values of a record; anything that is not a string is left out. */
+export function indexValues(record: object): Partial<Record<RecordIndex, string>> {
+  const values: Partial<Record<RecordIndex, string>> = {};
+  RECORD_INDEXES.forEach(index => {
+    const value = (record as Record<string, unknown>)[index];
+    if (typeof value === 'string') values[index] = value;
+  });
+  return values;
+}
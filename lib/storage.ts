@@ -0,0 +1,320 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type * as z from 'zod';
+
+import { COLLECTIONS, openRecordStore, type Collection, type RecordIndex, type RecordStore, type StoredRow } from '@/lib/records';
+import { DEFAULT_AREAS, DEFAULT_CONTEXTS } from '@/types/task';
+import { toContextList } from '@/utils/contexts';
+import { generateId } from '@/utils/helpers';
+
+// The records the app keeps on the device, in the per-record store from
+// lib/records. A single version number covers all of them. When the shape of
+// a record changes, append a migration that rewrites the stored arrays; the
+// last migration's version is the current one.
+
+export type { Collection } from '@/lib/records';
+
+// Before version 2 each collection was one JSON array in AsyncStorage.
+const LEGACY_KEYS: Record<Collection, string> = {
+  tasks: 'taskflow_tasks',
+  projects: 'taskflow_projects',
+  areas: 'taskflow_areas',
+  goals: 'taskflow_goals',
+  // Added after the move; no install has these keys.
+  contexts: 'taskflow_contexts',
+  contextSets: 'taskflow_context_sets',
+};
+const RECORD_STORE_VERSION = 2;
+
+const VERSION_KEY = 'taskflow_storage_version';
+const QUARANTINE_KEY = 'taskflow_quarantine';
+
+/** Stored arrays as they are on disk; a migration must not assume they are valid. */
+export type StoredCollections = Partial<Record<Collection, unknown[]>>;
+
+interface Migration {
+  version: number;
+  description: string;
+  /** May run again on its own output if the app stops mid-migration. */
+  migrate: (stored: StoredCollections) => StoredCollections;
+}
+
+/** In order; each runs once, on installs whose version is below its own. */
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Mark data saved before storage was versioned',
+    migrate: stored => stored,
+  },
+  {
+    // The move itself happens in migrate(), which reads the old arrays for
+    // installs below RECORD_STORE_VERSION.
+    version: RECORD_STORE_VERSION,
+    description: 'Move records into the per-record store',
+    migrate: stored => stored,
+  },
+  {
+    version: 3,
+    description: 'Give tasks a list of contexts instead of one',
+    migrate: stored => ({ ...stored, tasks: stored.tasks?.map(toContextList) }),
+  },
+  {
+    // The defaults used to stand in for an empty collection without being
+    // saved, so the first context saved dropped the rest.
+    version: 4,
+    description: 'Store the default contexts',
+    migrate: stored => ({
+      ...stored,
+      contexts: withDefaults(stored.contexts, DEFAULT_CONTEXTS, referencedIds(stored.tasks, 'contexts')),
+    }),
+  },
+  {
+    // As for contexts. A legacy "[]" means every area was deleted and stays empty.
+    version: 5,
+    description: 'Store the default areas',
+    migrate: stored => ({
+      ...stored,
+      areas: withDefaults(stored.areas, DEFAULT_AREAS, referencedIds([...stored.projects ?? [], ...stored.goals ?? []], 'areaId')),
+    }),
+  },
+];
+
+export const STORAGE_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/** A stored record that failed validation, set aside instead of loaded. */
+export interface QuarantinedRecord {
+  id: string;
+  collection: Collection;
+  /** The record as stored, or the whole raw value when it was not JSON. */
+  record: unknown;
+  error: string;
+  quarantinedAt: string;
+}
+
+/** Which records to read, by index; see lib/records. */
+export type RecordQuery =
+  | { index: RecordIndex; equals: string }
+  | { index: RecordIndex; from: string };
+
+export interface RecordChanges<T> {
+  put?: T[];
+  remove?: string[];
+}
+
+let store: Promise<RecordStore> | null = null;
+let migrating: Promise<void> | null = null;
+let writes: Promise<unknown> = Promise.resolve();
+
+function getStore(): Promise<RecordStore> {
+  if (!store) {
+    store = openRecordStore().catch(error => {
+      store = null;
+      throw error;
+    });
+  }
+  return store;
+}
+
+const hasId = (record: unknown): record is { id: string } =>
+  typeof record === 'object' && record !== null && typeof (record as { id?: unknown }).id === 'string';
+
+/** The ids that `field` (one id or a list of them) holds across `list`. */
+function referencedIds(list: unknown[] | undefined, field: string): Set<string> {
+  const ids = new Set<string>();
+  list?.forEach(record => {
+    const value = typeof record === 'object' && record !== null ? (record as Record<string, unknown>)[field] : undefined;
+    (Array.isArray(value) ? value : [value]).forEach(id => {
+      if (typeof id === 'string') ids.add(id);
+    });
+  });
+  return ids;
+}
+
+/**
+ * A collection with its built-in records: all of them when it was never
+ * saved, otherwise the missing ones other records still point at.
+ */
+function withDefaults(list: unknown[] | undefined, defaults: { id: string }[], referenced: Set<string>): unknown[] {
+  if (!list) return defaults;
+  const ids = new Set(list.filter(hasId).map(record => record.id));
+  return [...list, ...defaults.filter(record => !ids.has(record.id) && referenced.has(record.id))];
+}
+
+async function readLegacy(): Promise<{ stored: StoredCollections; unreadable: QuarantinedRecord[] }> {
+  const entries = await AsyncStorage.multiGet(COLLECTIONS.map(c => LEGACY_KEYS[c]));
+  const stored: StoredCollections = {};
+  const unreadable: QuarantinedRecord[] = [];
+  const quarantinedAt = new Date().toISOString();
+  COLLECTIONS.forEach((collection, i) => {
+    const raw = entries[i][1];
+    if (raw === null) return;
+    try {
+      const parsed = JSON.parse(raw);
+      if (!Array.isArray(parsed)) throw new Error('Not a JSON array');
+      stored[collection] = parsed;
+    } catch {
+      unreadable.push({ id: generateId(), collection, record: raw, error: 'Not a JSON array', quarantinedAt });
+    }
+  });
+  return { stored, unreadable };
+}
+
+async function migrate() {
+  const storedVersion = Number(await AsyncStorage.getItem(VERSION_KEY) ?? 0);
+  if (storedVersion > STORAGE_VERSION) {
+    // Written by a newer build; leave it alone so that build can still read it.
+    console.log('[Storage] Data is from a newer version:', storedVersion);
+    return;
+  }
+  const pending = MIGRATIONS.filter(m => m.version > storedVersion);
+  if (pending.length === 0) return;
+
+  const records = await getStore();
+  const fromLegacy = storedVersion < RECORD_STORE_VERSION;
+  const unreadable: QuarantinedRecord[] = [];
+  let stored: StoredCollections = {};
+  if (fromLegacy) {
+    const legacy = await readLegacy();
+    stored = legacy.stored;
+    unreadable.push(...legacy.unreadable);
+  } else {
+    // An empty collection reads as never saved, as it does for legacy keys.
+    for (const collection of COLLECTIONS) {
+      const rows = await records.getAll(collection);
+      if (rows.length > 0) stored[collection] = rows.map(row => row.record);
+    }
+  }
+
+  for (const migration of pending) {
+    console.log(`[Storage] Migrating to version ${migration.version}: ${migration.description}`);
+    stored = migration.migrate(stored);
+  }
+
+  // The store is keyed by id, so anything without one cannot go in.
+  const quarantinedAt = new Date().toISOString();
+  for (const collection of COLLECTIONS) {
+    const list = stored[collection];
+    if (!list) continue;
+    list.filter(r => !hasId(r)).forEach(record => {
+      unreadable.push({ id: generateId(), collection, record, error: 'id: Missing', quarantinedAt });
+    });
+    await records.replace(collection, list.filter(hasId));
+  }
+  if (unreadable.length > 0) await quarantine(unreadable);
+  if (fromLegacy) await AsyncStorage.multiRemove(COLLECTIONS.map(c => LEGACY_KEYS[c]));
+  await AsyncStorage.setItem(VERSION_KEY, String(STORAGE_VERSION));
+}
+
+/**
+ * Brings stored data up to the current version. Runs once per launch;
+ * later calls wait for the first. A failed migration leaves the version
+ * untouched so the next launch tries again.
+ */
+export function runMigrations(): Promise<void> {
+  if (!migrating) {
+    migrating = migrate().catch(error => {
+      console.error('[Storage] Migration failed:', error);
+      migrating = null;
+      throw error;
+    });
+  }
+  return migrating;
+}
+
+export async function getQuarantine(): Promise<QuarantinedRecord[]> {
+  const stored = await AsyncStorage.getItem(QUARANTINE_KEY);
+  return stored ? JSON.parse(stored) : [];
+}
+
+async function quarantine(records: QuarantinedRecord[]) {
+  const existing = await getQuarantine();
+  await AsyncStorage.setItem(QUARANTINE_KEY, JSON.stringify([...existing, ...records]));
+}
+
+export async function clearQuarantine() {
+  await AsyncStorage.removeItem(QUARANTINE_KEY);
+}
+
+/**
+ * Records that fail the schema are moved to the quarantine and the rest are
+ * returned, so one bad record cannot stop the app from starting. Valid
+ * records are returned as stored rather than as parsed, so fields a newer
+ * build added survive.
+ */
+async function validate<T>(collection: Collection, rows: StoredRow[], schema: z.ZodType<T>): Promise<T[]> {
+  const quarantinedAt = new Date().toISOString();
+  const valid: T[] = [];
+  const invalid: QuarantinedRecord[] = [];
+  rows.forEach(({ id, record }) => {
+    const result = schema.safeParse(record);
+    if (result.success) {
+      valid.push(record as T);
+    } else {
+      const issue = result.error.issues[0];
+      invalid.push({ id, collection, record, error: `${issue.path.join('.') || 'record'}: ${issue.message}`, quarantinedAt });
+    }
+  });
+
+  if (invalid.length > 0) {
+    console.log('[Storage] Quarantining invalid records:', collection, invalid.length);
+    await quarantine(invalid.map(entry => ({ ...entry, id: generateId() })));
+    await saveRecords(collection, { remove: invalid.map(entry => entry.id) });
+  }
+  return valid;
+}
+
+/** Reads a whole collection; an empty one reads as `fallback`. Sees every write made before it. */
+export async function loadCollection<T>(collection: Collection, schema: z.ZodType<T>, fallback: T[]): Promise<T[]> {
+  await runMigrations();
+  await writes;
+  const rows = await (await getStore()).getAll(collection);
+  if (rows.length === 0) return fallback;
+  return validate(collection, rows, schema);
+}
+
+/**
+ * Deletes every record and the quarantine, leaving the built-in contexts and
+ * areas as on a fresh install. Waits for writes made before it.
+ */
+export function clearRecords(): Promise<void> {
+  const next = writes.then(async () => {
+    await runMigrations();
+    const records = await getStore();
+    for (const collection of COLLECTIONS) {
+      await records.replace(collection, collection === 'contexts' ? DEFAULT_CONTEXTS : collection === 'areas' ? DEFAULT_AREAS : []);
+    }
+    await clearQuarantine();
+  });
+  writes = next.catch(() => undefined);
+  return next;
+}
+
+/** Reads the records matching any of `queries`, each once. Sees every write made before it. */
+export async function loadRecords<T>(collection: Collection, schema: z.ZodType<T>, queries: RecordQuery[]): Promise<T[]> {
+  await runMigrations();
+  await writes;
+  const records = await getStore();
+  const byId = new Map<string, StoredRow>();
+  for (const query of queries) {
+    const rows = 'equals' in query
+      ? await records.getWhere(collection, query.index, query.equals)
+      : await records.getFrom(collection, query.index, query.from);
+    rows.forEach(row => byId.set(row.id, row));
+  }
+  return validate(collection, Array.from(byId.values()), schema);
+}
+
+/**
+ * Writes only the records that changed. Writes are applied one after
+ * another in the order they were made, so a slow write cannot land after a
+ * newer one for the same record.
+ */
+export function saveRecords<T extends { id: string }>(collection: Collection, changes: RecordChanges<T>): Promise<void> {
+  const next = writes.then(async () => {
+    await runMigrations();
+    const records = await getStore();
+    if (changes.put?.length) await records.put(collection, changes.put);
+    if (changes.remove?.length) await records.remove(collection, changes.remove);
+  });
+  writes = next.catch(() => undefined);
+  return next;
+}
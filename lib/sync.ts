@@ -0,0 +1,287 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { clearRecords } from '@/lib/storage';
+import { trpcClient } from '@/lib/trpc';
+import type { PushResult, RemoteChange, SyncChange, SyncEntity, SyncOp, SyncRecordMap } from '@/types/sync';
+import { generateId } from '@/utils/helpers';
+import { overlayEdits, type FieldConflict, type FieldEdits } from '@/utils/merge';
+
+const SYNC_STATE_KEY = 'taskflow_sync';
+const PUSH_BATCH_SIZE = 200;
+
+type OutboxEntry = SyncChange & { stamp: number; fields: FieldEdits };
+
+/** A field that two devices changed concurrently, kept for the user to review. */
+export interface SyncConflict extends FieldConflict {
+  id: string;
+  entity: SyncEntity;
+  recordId: string;
+  detectedAt: string;
+}
+
+interface SyncState {
+  /** Account the cursor and revisions below belong to. */
+  userId?: string;
+  /** Last server transaction already pulled (see the server's pull). */
+  cursor: number;
+  /** Last server revision seen per record, keyed by `entity:id`. */
+  revs: Record<string, number>;
+  outbox: OutboxEntry[];
+  conflicts: SyncConflict[];
+  /** Whether the records that predate sync have been queued for upload. */
+  seeded: boolean;
+}
+
+export interface SyncSummary {
+  pushed: number;
+  pulled: number;
+  pending: number;
+  conflicts: SyncConflict[];
+}
+
+const recordKey = (entity: SyncEntity, id: string) => `${entity}:${id}`;
+
+let state: SyncState | null = null;
+let nextStamp = 1;
+let loading: Promise<SyncState> | null = null;
+let inFlight: Promise<SyncSummary> | null = null;
+
+function loadState(): Promise<SyncState> {
+  if (state) return Promise.resolve(state);
+  if (!loading) {
+    loading = AsyncStorage.getItem(SYNC_STATE_KEY).then(stored => {
+      state = { cursor: 0, revs: {}, outbox: [], conflicts: [], seeded: false, ...(stored ? JSON.parse(stored) : {}) };
+      nextStamp = Math.max(0, ...state!.outbox.map(e => e.stamp)) + 1;
+      return state!;
+    });
+  }
+  return loading;
+}
+
+function saveState() {
+  if (!state) return;
+  AsyncStorage.setItem(SYNC_STATE_KEY, JSON.stringify(state)).catch(error => {
+    console.error('[Sync] Failed to save sync state:', error);
+  });
+}
+
+const findEntry = (s: SyncState, entity: SyncEntity, id: string) =>
+  s.outbox.find(e => e.entity === entity && e.id === id);
+
+function enqueue(s: SyncState, entity: SyncEntity, op: SyncOp, id: string, record?: object, fields?: string[]) {
+  const at = new Date().toISOString();
+  const edits: FieldEdits = {};
+  (fields ?? Object.keys(record ?? {})).forEach(field => {
+    edits[field] = at;
+  });
+
+  const existing = findEntry(s, entity, id);
+  if (existing) {
+    // Coalesce: only the latest state of a record needs to reach the server,
+    // measured against the revision the first queued edit started from.
+    Object.assign(existing, { op, record, fields: { ...existing.fields, ...edits }, stamp: nextStamp++ });
+  } else {
+    s.outbox.push({ entity, id, op, record, fields: edits, baseRev: s.revs[recordKey(entity, id)] ?? 0, stamp: nextStamp++ } as OutboxEntry);
+  }
+}
+
+/**
+ * Records a local write for the next push. `fields` names the fields the
+ * write changed; leave it out when the whole record is new. Safe to call
+ * while offline; the outbox is persisted and retried until the server
+ * acknowledges it.
+ */
+export function queueChange<E extends SyncEntity>(entity: E, op: SyncOp, id: string, record?: SyncRecordMap[E], fields?: string[]) {
+  loadState().then(s => {
+    enqueue(s, entity, op, id, op === 'upsert' ? record : undefined, fields);
+    saveState();
+  });
+}
+
+/**
+ * Queues every existing record the first time sync runs on a device, so data
+ * captured before sync existed is uploaded too. The records go up without
+ * field edits: one the server has never seen is stored whole, while a copy
+ * of one it already holds (a built-in context or area, say) never overwrites
+ * changes made on other devices.
+ */
+export async function seedOutbox(getRecords: () => Promise<{ [E in SyncEntity]: SyncRecordMap[E][] }>) {
+  const s = await loadState();
+  if (s.seeded) return;
+  const records = await getRecords();
+  (Object.keys(records) as SyncEntity[]).forEach(entity => {
+    records[entity].forEach(record => {
+      if (!(recordKey(entity, record.id) in s.revs)) enqueue(s, entity, 'upsert', record.id, record, []);
+    });
+  });
+  s.seeded = true;
+  saveState();
+}
+
+const resetState = (s: SyncState, userId?: string) =>
+  Object.assign(s, { userId, cursor: 0, revs: {}, outbox: [], conflicts: [], seeded: false });
+
+/**
+ * Ties sync to the signed-in account. The records on the device belong to
+ * the account they last synced with; when another one signs in (after the
+ * first one's session expired, say) they are deleted rather than uploaded to
+ * it. Resolves to whether they were.
+ */
+export async function setSyncUser(userId: string): Promise<boolean> {
+  const s = await loadState();
+  if (s.userId === userId) return false;
+  const otherAccount = s.userId !== undefined;
+  console.log('[Sync] Binding sync state to account', userId);
+  if (otherAccount) await clearRecords();
+  resetState(s, userId);
+  saveState();
+  return otherAccount;
+}
+
+/** Signs the device out of sync: deletes its records and forgets the account. */
+export async function resetSync() {
+  const s = await loadState();
+  await clearRecords();
+  resetState(s);
+  saveState();
+}
+
+export async function getPendingCount(): Promise<number> {
+  return (await loadState()).outbox.length;
+}
+
+export async function getConflicts(): Promise<SyncConflict[]> {
+  return (await loadState()).conflicts;
+}
+
+/** Forgets a reviewed conflict. Returns the conflicts still open. */
+export async function dismissConflict(conflictId: string): Promise<SyncConflict[]> {
+  const s = await loadState();
+  s.conflicts = s.conflicts.filter(c => c.id !== conflictId);
+  saveState();
+  return s.conflicts;
+}
+
+/**
+ * Server copy of a record with any still-queued local edits laid on top, so
+ * the UI never jumps back to a value the user has just changed.
+ */
+function withPendingEdits(s: SyncState, change: RemoteChange): RemoteChange {
+  const pending = findEntry(s, change.entity, change.id);
+  if (!pending || pending.op !== 'upsert' || change.deleted || !change.record || !pending.record) return change;
+  return { ...change, record: overlayEdits(change.record, pending.record, pending.fields) } as RemoteChange;
+}
+
+function recordConflicts(s: SyncState, result: PushResult) {
+  const detectedAt = new Date().toISOString();
+  result.conflicts?.forEach(conflict => {
+    s.conflicts.push({ ...conflict, id: generateId(), entity: result.entity, recordId: result.id, detectedAt });
+  });
+}
+
+async function push(s: SyncState, apply: (changes: RemoteChange[]) => void): Promise<number> {
+  let pushed = 0;
+  while (s.outbox.length > 0) {
+    const batch = s.outbox.slice(0, PUSH_BATCH_SIZE);
+    const { results } = await trpcClient.sync.push.mutate({
+      changes: batch.map(({ stamp, ...change }) => change),
+    });
+
+    const adopted: RemoteChange[] = [];
+    results.forEach((result, index) => {
+      const sent = batch[index];
+      const key = recordKey(result.entity, result.id);
+      const pending = findEntry(s, result.entity, result.id);
+
+      if (result.rev > 0) s.revs[key] = result.rev;
+      else delete s.revs[key];
+
+      if (pending && pending.stamp !== sent.stamp) {
+        // Edited again while the push was in flight: send the newer edit
+        // against the revision the server just reached.
+        pending.baseRev = result.rev;
+      } else {
+        s.outbox = s.outbox.filter(e => e.stamp !== sent.stamp);
+      }
+
+      // The server's merge may include fields other devices changed.
+      if (result.current) adopted.push(withPendingEdits(s, result.current));
+      recordConflicts(s, result);
+    });
+
+    if (adopted.length > 0) apply(adopted);
+    pushed += batch.length;
+    saveState();
+  }
+  return pushed;
+}
+
+async function pull(s: SyncState, apply: (changes: RemoteChange[]) => void): Promise<number> {
+  let pulled = 0;
+  let hasMore = true;
+  while (hasMore) {
+    const page = await trpcClient.sync.pull.query({ since: s.cursor });
+    const incoming = page.changes.flatMap(change => {
+      const key = recordKey(change.entity, change.id);
+      // This device's own write, already applied when it was pushed.
+      if (key in s.revs && s.revs[key] >= change.rev) return [];
+      if (change.deleted) {
+        // A delete elsewhere wins over edits still queued here.
+        s.revs[key] = change.rev;
+        s.outbox = s.outbox.filter(e => !(e.entity === change.entity && e.id === change.id));
+        return change;
+      }
+      // Queued edits keep their original base revision so the server can
+      // still tell which of their fields were changed concurrently.
+      if (!findEntry(s, change.entity, change.id)) s.revs[key] = change.rev;
+      return withPendingEdits(s, change);
+    });
+
+    if (incoming.length > 0) apply(incoming);
+    pulled += incoming.length;
+    s.cursor = page.cursor;
+    hasMore = page.hasMore;
+    saveState();
+  }
+  return pulled;
+}
+
+/**
+ * Pushes the outbox, then pulls everything other devices wrote since the
+ * last run. `apply` receives server records that should replace local ones.
+ * Concurrent calls share one run. Rejects when the server is unreachable;
+ * nothing is lost and the next call picks up where this one stopped.
+ */
+export function syncNow(apply: (changes: RemoteChange[]) => void): Promise<SyncSummary> {
+  if (!inFlight) {
+    inFlight = (async () => {
+      const s = await loadState();
+      const pushed = await push(s, apply);
+      const pulled = await pull(s, apply);
+      return { pushed, pulled, pending: s.outbox.length, conflicts: s.conflicts };
+    })().finally(() => {
+      inFlight = null;
+    });
+  }
+  return inFlight;
+}
+
+/**
+ * Folds server records into a local list: updates and inserts by id, and
+ * drops records the server reports as deleted.
+ */
+export function mergeRemoteChanges<E extends SyncEntity>(
+  records: SyncRecordMap[E][],
+  changes: RemoteChange[],
+  entity: E,
+): SyncRecordMap[E][] {
+  const relevant = changes.filter(change => change.entity === entity);
+  if (relevant.length === 0) return records;
+
+  const byId = new Map(records.map(record => [record.id, record]));
+  relevant.forEach(change => {
+    if (change.deleted || !change.record) byId.delete(change.id);
+    else byId.set(change.id, change.record as SyncRecordMap[E]);
+  });
+  return Array.from(byId.values());
+}
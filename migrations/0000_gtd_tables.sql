@@ -0,0 +1,51 @@
+CREATE TABLE "areas" (
+	"id" text PRIMARY KEY NOT NULL,
+	"title" text NOT NULL,
+	"description" text,
+	"icon" text NOT NULL,
+	"createdAt" text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "goals" (
+	"id" text PRIMARY KEY NOT NULL,
+	"title" text NOT NULL,
+	"description" text,
+	"horizon" text NOT NULL,
+	"areaId" text,
+	"createdAt" text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "posts" (
+	"id" integer PRIMARY KEY GENERATED ALWAYS AS IDENTITY (sequence name "posts_id_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 START WITH 1 CACHE 1),
+	"title" varchar(255) NOT NULL,
+	"content" text DEFAULT '' NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "projects" (
+	"id" text PRIMARY KEY NOT NULL,
+	"title" text NOT NULL,
+	"description" text,
+	"outcome" text,
+	"areaId" text,
+	"status" text NOT NULL,
+	"dueDate" text,
+	"createdAt" text NOT NULL,
+	"completedAt" text,
+	"color" text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "tasks" (
+	"id" text PRIMARY KEY NOT NULL,
+	"title" text NOT NULL,
+	"description" text,
+	"status" text NOT NULL,
+	"priority" text,
+	"context" text,
+	"projectId" text,
+	"dueDate" text,
+	"waitingFor" text,
+	"tags" text[] DEFAULT '{}' NOT NULL,
+	"createdAt" text NOT NULL,
+	"completedAt" text,
+	"estimatedMinutes" integer
+);
@@ -0,0 +1,13 @@
+CREATE SEQUENCE "public"."sync_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 9223372036854775807 START WITH 1 CACHE 1;--> statement-breakpoint
+ALTER TABLE "areas" ADD COLUMN "rev" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "areas" ADD COLUMN "seq" bigint DEFAULT nextval('sync_seq') NOT NULL;--> statement-breakpoint
+ALTER TABLE "areas" ADD COLUMN "deletedAt" text;--> statement-breakpoint
+ALTER TABLE "goals" ADD COLUMN "rev" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "goals" ADD COLUMN "seq" bigint DEFAULT nextval('sync_seq') NOT NULL;--> statement-breakpoint
+ALTER TABLE "goals" ADD COLUMN "deletedAt" text;--> statement-breakpoint
+ALTER TABLE "projects" ADD COLUMN "rev" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "projects" ADD COLUMN "seq" bigint DEFAULT nextval('sync_seq') NOT NULL;--> statement-breakpoint
+ALTER TABLE "projects" ADD COLUMN "deletedAt" text;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "rev" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "seq" bigint DEFAULT nextval('sync_seq') NOT NULL;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "deletedAt" text;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "areas" ADD COLUMN "fieldClocks" jsonb DEFAULT '{}'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "goals" ADD COLUMN "fieldClocks" jsonb DEFAULT '{}'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "projects" ADD COLUMN "fieldClocks" jsonb DEFAULT '{}'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "fieldClocks" jsonb DEFAULT '{}'::jsonb NOT NULL;
\ No newline at end of file
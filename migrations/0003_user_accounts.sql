@@ -0,0 +1,42 @@
+CREATE TABLE "sessions" (
+	"tokenHash" text PRIMARY KEY NOT NULL,
+	"userId" text NOT NULL,
+	"createdAt" text NOT NULL,
+	"expiresAt" text NOT NULL
+);--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" text PRIMARY KEY NOT NULL,
+	"email" text NOT NULL,
+	"name" text,
+	"passwordHash" text NOT NULL,
+	"createdAt" text NOT NULL,
+	CONSTRAINT "users_email_unique" UNIQUE("email")
+);--> statement-breakpoint
+-- Rows written before accounts existed have no owner. Devices upload them
+-- again after signing in.
+DELETE FROM "areas";--> statement-breakpoint
+DELETE FROM "goals";--> statement-breakpoint
+DELETE FROM "projects";--> statement-breakpoint
+DELETE FROM "tasks";--> statement-breakpoint
+ALTER TABLE "areas" DROP CONSTRAINT "areas_pkey";--> statement-breakpoint
+ALTER TABLE "goals" DROP CONSTRAINT "goals_pkey";--> statement-breakpoint
+ALTER TABLE "projects" DROP CONSTRAINT "projects_pkey";--> statement-breakpoint
+ALTER TABLE "tasks" DROP CONSTRAINT "tasks_pkey";--> statement-breakpoint
+ALTER TABLE "areas" ADD COLUMN "userId" text NOT NULL;--> statement-breakpoint
+ALTER TABLE "goals" ADD COLUMN "userId" text NOT NULL;--> statement-breakpoint
+ALTER TABLE "projects" ADD COLUMN "userId" text NOT NULL;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "userId" text NOT NULL;--> statement-breakpoint
+ALTER TABLE "areas" ADD CONSTRAINT "areas_userId_id_pk" PRIMARY KEY("userId","id");--> statement-breakpoint
+ALTER TABLE "goals" ADD CONSTRAINT "goals_userId_id_pk" PRIMARY KEY("userId","id");--> statement-breakpoint
+ALTER TABLE "projects" ADD CONSTRAINT "projects_userId_id_pk" PRIMARY KEY("userId","id");--> statement-breakpoint
+ALTER TABLE "tasks" ADD CONSTRAINT "tasks_userId_id_pk" PRIMARY KEY("userId","id");--> statement-breakpoint
+ALTER TABLE "sessions" ADD CONSTRAINT "sessions_userId_users_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "sessions_userId_index" ON "sessions" USING btree ("userId");--> statement-breakpoint
+ALTER TABLE "areas" ADD CONSTRAINT "areas_userId_users_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "goals" ADD CONSTRAINT "goals_userId_users_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "projects" ADD CONSTRAINT "projects_userId_users_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "tasks" ADD CONSTRAINT "tasks_userId_users_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "areas_userId_seq_index" ON "areas" USING btree ("userId","seq");--> statement-breakpoint
+CREATE INDEX "goals_userId_seq_index" ON "goals" USING btree ("userId","seq");--> statement-breakpoint
+CREATE INDEX "projects_userId_seq_index" ON "projects" USING btree ("userId","seq");--> statement-breakpoint
+CREATE INDEX "tasks_userId_seq_index" ON "tasks" USING btree ("userId","seq");
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE "api_tokens" (
+	"id" text PRIMARY KEY NOT NULL,
+	"userId" text NOT NULL,
+	"name" text NOT NULL,
+	"prefix" text NOT NULL,
+	"tokenHash" text NOT NULL,
+	"createdAt" text NOT NULL,
+	"lastUsedAt" text,
+	CONSTRAINT "api_tokens_tokenHash_unique" UNIQUE("tokenHash")
+);
+--> statement-breakpoint
+ALTER TABLE "api_tokens" ADD CONSTRAINT "api_tokens_userId_users_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "api_tokens_userId_index" ON "api_tokens" USING btree ("userId");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "tasks" ADD COLUMN "metadata" jsonb;
\ No newline at end of file
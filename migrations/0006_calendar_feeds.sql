@@ -0,0 +1,9 @@
+CREATE TABLE "calendar_feeds" (
+	"userId" text PRIMARY KEY NOT NULL,
+	"tokenHash" text NOT NULL,
+	"createdAt" text NOT NULL,
+	"lastFetchedAt" text,
+	CONSTRAINT "calendar_feeds_tokenHash_unique" UNIQUE("tokenHash")
+);
+--> statement-breakpoint
+ALTER TABLE "calendar_feeds" ADD CONSTRAINT "calendar_feeds_userId_users_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
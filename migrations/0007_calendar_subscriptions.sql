@@ -0,0 +1,13 @@
+CREATE TABLE "calendar_subscriptions" (
+	"id" text PRIMARY KEY NOT NULL,
+	"userId" text NOT NULL,
+	"name" text NOT NULL,
+	"url" text NOT NULL,
+	"color" text NOT NULL,
+	"createdAt" text NOT NULL,
+	"lastFetchedAt" text,
+	"lastError" text
+);
+--> statement-breakpoint
+ALTER TABLE "calendar_subscriptions" ADD CONSTRAINT "calendar_subscriptions_userId_users_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "calendar_subscriptions_userId_index" ON "calendar_subscriptions" USING btree ("userId");
\ No newline at end of file
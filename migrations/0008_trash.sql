@@ -0,0 +1,2 @@
+ALTER TABLE "projects" ADD COLUMN "trashedAt" text;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "trashedAt" text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "tasks" ADD COLUMN "recurrence" jsonb;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "tasks" ADD COLUMN "startDate" text;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "waitUntil" text;
\ No newline at end of file
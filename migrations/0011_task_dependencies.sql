@@ -0,0 +1 @@
+ALTER TABLE "tasks" ADD COLUMN "dependsOn" text[];
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "tasks" ADD COLUMN "checklist" jsonb;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "projects" ADD COLUMN "type" text;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "position" integer;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "projects" ADD COLUMN "notes" text;--> statement-breakpoint
+ALTER TABLE "projects" ADD COLUMN "references" jsonb;
\ No newline at end of file
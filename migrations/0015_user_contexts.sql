@@ -0,0 +1,17 @@
+CREATE TABLE "contexts" (
+	"userId" text NOT NULL,
+	"id" text NOT NULL,
+	"name" text NOT NULL,
+	"icon" text NOT NULL,
+	"color" text NOT NULL,
+	"archivedAt" text,
+	"createdAt" text NOT NULL,
+	"rev" integer DEFAULT 1 NOT NULL,
+	"seq" bigint DEFAULT nextval('sync_seq') NOT NULL,
+	"fieldClocks" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"deletedAt" text,
+	CONSTRAINT "contexts_userId_id_pk" PRIMARY KEY("userId","id")
+);
+--> statement-breakpoint
+ALTER TABLE "contexts" ADD CONSTRAINT "contexts_userId_users_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "contexts_userId_seq_index" ON "contexts" USING btree ("userId","seq");
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE "context_sets" (
+	"userId" text NOT NULL,
+	"id" text NOT NULL,
+	"name" text NOT NULL,
+	"contextIds" text[] DEFAULT '{}' NOT NULL,
+	"createdAt" text NOT NULL,
+	"rev" integer DEFAULT 1 NOT NULL,
+	"seq" bigint DEFAULT nextval('sync_seq') NOT NULL,
+	"fieldClocks" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"deletedAt" text,
+	CONSTRAINT "context_sets_userId_id_pk" PRIMARY KEY("userId","id")
+);
+--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "contexts" text[];--> statement-breakpoint
+UPDATE "tasks" SET "contexts" = ARRAY["context"] WHERE "context" IS NOT NULL;--> statement-breakpoint
+ALTER TABLE "tasks" DROP COLUMN "context";--> statement-breakpoint
+ALTER TABLE "context_sets" ADD CONSTRAINT "context_sets_userId_users_id_fk" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "context_sets_userId_seq_index" ON "context_sets" USING btree ("userId","seq");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "projects" ADD COLUMN "goalIds" text[];
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "goals" ADD COLUMN "targetDate" text;--> statement-breakpoint
+ALTER TABLE "goals" ADD COLUMN "keyResults" jsonb;--> statement-breakpoint
+ALTER TABLE "goals" ADD COLUMN "checkIns" jsonb;
\ No newline at end of file
@@ -0,0 +1,18 @@
+DROP INDEX "areas_userId_seq_index";--> statement-breakpoint
+DROP INDEX "context_sets_userId_seq_index";--> statement-breakpoint
+DROP INDEX "contexts_userId_seq_index";--> statement-breakpoint
+DROP INDEX "goals_userId_seq_index";--> statement-breakpoint
+DROP INDEX "projects_userId_seq_index";--> statement-breakpoint
+DROP INDEX "tasks_userId_seq_index";--> statement-breakpoint
+ALTER TABLE "areas" ADD COLUMN "txId" bigint DEFAULT pg_current_xact_id()::text::bigint NOT NULL;--> statement-breakpoint
+ALTER TABLE "context_sets" ADD COLUMN "txId" bigint DEFAULT pg_current_xact_id()::text::bigint NOT NULL;--> statement-breakpoint
+ALTER TABLE "contexts" ADD COLUMN "txId" bigint DEFAULT pg_current_xact_id()::text::bigint NOT NULL;--> statement-breakpoint
+ALTER TABLE "goals" ADD COLUMN "txId" bigint DEFAULT pg_current_xact_id()::text::bigint NOT NULL;--> statement-breakpoint
+ALTER TABLE "projects" ADD COLUMN "txId" bigint DEFAULT pg_current_xact_id()::text::bigint NOT NULL;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "txId" bigint DEFAULT pg_current_xact_id()::text::bigint NOT NULL;--> statement-breakpoint
+CREATE INDEX "areas_userId_txId_index" ON "areas" USING btree ("userId","txId");--> statement-breakpoint
+CREATE INDEX "context_sets_userId_txId_index" ON "context_sets" USING btree ("userId","txId");--> statement-breakpoint
+CREATE INDEX "contexts_userId_txId_index" ON "contexts" USING btree ("userId","txId");--> statement-breakpoint
+CREATE INDEX "goals_userId_txId_index" ON "goals" USING btree ("userId","txId");--> statement-breakpoint
+CREATE INDEX "projects_userId_txId_index" ON "projects" USING btree ("userId","txId");--> statement-breakpoint
+CREATE INDEX "tasks_userId_txId_index" ON "tasks" USING btree ("userId","txId");
\ No newline at end of file
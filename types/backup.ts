@@ -0,0 +1,39 @@
+import type { ImportedCalendar } from './calendar';
+import type { Area, Context, ContextSet, Goal, Project, Task } from './task';
+
+// Full-device backups written and read by utils/backup.ts.
+
+export interface BackupData {
+  tasks: Task[];
+  projects: Project[];
+  areas: Area[];
+  goals: Goal[];
+  /** Missing from version 1 backups, made while contexts were built in. */
+  contexts?: Context[];
+  /** Missing from backups before version 3. */
+  contextSets?: ContextSet[];
+  /** Calendars imported from .ics files, which exist only on the device. */
+  calendars: ImportedCalendar[];
+}
+
+export interface Backup {
+  format: 'taskflow-backup';
+  /** Bumped whenever the shape of `data` changes; see BACKUP_VERSION. */
+  version: number;
+  exportedAt: string;
+  /** Over the JSON of `data`, to catch files damaged in transit. */
+  checksum: string;
+  data: BackupData;
+}
+
+/**
+ * `merge` adds what is missing on the device and keeps the device's copy of
+ * anything in both; `replace` makes the device match the backup exactly.
+ */
+export type RestoreMode = 'merge' | 'replace';
+
+export interface RestoreSummary {
+  added: number;
+  replaced: number;
+  removed: number;
+}
@@ -0,0 +1,46 @@
+import type { IcsEvent } from '@/utils/ics';
+
+// Events from other calendars, shown read-only next to tasks. They come from
+// imported .ics files (kept on the device) or from subscribed ICS URLs that
+// the backend fetches (see backend/trpc/routes/calendars.ts).
+
+/**
+ * A point in time as written in the calendar: `2026-11-01` for all-day
+ * events, `2026-11-01T09:00:00.000Z` for fixed times, or
+ * `2026-11-01T09:00:00` (no zone) for "floating" times that mean the same
+ * wall-clock time wherever the device is.
+ */
+export type EventTime = string;
+
+export interface CalendarEvent {
+  /** Unique per occurrence, so repeats of one event can be told apart. */
+  id: string;
+  calendarId: string;
+  title: string;
+  start: EventTime;
+  /** Exclusive; for all-day events, the day after the last day. */
+  end: EventTime;
+  allDay: boolean;
+  location?: string;
+  description?: string;
+}
+
+export interface CalendarSubscription {
+  id: string;
+  name: string;
+  url: string;
+  color: string;
+  createdAt: string;
+  lastFetchedAt?: string;
+  /** Why the last fetch failed, if it did. */
+  lastError?: string;
+}
+
+/** A calendar imported from an .ics file; kept on this device only. */
+export interface ImportedCalendar {
+  id: string;
+  name: string;
+  color: string;
+  importedAt: string;
+  events: IcsEvent[];
+}
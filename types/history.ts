@@ -0,0 +1,37 @@
+import type { SyncEntity, SyncRecordMap } from './sync';
+
+// Undo history for changes made through TaskContext. Every change is kept
+// as the records it touched, before and after, so it can be applied in
+// either direction.
+
+/**
+ * One record before and after a change; a missing side means the record did
+ * not exist. `fields` limits an update to the fields it edited.
+ */
+export interface RecordChangeOf<E extends SyncEntity> {
+  entity: E;
+  id: string;
+  before?: SyncRecordMap[E];
+  after?: SyncRecordMap[E];
+  fields?: string[];
+}
+
+export type RecordChange = { [E in SyncEntity]: RecordChangeOf<E> }[SyncEntity];
+
+export type ChangeSource = 'user' | 'assistant' | 'import';
+
+export interface HistoryEntry {
+  id: string;
+  /** What happened, for the snackbar and the history list. */
+  label: string;
+  source: ChangeSource;
+  group?: string;
+  changes: RecordChange[];
+  at: string;
+}
+
+export interface ChangeOptions {
+  source?: ChangeSource;
+  /** Consecutive changes in the same group undo together, e.g. one assistant reply. */
+  group?: string;
+}
@@ -0,0 +1,22 @@
+import type { Project, Task } from './task';
+
+// Shared result shape for the importers in utils/ (Taskwarrior, todo.txt...).
+
+export interface ImportReport {
+  created: number;
+  updated: number;
+  removed: number;
+  projectsCreated: number;
+  /** Items that were not imported at all, with the reason. */
+  skipped: { title: string; reason: string }[];
+  /** Source fields with no place in a Task, and how many items had them. */
+  unmapped: Record<string, number>;
+}
+
+export interface ImportResult {
+  /** New and updated tasks; updates keep the id of the task they replace. */
+  tasks: Task[];
+  projects: Project[];
+  removedTaskIds: string[];
+  report: ImportReport;
+}
@@ -0,0 +1,129 @@
+import * as z from 'zod';
+
+import type { Area, ChecklistItem, Context, ContextSet, Goal, GoalCheckIn, KeyResult, Project, ProjectReference, ProjectTasksAction, Recurrence, Task } from './task';
+
+// Runtime validators for the shapes in ./task. The backend validates tRPC
+// input with these and the app reuses them wherever persisted data is read back.
+
+export const taskStatusSchema = z.enum(['inbox', 'next', 'waiting', 'someday', 'done']);
+export const prioritySchema = z.enum(['high', 'medium', 'low']);
+
+export const recurrenceSchema = z.object({
+  frequency: z.enum(['daily', 'weekly', 'monthly', 'yearly']),
+  interval: z.number().int().positive().optional(),
+  weekdays: z.array(z.number().int().min(0).max(6)).optional(),
+  basis: z.enum(['schedule', 'completion']).optional(),
+  until: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  dayOfMonth: z.number().int().min(1).max(31).optional(),
+}) satisfies z.ZodType<Recurrence>;
+
+export const checklistItemSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  done: z.boolean(),
+}) satisfies z.ZodType<ChecklistItem>;
+
+export const taskSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  description: z.string().optional(),
+  status: taskStatusSchema,
+  priority: prioritySchema.optional(),
+  contexts: z.array(z.string()).optional(),
+  projectId: z.string().optional(),
+  dueDate: z.string().optional(),
+  startDate: z.string().optional(),
+  waitUntil: z.string().optional(),
+  waitingFor: z.string().optional(),
+  dependsOn: z.array(z.string()).optional(),
+  checklist: z.array(checklistItemSchema).optional(),
+  position: z.number().int().optional(),
+  tags: z.array(z.string()),
+  createdAt: z.string(),
+  completedAt: z.string().optional(),
+  estimatedMinutes: z.number().int().nonnegative().optional(),
+  metadata: z.record(z.string(), z.string()).optional(),
+  recurrence: recurrenceSchema.optional(),
+  trashedAt: z.string().optional(),
+}) satisfies z.ZodType<Task>;
+
+export const projectReferenceSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  url: z.string().optional(),
+}) satisfies z.ZodType<ProjectReference>;
+
+export const projectSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  description: z.string().optional(),
+  outcome: z.string().optional(),
+  notes: z.string().optional(),
+  references: z.array(projectReferenceSchema).optional(),
+  areaId: z.string().optional(),
+  goalIds: z.array(z.string()).optional(),
+  status: z.enum(['active', 'completed', 'on-hold']),
+  type: z.enum(['parallel', 'sequential']).optional(),
+  dueDate: z.string().optional(),
+  createdAt: z.string(),
+  completedAt: z.string().optional(),
+  color: z.string(),
+  trashedAt: z.string().optional(),
+}) satisfies z.ZodType<Project>;
+
+export const areaSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  description: z.string().optional(),
+  icon: z.string(),
+  createdAt: z.string(),
+}) satisfies z.ZodType<Area>;
+
+export const contextSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().regex(/^[\w-]+$/),
+  icon: z.string(),
+  color: z.string(),
+  archivedAt: z.string().optional(),
+  createdAt: z.string(),
+}) satisfies z.ZodType<Context>;
+
+export const contextSetSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  contextIds: z.array(z.string()),
+  createdAt: z.string(),
+}) satisfies z.ZodType<ContextSet>;
+
+export const keyResultSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  current: z.number(),
+  target: z.number(),
+  unit: z.string().optional(),
+}) satisfies z.ZodType<KeyResult>;
+
+export const goalCheckInSchema = z.object({
+  id: z.string().min(1),
+  at: z.string(),
+  note: z.string().optional(),
+  progress: z.number().min(0).max(100).optional(),
+}) satisfies z.ZodType<GoalCheckIn>;
+
+export const goalSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  description: z.string().optional(),
+  horizon: z.enum(['1-year', '3-year', '5-year', 'vision']),
+  areaId: z.string().optional(),
+  targetDate: z.string().optional(),
+  keyResults: z.array(keyResultSchema).optional(),
+  checkIns: z.array(goalCheckInSchema).optional(),
+  createdAt: z.string(),
+}) satisfies z.ZodType<Goal>;
+
+export const projectTasksActionSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('trash') }),
+  z.object({ action: z.literal('detach') }),
+  z.object({ action: z.literal('move'), projectId: z.string().min(1) }),
+]) satisfies z.ZodType<ProjectTasksAction>;
@@ -0,0 +1,67 @@
+import * as z from 'zod';
+
+import { areaSchema, contextSchema, contextSetSchema, goalSchema, projectSchema, taskSchema } from './schemas';
+import type { Area, Context, ContextSet, Goal, Project, Task } from './task';
+import type { FieldConflict, FieldEdits } from '@/utils/merge';
+
+// Wire format shared by the sync engine in lib/sync.ts and the sync router.
+
+export interface SyncRecordMap {
+  tasks: Task;
+  projects: Project;
+  areas: Area;
+  goals: Goal;
+  contexts: Context;
+  contextSets: ContextSet;
+}
+
+export type SyncEntity = keyof SyncRecordMap;
+
+export const SYNC_ENTITIES: SyncEntity[] = ['tasks', 'projects', 'areas', 'goals', 'contexts', 'contextSets'];
+
+export type SyncOp = 'upsert' | 'delete';
+
+/**
+ * A local write waiting to be pushed. `baseRev` is the server revision the
+ * device last saw for the record (0 if it has never been pushed) and `fields`
+ * lists the fields it edited since then, so the server can merge them into
+ * whatever other devices wrote in the meantime.
+ */
+export type SyncChange = {
+  [E in SyncEntity]: { entity: E; id: string; op: SyncOp; baseRev: number; record?: SyncRecordMap[E]; fields?: FieldEdits };
+}[SyncEntity];
+
+/** The server's copy of a record, as returned by a pull or a push. */
+export type RemoteChange = {
+  [E in SyncEntity]: { entity: E; id: string; rev: number; deleted: boolean; record?: SyncRecordMap[E] };
+}[SyncEntity];
+
+export interface PushResult {
+  entity: SyncEntity;
+  id: string;
+  /** `conflict` means the write was merged but some fields collided. */
+  status: 'applied' | 'conflict';
+  rev: number;
+  /** The merged server state the device should adopt. */
+  current?: RemoteChange;
+  conflicts?: FieldConflict[];
+}
+
+const changeFields = {
+  id: z.string().min(1),
+  op: z.enum(['upsert', 'delete']),
+  baseRev: z.number().int().nonnegative(),
+  fields: z.record(z.string(), z.string()).optional(),
+};
+
+export const syncChangeSchema = z.discriminatedUnion('entity', [
+  z.object({ entity: z.literal('tasks'), ...changeFields, record: taskSchema.optional() }),
+  z.object({ entity: z.literal('projects'), ...changeFields, record: projectSchema.optional() }),
+  z.object({ entity: z.literal('areas'), ...changeFields, record: areaSchema.optional() }),
+  z.object({ entity: z.literal('goals'), ...changeFields, record: goalSchema.optional() }),
+  z.object({ entity: z.literal('contexts'), ...changeFields, record: contextSchema.optional() }),
+  z.object({ entity: z.literal('contextSets'), ...changeFields, record: contextSetSchema.optional() }),
+]).refine(
+  change => change.op === 'delete' || change.record?.id === change.id,
+  { message: 'Upserts must carry a record with the same id' },
+);
@@ -1,6 +1,35 @@
 export type Priority = 'high' | 'medium' | 'low';
 export type TaskStatus = 'inbox' | 'next' | 'waiting' | 'someday' | 'done';
-export type Context = '@home' | '@work' | '@computer' | '@phone' | '@errands' | '@anywhere';
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+/** How a task repeats; see utils/recurrence.ts for the `recur:` syntax. */
+export interface Recurrence {
+  frequency: RecurrenceFrequency;
+  /** Every N days, weeks...; 1 when left out. */
+  interval?: number;
+  /** Weekly only: the days to repeat on, 0 being Sunday. */
+  weekdays?: number[];
+  /**
+   * `schedule` (the default) counts from the due date, so a late bill stays
+   * due on the 1st; `completion` counts from the day the task was done.
+   */
+  basis?: 'schedule' | 'completion';
+  /** The last day (YYYY-MM-DD) a new instance may be due. */
+  until?: string;
+  /**
+   * Monthly and yearly: the day of the month instances fall on, so that one
+   * clamped to a short month's end does not move the ones after it.
+   */
+  dayOfMonth?: number;
+}
+
+/** One step inside a task, for things too small to be a project. */
+export interface ChecklistItem {
+  id: string;
+  title: string;
+  done: boolean;
+}
 
 export interface Task {
   id: string;
@@ -8,14 +37,43 @@ export interface Task {
   description?: string;
   status: TaskStatus;
   priority?: Priority;
-  context?: Context;
+  /** Ids of the user's contexts; any one of them will do. */
+  contexts?: string[];
   projectId?: string;
   dueDate?: string;
+  /** The day (YYYY-MM-DD) work can start; until then the task is deferred. */
+  startDate?: string;
+  /** Hidden from every list but Deferred until this day (YYYY-MM-DD). */
+  waitUntil?: string;
   waitingFor?: string;
+  /** Ids of the tasks that must be done first; see utils/dependencies.ts. */
+  dependsOn?: string[];
+  checklist?: ChecklistItem[];
+  /** Order within the project; tasks without one come last, oldest first. */
+  position?: number;
   tags: string[];
   createdAt: string;
   completedAt?: string;
   estimatedMinutes?: number;
+  /** Imported key:value pairs with no field of their own, kept for export. */
+  metadata?: Record<string, string>;
+  /** Completing the task creates the next instance, which takes this over. */
+  recurrence?: Recurrence;
+  /** Set while the task is in the Trash; purged TRASH_RETENTION_DAYS later. */
+  trashedAt?: string;
+}
+
+/**
+ * In a sequential project only the first open task is available; each of the
+ * others waits on the one before it. Parallel (the default) has no order.
+ */
+export type ProjectType = 'parallel' | 'sequential';
+
+/** Support material kept with a project: a link, or just a title to remember. */
+export interface ProjectReference {
+  id: string;
+  title: string;
+  url?: string;
 }
 
 export interface Project {
@@ -23,38 +81,122 @@ export interface Project {
   title: string;
   description?: string;
   outcome?: string;
+  /** Free-form project support notes. */
+  notes?: string;
+  references?: ProjectReference[];
   areaId?: string;
+  /** The goals this project serves. */
+  goalIds?: string[];
   status: 'active' | 'completed' | 'on-hold';
+  type?: ProjectType;
   dueDate?: string;
   createdAt: string;
   completedAt?: string;
   color: string;
+  trashedAt?: string;
 }
 
+/** An area of responsibility, like Work or Health, that projects and goals belong to. */
 export interface Area {
   id: string;
   title: string;
   description?: string;
+  /** A lucide icon name; see components/AreaIcon.tsx. */
   icon: string;
   createdAt: string;
 }
 
+/**
+ * Where a next action can be done, or what it needs: `@phone`, `@errands`.
+ * Tasks refer to a context by id, so renaming one leaves them alone.
+ */
+export interface Context {
+  id: string;
+  /** Without the `@`; unique among the user's contexts, ignoring case. */
+  name: string;
+  /** A lucide icon name; see components/ContextIcon.tsx. */
+  icon: string;
+  color: string;
+  /** Archived contexts keep their tasks but leave the pickers and filters. */
+  archivedAt?: string;
+  createdAt: string;
+}
+
+/** Contexts that go together, like "At office" = @work, @computer, @phone. */
+export interface ContextSet {
+  id: string;
+  name: string;
+  contextIds: string[];
+  createdAt: string;
+}
+
+export type GoalHorizon = '1-year' | '3-year' | '5-year' | 'vision';
+
+/** A measurable sign a goal is being reached: 4 of 12 books read. */
+export interface KeyResult {
+  id: string;
+  title: string;
+  current: number;
+  target: number;
+  unit?: string;
+}
+
+/** A dated note on how a goal is going, with its progress at the time. */
+export interface GoalCheckIn {
+  id: string;
+  at: string;
+  note?: string;
+  /** 0-100, when the goal had any way to measure progress. */
+  progress?: number;
+}
+
 export interface Goal {
   id: string;
   title: string;
   description?: string;
-  horizon: '1-year' | '3-year' | '5-year' | 'vision';
+  horizon: GoalHorizon;
   areaId?: string;
+  /** YYYY-MM-DD */
+  targetDate?: string;
+  keyResults?: KeyResult[];
+  /** Oldest first. */
+  checkIns?: GoalCheckIn[];
   createdAt: string;
 }
 
-export const CONTEXTS: { value: Context; label: string; icon: string }[] = [
-  { value: '@home', label: 'Home', icon: 'Home' },
-  { value: '@work', label: 'Work', icon: 'Briefcase' },
-  { value: '@computer', label: 'Computer', icon: 'Monitor' },
-  { value: '@phone', label: 'Phone', icon: 'Smartphone' },
-  { value: '@errands', label: 'Errands', icon: 'ShoppingCart' },
-  { value: '@anywhere', label: 'Anywhere', icon: 'Globe' },
+/** The Horizons of Focus above areas, from the furthest out down. */
+export const GOAL_HORIZONS: { value: GoalHorizon; label: string }[] = [
+  { value: 'vision', label: 'Vision' },
+  { value: '5-year', label: '5 Years' },
+  { value: '3-year', label: '3 Years' },
+  { value: '1-year', label: '1 Year' },
+];
+
+/** What happens to a project's tasks when the project is deleted. */
+export type ProjectTasksAction =
+  | { action: 'trash' }
+  | { action: 'detach' }
+  | { action: 'move'; projectId: string };
+
+export const TRASH_RETENTION_DAYS = 30;
+
+// Every new install starts with these. Their ids are the values tasks held
+// before contexts were user data, so older tasks still point at them.
+export const DEFAULT_CONTEXTS: Context[] = [
+  { id: '@home', name: 'home', icon: 'Home', color: '#4ECCA3', createdAt: '2025-01-01T00:00:00.000Z' },
+  { id: '@work', name: 'work', icon: 'Briefcase', color: '#219EBC', createdAt: '2025-01-01T00:00:00.000Z' },
+  { id: '@computer', name: 'computer', icon: 'Monitor', color: '#9B5DE5', createdAt: '2025-01-01T00:00:00.000Z' },
+  { id: '@phone', name: 'phone', icon: 'Smartphone', color: '#00BBF9', createdAt: '2025-01-01T00:00:00.000Z' },
+  { id: '@errands', name: 'errands', icon: 'ShoppingCart', color: '#FFB703', createdAt: '2025-01-01T00:00:00.000Z' },
+  { id: '@anywhere', name: 'anywhere', icon: 'Globe', color: '#F15BB5', createdAt: '2025-01-01T00:00:00.000Z' },
+];
+
+// Every new install starts with these; users can rename or delete them.
+export const DEFAULT_AREAS: Area[] = [
+  { id: 'work', title: 'Work', description: 'Professional responsibilities', icon: 'Briefcase', createdAt: '2025-01-01T00:00:00.000Z' },
+  { id: 'personal', title: 'Personal', description: 'Personal life and growth', icon: 'User', createdAt: '2025-01-01T00:00:00.000Z' },
+  { id: 'health', title: 'Health', description: 'Physical and mental wellbeing', icon: 'Heart', createdAt: '2025-01-01T00:00:00.000Z' },
+  { id: 'finance', title: 'Finance', description: 'Financial management', icon: 'DollarSign', createdAt: '2025-01-01T00:00:00.000Z' },
 ];
 
 export const PRIORITIES: { value: Priority; label: string }[] = [
@@ -62,3 +204,8 @@ export const PRIORITIES: { value: Priority; label: string }[] = [
   { value: 'medium', label: 'Medium' },
   { value: 'low', label: 'Low' },
 ];
+
+export const PROJECT_COLORS = [
+  '#E94560', '#4ECCA3', '#FFB703', '#219EBC', '#9B5DE5',
+  '#F15BB5', '#00BBF9', '#00F5D4', '#FEE440', '#FF6B6B',
+];
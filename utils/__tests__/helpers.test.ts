@@ -0,0 +1,34 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { deferredUntil, parseTaskInput, toDayKey } from '@/utils/helpers';
+
+// West of UTC, so an evening here is already the next day in UTC.
+process.env.TZ = 'America/Los_Angeles';
+
+describe('parseTaskInput day values', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    // 20:00 on 14 March in Los Angeles, 03:00 on 15 March in UTC.
+    vi.setSystemTime(new Date(2026, 2, 14, 20, 0));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reads today and tomorrow on the local calendar', () => {
+    expect(parseTaskInput('Call mum due:today').dueDate).toBe('2026-03-14');
+    expect(parseTaskInput('Call mum scheduled:tomorrow').startDate).toBe('2026-03-15');
+    expect(parseTaskInput('Call mum wait:+3d').waitUntil).toBe('2026-03-17');
+  });
+
+  it('keeps a task waiting until today available today', () => {
+    const { waitUntil } = parseTaskInput('Call mum wait:today');
+    const today = toDayKey(new Date());
+    expect(deferredUntil({ status: 'next', waitUntil }, today)).toBeUndefined();
+  });
+
+  it('leaves explicit dates alone', () => {
+    expect(parseTaskInput('Call mum due:2026-04-01').dueDate).toBe('2026-04-01');
+  });
+});
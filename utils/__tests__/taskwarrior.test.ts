@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+
+import { importTaskwarrior } from '@/utils/taskwarrior';
+
+const TEMPLATE = 'a1b2c3d4-0000-4000-8000-000000000001';
+
+const instance = (uuid: string, status: string, due: string) => ({
+  uuid,
+  description: 'Water the plants',
+  status,
+  entry: '20261001T080000Z',
+  due,
+  recur: 'weekly',
+  until: '20271231T000000Z',
+  parent: TEMPLATE,
+});
+
+describe('importTaskwarrior recurring instances', () => {
+  const json = JSON.stringify([
+    { uuid: TEMPLATE, description: 'Water the plants', status: 'recurring', entry: '20261001T080000Z', due: '20261005T080000Z', recur: 'weekly', until: '20271231T000000Z' },
+    instance('a1b2c3d4-0000-4000-8000-000000000002', 'pending', '20261005T080000Z'),
+    instance('a1b2c3d4-0000-4000-8000-000000000003', 'pending', '20261012T080000Z'),
+  ]);
+
+  it('keeps the recurrence on the latest open instance only', () => {
+    const { tasks, report } = importTaskwarrior(json, { tasks: [], projects: [], contexts: [] });
+
+    expect(report.skipped).toHaveLength(1);
+    expect(tasks).toHaveLength(2);
+    const [earlier, latest] = tasks;
+    expect(earlier.recurrence).toBeUndefined();
+    expect(latest.recurrence).toMatchObject({ frequency: 'weekly', until: '2027-12-31' });
+  });
+});
@@ -0,0 +1,151 @@
+import * as z from 'zod';
+
+import type { Backup, BackupData, RestoreMode, RestoreSummary } from '@/types/backup';
+import type { ImportedCalendar } from '@/types/calendar';
+import { toContextList } from '@/utils/contexts';
+import { areaSchema, contextSchema, contextSetSchema, goalSchema, projectSchema, taskSchema } from '@/types/schemas';
+
+/**
+ * Versioned JSON backups of everything the app keeps on the device. A
+ * backup is checked against its checksum and validated record by record
+ * before anything is restored, so a damaged or hand-edited file is rejected
+ * as a whole instead of half-applied.
+ */
+
+export const BACKUP_FORMAT = 'taskflow-backup';
+export const BACKUP_VERSION = 3;
+
+const icsTimeSchema = z.object({
+  value: z.string(),
+  allDay: z.boolean(),
+  utc: z.boolean(),
+  tzid: z.string().optional(),
+});
+
+const importedCalendarSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  color: z.string(),
+  importedAt: z.string(),
+  events: z.array(z.object({
+    uid: z.string(),
+    title: z.string(),
+    start: icsTimeSchema,
+    end: icsTimeSchema.optional(),
+    durationMs: z.number().optional(),
+    rrule: z.record(z.string(), z.string()).optional(),
+    exdates: z.array(icsTimeSchema),
+    recurrenceId: icsTimeSchema.optional(),
+    cancelled: z.boolean(),
+    location: z.string().optional(),
+    description: z.string().optional(),
+  })),
+}) satisfies z.ZodType<ImportedCalendar>;
+
+const backupDataSchema = z.object({
+  tasks: z.array(taskSchema),
+  projects: z.array(projectSchema),
+  areas: z.array(areaSchema),
+  goals: z.array(goalSchema),
+  contexts: z.array(contextSchema).optional(),
+  contextSets: z.array(contextSetSchema).optional(),
+  calendars: z.array(importedCalendarSchema),
+}) satisfies z.ZodType<BackupData>;
+
+const envelopeSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.number().int().positive(),
+  exportedAt: z.string(),
+  checksum: z.string(),
+  data: z.unknown(),
+});
+
+/**
+ * FNV-1a over the UTF-16 code units, as 8 hex digits. Enough to notice a
+ * truncated or edited file; it is not meant to resist deliberate tampering.
+ */
+function checksum(json: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < json.length; i++) {
+    hash = Math.imul(hash ^ json.charCodeAt(i), 0x01000193) >>> 0;
+  }
+  return `fnv1a:${hash.toString(16).padStart(8, '0')}`;
+}
+
+export function createBackup(data: BackupData): string {
+  const backup: Backup = {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    checksum: checksum(JSON.stringify(data)),
+    data,
+  };
+  return JSON.stringify(backup, null, 2);
+}
+
+/** Parses and checks a backup file; throws with a message for the user. */
+export function readBackup(text: string): Backup {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not valid JSON');
+  }
+
+  const envelope = envelopeSchema.safeParse(json);
+  if (!envelope.success) {
+    throw new Error('This is not a TaskFlow backup');
+  }
+  if (envelope.data.version > BACKUP_VERSION) {
+    throw new Error('This backup was made by a newer version of TaskFlow. Update the app to restore it.');
+  }
+  // JSON.parse keeps key order, so the data serialises exactly as it was
+  // when the checksum was taken.
+  if (checksum(JSON.stringify(envelope.data.data)) !== envelope.data.checksum) {
+    throw new Error('This backup is damaged: its checksum does not match');
+  }
+
+  // Before version 3 a task had a single `context`.
+  let raw = envelope.data.data;
+  if (envelope.data.version < 3 && typeof raw === 'object' && raw !== null && Array.isArray((raw as { tasks?: unknown }).tasks)) {
+    raw = { ...raw, tasks: (raw as { tasks: unknown[] }).tasks.map(toContextList) };
+  }
+  const data = backupDataSchema.safeParse(raw);
+  if (!data.success) {
+    const issue = data.error.issues[0];
+    console.log('[Backup] Invalid backup data:', data.error.issues);
+    throw new Error(`This backup contains invalid data at ${issue.path.join('.')}: ${issue.message}`);
+  }
+  return { ...envelope.data, data: data.data };
+}
+
+export interface RestorePlan<T> {
+  records: T[];
+  upserted: T[];
+  removedIds: string[];
+  summary: RestoreSummary;
+}
+
+/** Works out the records after a restore and what changed, for one kind of record. */
+export function planRestore<T extends { id: string }>(current: T[], backup: T[], mode: RestoreMode): RestorePlan<T> {
+  const currentIds = new Set(current.map(r => r.id));
+  if (mode === 'merge') {
+    const added = backup.filter(r => !currentIds.has(r.id));
+    return {
+      records: [...current, ...added],
+      upserted: added,
+      removedIds: [],
+      summary: { added: added.length, replaced: 0, removed: 0 },
+    };
+  }
+
+  const backupIds = new Set(backup.map(r => r.id));
+  const removedIds = current.filter(r => !backupIds.has(r.id)).map(r => r.id);
+  const replaced = backup.filter(r => currentIds.has(r.id)).length;
+  return {
+    records: backup,
+    upserted: backup,
+    removedIds,
+    summary: { added: backup.length - replaced, replaced, removed: removedIds.length },
+  };
+}
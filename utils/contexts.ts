@@ -0,0 +1,49 @@
+import type { Context } from '@/types/task';
+
+/**
+ * The user's contexts. Tasks hold a context's id; everything people type or
+ * read (quick-add, todo.txt, Taskwarrior tags, the assistant) uses `@name`.
+ */
+
+/** Contexts that are not archived, by name, for pickers and filters. */
+export function activeContexts(contexts: Context[]): Context[] {
+  return contexts.filter(c => !c.archivedAt).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** `@name`, or the id itself for a context that no longer exists. */
+export function contextLabel(id: string, contexts: Context[]): string {
+  const context = contexts.find(c => c.id === id);
+  return context ? `@${context.name}` : id;
+}
+
+/** What a typed name is stored as: no `@`, dashes for spaces. */
+export function normalizeContextName(value: string): string {
+  return value.trim().replace(/^@+/, '').replace(/\s+/g, '-');
+}
+
+/** The active context called `name` (with or without the `@`), ignoring case. */
+export function findContextByName(name: string, contexts: Context[]): Context | undefined {
+  const wanted = normalizeContextName(name).toLowerCase();
+  return contexts.find(c => !c.archivedAt && c.name.toLowerCase() === wanted);
+}
+
+/** Why `name` cannot be used for the context `id` (or a new one), if it cannot. */
+export function contextNameError(name: string, contexts: Context[], id?: string): string | undefined {
+  const normalized = normalizeContextName(name);
+  if (!normalized) return 'Give the context a name';
+  if (!/^[\w-]+$/.test(normalized)) return 'Use letters, numbers and dashes only';
+  const taken = contexts.find(c => c.id !== id && c.name.toLowerCase() === normalized.toLowerCase());
+  if (taken) return `@${taken.name} already exists${taken.archivedAt ? ' in the archive' : ''}`;
+  return undefined;
+}
+
+/**
+ * A stored task from before tasks had several contexts: `context: '@home'`
+ * becomes `contexts: ['@home']`. Anything else is returned as it is.
+ */
+export function toContextList(record: unknown): unknown {
+  if (typeof record !== 'object' || record === null || !('context' in record)) return record;
+  const { context, ...rest } = record as { context?: unknown; contexts?: unknown };
+  if (typeof context !== 'string' || rest.contexts !== undefined) return rest;
+  return { ...rest, contexts: [context] };
+}
@@ -0,0 +1,99 @@
+import type { Project, Task } from '@/types/task';
+
+/**
+ * Task dependencies, as in Taskwarrior's `depends:`. A task is blocked while
+ * any task it depends on is still open; blockers that are done, in the Trash
+ * or gone no longer count. In a sequential project every open task also
+ * depends on the open task before it.
+ */
+
+export interface DependencyGraph {
+  /** The open tasks each blocked task waits on, by task id. */
+  blockedBy: Map<string, Task[]>;
+  /** The open tasks waiting on each blocker, by task id. */
+  blocking: Map<string, Task[]>;
+}
+
+const isOpen = (task: Task) => task.status !== 'done';
+
+/** Project order: by position, then oldest first. */
+export function sortByProjectOrder(tasks: Task[]): Task[] {
+  return [...tasks].sort((a, b) =>
+    (a.position ?? Infinity) - (b.position ?? Infinity) || a.createdAt.localeCompare(b.createdAt));
+}
+
+/** The open tasks of a sequential project after the first, each with the one before. */
+function sequenceSteps(project: Project, tasks: Task[]): [Task, Task][] {
+  const open = sortByProjectOrder(tasks.filter(t => t.projectId === project.id && isOpen(t)));
+  return open.slice(1).map((task, i) => [task, open[i]]);
+}
+
+/** `tasks` and `projects` should be the ones outside the Trash. */
+export function buildDependencyGraph(tasks: Task[], projects: Project[] = []): DependencyGraph {
+  const byId = new Map(tasks.map(t => [t.id, t]));
+  const blockedBy = new Map<string, Task[]>();
+  const blocking = new Map<string, Task[]>();
+  const add = (task: Task, blocker: Task) => {
+    if (blockedBy.get(task.id)?.includes(blocker)) return;
+    blockedBy.set(task.id, [...(blockedBy.get(task.id) ?? []), blocker]);
+    blocking.set(blocker.id, [...(blocking.get(blocker.id) ?? []), task]);
+  };
+
+  tasks.forEach(task => {
+    if (!isOpen(task) || !task.dependsOn?.length) return;
+    task.dependsOn.map(id => byId.get(id)).forEach(blocker => {
+      if (blocker && isOpen(blocker)) add(task, blocker);
+    });
+  });
+  projects
+    .filter(p => p.type === 'sequential')
+    .forEach(project => sequenceSteps(project, tasks).forEach(([task, previous]) => add(task, previous)));
+  return { blockedBy, blocking };
+}
+
+/**
+ * The task to promote to Next Actions once `completed` is done: the first
+ * open task left in its sequential project, unless it is already next or
+ * waiting on someone.
+ */
+export function nextInSequence(completed: Task, tasks: Task[], projects: Project[]): Task | undefined {
+  const project = projects.find(p => p.id === completed.projectId);
+  if (project?.type !== 'sequential') return undefined;
+  const [first] = sortByProjectOrder(tasks.filter(t => t.projectId === project.id && t.id !== completed.id && isOpen(t)));
+  return first && first.status !== 'next' && first.status !== 'waiting' ? first : undefined;
+}
+
+/**
+ * Whether `taskId` depending on `blockerId` would close a loop: the blocker
+ * is the task itself or already depends on it, directly or through others.
+ */
+export function wouldCreateCycle(tasks: Task[], taskId: string, blockerId: string): boolean {
+  const byId = new Map(tasks.map(t => [t.id, t]));
+  const seen = new Set<string>();
+  const pending = [blockerId];
+  while (pending.length > 0) {
+    const id = pending.pop()!;
+    if (id === taskId) return true;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    pending.push(...(byId.get(id)?.dependsOn ?? []));
+  }
+  return false;
+}
+
+/**
+ * The open task a `depends:` value names: its id, its title with dashes for
+ * spaces (`buy-paint`), or the start of exactly one title.
+ */
+export function resolveTaskReference(reference: string, tasks: Task[]): Task | undefined {
+  const open = tasks.filter(isOpen);
+  const byId = open.find(t => t.id === reference);
+  if (byId) return byId;
+
+  const wanted = reference.toLowerCase();
+  const slug = (task: Task) => task.title.toLowerCase().trim().replace(/\s+/g, '-');
+  const exact = open.find(t => slug(t) === wanted);
+  if (exact) return exact;
+  const prefixed = open.filter(t => slug(t).startsWith(wanted));
+  return prefixed.length === 1 ? prefixed[0] : undefined;
+}
@@ -0,0 +1,40 @@
+import { Platform } from 'react-native';
+import * as DocumentPicker from 'expo-document-picker';
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+
+export interface PickedFile {
+  name: string;
+  text: string;
+}
+
+/** Lets the user pick a text file. Resolves to null if they cancel. */
+export async function pickTextFile(mimeTypes: string[] = ['*/*']): Promise<PickedFile | null> {
+  const result = await DocumentPicker.getDocumentAsync({ type: mimeTypes, copyToCacheDirectory: true });
+  if (result.canceled) return null;
+  const asset = result.assets[0];
+  const text = asset.file ? await asset.file.text() : await new File(asset.uri).text();
+  return { name: asset.name, text };
+}
+
+/**
+ * Hands a generated file to the user: a download in the browser, the share
+ * sheet (save to Files, AirDrop, mail...) on devices.
+ */
+export async function shareTextFile(fileName: string, content: string, mimeType: string) {
+  if (Platform.OS === 'web') {
+    const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+    return;
+  }
+
+  const file = new File(Paths.cache, fileName);
+  if (file.exists) file.delete();
+  file.create();
+  file.write(content);
+  await Sharing.shareAsync(file.uri, { mimeType, dialogTitle: fileName });
+}
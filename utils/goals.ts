@@ -0,0 +1,30 @@
+import type { Goal, KeyResult, Project } from '@/types/task';
+
+/**
+ * Goal progress. A goal with key results is as far along as their average;
+ * one without is as far along as the projects serving it, completed ones
+ * counting in full. A goal with neither cannot be measured.
+ */
+
+export interface GoalProgress {
+  /** 0-100 */
+  value: number;
+  source: 'keyResults' | 'projects';
+}
+
+/** How far `current` is towards `target`, 0-100. */
+export function keyResultProgress(keyResult: KeyResult): number {
+  if (keyResult.target <= 0) return keyResult.current >= keyResult.target ? 100 : 0;
+  return Math.min(100, Math.max(0, Math.round((keyResult.current / keyResult.target) * 100)));
+}
+
+export function goalProgress(goal: Goal, projects: Project[], projectProgress: (projectId: string) => number): GoalProgress | undefined {
+  const average = (values: number[]) => Math.round(values.reduce((sum, v) => sum + v, 0) / values.length);
+  if (goal.keyResults && goal.keyResults.length > 0) {
+    return { value: average(goal.keyResults.map(keyResultProgress)), source: 'keyResults' };
+  }
+  if (projects.length > 0) {
+    return { value: average(projects.map(p => (p.status === 'completed' ? 100 : projectProgress(p.id)))), source: 'projects' };
+  }
+  return undefined;
+}
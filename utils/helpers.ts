@@ -1,3 +1,8 @@
+import type { CalendarEvent } from '@/types/calendar';
+import { Priority, Context, Task, TaskStatus, Recurrence, DEFAULT_CONTEXTS } from '@/types/task';
+import { findContextByName } from '@/utils/contexts';
+import { parseRecurrence } from '@/utils/recurrence';
+
 export function generateId(): string {
   return Date.now().toString(36) + Math.random().toString(36).substr(2, 9);
 }
@@ -54,25 +59,93 @@ export function getRelativeTime(dateString: string): string {
   return formatDate(dateString);
 }
 
-import { Priority, Context, TaskStatus } from '@/types/task';
+/** The local calendar day of a date, as `2026-11-01`. */
+export function toDayKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * The day a deferred task comes back: the later of its start and wait dates,
+ * while that is after `today`. Undefined for tasks that are available.
+ */
+export function deferredUntil(task: Pick<Task, 'status' | 'startDate' | 'waitUntil'>, today: string = toDayKey(new Date())): string | undefined {
+  if (task.status === 'done') return undefined;
+  const days = [task.startDate, task.waitUntil].filter((day): day is string => !!day).map(day => day.slice(0, 10)).sort();
+  const last = days[days.length - 1];
+  return last && last > today ? last : undefined;
+}
+
+/**
+ * Whether a calendar event touches the given local day. Floating times
+ * (no zone) parse as local time, which is what they mean.
+ */
+export function eventOccursOn(event: CalendarEvent, date: Date): boolean {
+  if (event.allDay) {
+    const day = toDayKey(date);
+    return event.start <= day && day < event.end;
+  }
+  const dayStart = new Date(date);
+  dayStart.setHours(0, 0, 0, 0);
+  const dayEnd = new Date(dayStart);
+  dayEnd.setDate(dayEnd.getDate() + 1);
+  const start = new Date(event.start);
+  const end = new Date(event.end);
+  return start < dayEnd && (end > dayStart || start >= dayStart);
+}
+
+export function formatEventTime(event: CalendarEvent): string {
+  if (event.allDay) return 'All day';
+  const format = (value: string) => new Date(value).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+  return event.end > event.start ? `${format(event.start)} – ${format(event.end)}` : format(event.start);
+}
 
 export interface ParsedTask {
   title: string;
   priority?: Priority;
-  context?: Context;
+  /** Ids of the contexts named with `@`. */
+  contexts: string[];
   projectName?: string;
   dueDate?: string;
+  startDate?: string;
+  waitUntil?: string;
+  /** What `depends:` named, for resolveTaskReference in utils/dependencies.ts. */
+  dependencies: string[];
   tags: string[];
   status?: TaskStatus;
+  recurrence?: Recurrence;
+}
+
+// today, tomorrow/tom, +3d or YYYY-MM-DD, as a plain day on the local
+// calendar, the same day deferredUntil and the lists compare against.
+function parseDayValue(value: string): string | undefined {
+  const day = new Date();
+  if (value === 'today') return toDayKey(day);
+  if (value === 'tomorrow' || value === 'tom') {
+    day.setDate(day.getDate() + 1);
+    return toDayKey(day);
+  }
+  if (value.match(/^\+\d+d$/)) {
+    day.setDate(day.getDate() + parseInt(value.slice(1, -1)));
+    return toDayKey(day);
+  }
+  if (value.match(/^\d{4}-\d{2}-\d{2}$/)) return value;
+  return undefined;
 }
 
-export function parseTaskInput(input: string): ParsedTask {
+/** `contexts` are the user's; an `@word` naming none of them stays in the title. */
+export function parseTaskInput(input: string, userContexts: Context[] = DEFAULT_CONTEXTS): ParsedTask {
   let title = input;
   let priority: Priority | undefined;
-  let context: Context | undefined;
+  const contexts: string[] = [];
   let projectName: string | undefined;
   let dueDate: string | undefined;
+  let startDate: string | undefined;
+  let waitUntil: string | undefined;
   let status: TaskStatus | undefined;
+  let recurrence: Recurrence | undefined;
+  const dependencies: string[] = [];
   const tags: string[] = [];
 
   // Parse priority: pri:H, pri:M, pri:L or !H, !M, !L
@@ -85,11 +158,13 @@ export function parseTaskInput(input: string): ParsedTask {
     title = title.replace(priorityMatch[0], '').trim();
   }
 
-  // Parse context: @home, @work, @computer, @phone, @errands, @anywhere
-  const contextMatch = title.match(/@(home|work|computer|phone|errands|anywhere)\b/i);
-  if (contextMatch) {
-    context = `@${contextMatch[1].toLowerCase()}` as Context;
-    title = title.replace(contextMatch[0], '').trim();
+  // Parse contexts: @home @phone... each one the user has
+  for (const match of title.matchAll(/(?:^|\s)@([\w-]+)/g)) {
+    const found = findContextByName(match[1], userContexts);
+    if (found) {
+      if (!contexts.includes(found.id)) contexts.push(found.id);
+      title = title.replace(match[0], ' ').trim();
+    }
   }
 
   // Parse project: pro:projectname
@@ -102,24 +177,41 @@ export function parseTaskInput(input: string): ParsedTask {
   // Parse due date: due:today, due:tomorrow, due:YYYY-MM-DD, due:+3d
   const dueMatch = title.match(/\bdue:(\S+)/i);
   if (dueMatch) {
-    const dueValue = dueMatch[1].toLowerCase();
-    const today = new Date();
-
-    if (dueValue === 'today') {
-      dueDate = today.toISOString().split('T')[0];
-    } else if (dueValue === 'tomorrow' || dueValue === 'tom') {
-      today.setDate(today.getDate() + 1);
-      dueDate = today.toISOString().split('T')[0];
-    } else if (dueValue.match(/^\+\d+d$/)) {
-      const days = parseInt(dueValue.slice(1, -1));
-      today.setDate(today.getDate() + days);
-      dueDate = today.toISOString().split('T')[0];
-    } else if (dueValue.match(/^\d{4}-\d{2}-\d{2}$/)) {
-      dueDate = dueValue;
-    }
+    dueDate = parseDayValue(dueMatch[1].toLowerCase());
     title = title.replace(dueMatch[0], '').trim();
   }
 
+  // Parse deferral: scheduled:+3d (or sched:) sets the start date, wait:+3d
+  // hides the task until then. Before tags, so +3d is not read as one.
+  const scheduledMatch = title.match(/\b(?:scheduled|sched):(\S+)/i);
+  if (scheduledMatch) {
+    startDate = parseDayValue(scheduledMatch[1].toLowerCase());
+    title = title.replace(scheduledMatch[0], '').trim();
+  }
+  const waitMatch = title.match(/\bwait:(\S+)/i);
+  if (waitMatch) {
+    waitUntil = parseDayValue(waitMatch[1].toLowerCase());
+    title = title.replace(waitMatch[0], '').trim();
+  }
+
+  // Parse dependencies: depends:buy-paint,call-landlord
+  const dependsMatch = title.match(/\bdepends:(\S+)/i);
+  if (dependsMatch) {
+    dependencies.push(...dependsMatch[1].split(',').filter(Boolean));
+    title = title.replace(dependsMatch[0], '').trim();
+  }
+
+  // Parse recurrence: recur:weekly until:2027-01-01 (see utils/recurrence.ts).
+  // Also before tags, for until:+30d.
+  const untilMatch = title.match(/\buntil:(\S+)/i);
+  const until = untilMatch ? parseDayValue(untilMatch[1].toLowerCase()) : undefined;
+  const recurMatch = title.match(/\brecur:(\S+)/i);
+  recurrence = recurMatch ? parseRecurrence(recurMatch[1], until) : undefined;
+  if (recurMatch && recurrence) {
+    title = title.replace(recurMatch[0], '').trim();
+    if (untilMatch) title = title.replace(untilMatch[0], '').trim();
+  }
+
   // Parse tags: +tag1 +tag2
   const tagMatches = title.match(/\+(\w+)/g);
   if (tagMatches) {
@@ -145,10 +237,14 @@ export function parseTaskInput(input: string): ParsedTask {
   return {
     title,
     priority,
-    context,
+    contexts,
     projectName,
     dueDate,
+    startDate,
+    waitUntil,
+    dependencies,
     tags,
     status,
+    recurrence,
   };
 }
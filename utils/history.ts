@@ -0,0 +1,28 @@
+import type { RecordChange } from '@/types/history';
+
+/** The changes that take records back to where `changes` found them. */
+export function invertChanges(changes: RecordChange[]): RecordChange[] {
+  return changes
+    .map(change => ({ ...change, before: change.after, after: change.before }) as RecordChange)
+    .reverse();
+}
+
+/**
+ * The record a change leaves behind, given the record as it is now. An
+ * update only writes its own fields, so undoing it keeps edits made to other
+ * fields since, for example by another device.
+ */
+export function resolveChange<T extends object>(
+  current: T | undefined,
+  change: { before?: T; after?: T; fields?: string[] },
+): T | undefined {
+  if (!change.after) return undefined;
+  if (!current || !change.before || !change.fields) return change.after;
+  const next: Record<string, unknown> = Object.fromEntries(Object.entries(current));
+  const after: Record<string, unknown> = Object.fromEntries(Object.entries(change.after));
+  change.fields.forEach(field => {
+    if (after[field] === undefined) delete next[field];
+    else next[field] = after[field];
+  });
+  return next as T;
+}
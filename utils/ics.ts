@@ -0,0 +1,521 @@
+import type { CalendarEvent } from '@/types/calendar';
+import type { Context, Priority, Project, Task } from '@/types/task';
+import { contextLabel } from '@/utils/contexts';
+
+/**
+ * iCalendar (RFC 5545) in both directions. Tasks with a due date are written
+ * out for calendar apps; calendars that subscribe to a feed (Google, Apple,
+ * Thunderbird) mostly ignore VTODO, so deadlines go out as all-day VEVENTs by
+ * default and `kind: 'todo'` writes VTODOs for apps that show them as
+ * reminders. Other calendars' events are read in to show next to tasks.
+ */
+
+export type IcsKind = 'event' | 'todo';
+
+export interface IcsOptions {
+  kind?: IcsKind;
+  /** Shown as the calendar's name by apps that subscribe to it. */
+  name?: string;
+  /** The user's contexts, to name each task's by. */
+  contexts?: Context[];
+}
+
+const PRODUCT_ID = '-//TaskFlow//Tasks//EN';
+const UID_DOMAIN = 'taskflow';
+const DEFAULT_EVENT_MINUTES = 30;
+
+// RFC 5545 priorities: 1 is highest, 9 lowest, 0 undefined.
+const TO_ICS_PRIORITY: Record<Priority, number> = { high: 1, medium: 5, low: 9 };
+
+const isDay = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+/** `2026-11-01T12:00:00.000Z` → `20261101T120000Z`. */
+const toDateTime = (value: string) => new Date(value).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+/** `2026-11-01` → `20261101`. */
+const toDate = (day: string) => day.replace(/-/g, '');
+
+function nextDay(day: string): string {
+  const date = new Date(`${day}T00:00:00.000Z`);
+  date.setUTCDate(date.getUTCDate() + 1);
+  return date.toISOString().slice(0, 10);
+}
+
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+const encoder = new TextEncoder();
+
+// Lines longer than 75 octets are folded onto continuation lines that start
+// with a space (which counts towards the next line's 75). Splitting between
+// characters, never inside one, keeps multi-byte text intact.
+function fold(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (octets + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function describe(task: Task, projectTitle: string | undefined, contextLabels: string[]): string {
+  const lines: string[] = [];
+  if (projectTitle) lines.push(`Project: ${projectTitle}`);
+  if (contextLabels.length > 0) lines.push(`${contextLabels.length === 1 ? 'Context' : 'Contexts'}: ${contextLabels.join(', ')}`);
+  if (task.waitingFor) lines.push(`Waiting for: ${task.waitingFor}`);
+  if (task.description) lines.push('', task.description);
+  return lines.join('\n').trim();
+}
+
+function toComponent(task: Task, projectTitle: string | undefined, kind: IcsKind, contexts: Context[]): string[] {
+  const due = task.dueDate!;
+  const component = kind === 'todo' ? 'VTODO' : 'VEVENT';
+  const lines = [
+    `BEGIN:${component}`,
+    `UID:${task.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${toDateTime(task.completedAt ?? task.createdAt)}`,
+    `CREATED:${toDateTime(task.createdAt)}`,
+    `SUMMARY:${escapeText(task.title)}`,
+  ];
+
+  if (kind === 'todo') {
+    lines.push(isDay(due) ? `DUE;VALUE=DATE:${toDate(due)}` : `DUE:${toDateTime(due)}`);
+    lines.push(`STATUS:${task.status === 'done' ? 'COMPLETED' : 'NEEDS-ACTION'}`);
+    if (task.completedAt) lines.push(`COMPLETED:${toDateTime(task.completedAt)}`);
+  } else if (isDay(due)) {
+    lines.push(`DTSTART;VALUE=DATE:${toDate(due)}`, `DTEND;VALUE=DATE:${toDate(nextDay(due))}`);
+  } else {
+    const end = new Date(new Date(due).getTime() + (task.estimatedMinutes ?? DEFAULT_EVENT_MINUTES) * 60_000);
+    lines.push(`DTSTART:${toDateTime(due)}`, `DTEND:${toDateTime(end.toISOString())}`);
+  }
+  // A deadline should not make the subscriber look busy.
+  if (kind === 'event') lines.push('TRANSP:TRANSPARENT');
+
+  const contextLabels = (task.contexts ?? []).map(id => contextLabel(id, contexts));
+  const description = describe(task, projectTitle, contextLabels);
+  if (description) lines.push(`DESCRIPTION:${escapeText(description)}`);
+  const categories = [...contextLabels, ...task.tags]
+    .filter((c): c is string => !!c);
+  if (categories.length > 0) lines.push(`CATEGORIES:${categories.map(escapeText).join(',')}`);
+  if (task.priority) lines.push(`PRIORITY:${TO_ICS_PRIORITY[task.priority]}`);
+
+  lines.push(`END:${component}`);
+  return lines;
+}
+
+/**
+ * Writes a VCALENDAR with one component per task that has a due date.
+ * Completed tasks are only included as VTODOs, where they can be marked done;
+ * as events they would clutter the calendar.
+ */
+export function exportIcs(tasks: Task[], projects: Project[], options: IcsOptions = {}): string {
+  const kind = options.kind ?? 'event';
+  const projectTitles = new Map(projects.map(p => [p.id, p.title]));
+
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${PRODUCT_ID}`, 'CALSCALE:GREGORIAN'];
+  if (options.name) lines.push(`X-WR-CALNAME:${escapeText(options.name)}`);
+
+  tasks
+    .filter(task => task.dueDate && (kind === 'todo' || task.status !== 'done'))
+    .forEach(task => {
+      const projectTitle = task.projectId ? projectTitles.get(task.projectId) : undefined;
+      lines.push(...toComponent(task, projectTitle, kind, options.contexts ?? []));
+    });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(fold).join('\r\n') + '\r\n';
+}
+
+// ---------------------------------------------------------------------------
+// Reading calendars. Times are kept as written (wall-clock value plus zone)
+// until occurrences are expanded, so repeats follow the calendar's own time
+// zone across daylight-saving changes.
+
+export interface IcsTime {
+  /** `2026-11-01` or `2026-11-01T09:00:00`, in the zone below. */
+  value: string;
+  allDay: boolean;
+  utc: boolean;
+  tzid?: string;
+}
+
+export interface IcsEvent {
+  uid: string;
+  title: string;
+  start: IcsTime;
+  end?: IcsTime;
+  /** From DURATION, in milliseconds, when there is no DTEND. */
+  durationMs?: number;
+  /** RRULE parts, e.g. `{ FREQ: 'WEEKLY', BYDAY: 'MO,WE' }`. */
+  rrule?: Record<string, string>;
+  exdates: IcsTime[];
+  /** Set on an edited occurrence of a repeating event. */
+  recurrenceId?: IcsTime;
+  cancelled: boolean;
+  location?: string;
+  description?: string;
+}
+
+export interface ParsedCalendar {
+  name?: string;
+  events: IcsEvent[];
+}
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+// Stops runaway rules (a daily event from decades ago) from freezing the app.
+const MAX_RECURRENCE_PERIODS = 20_000;
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+function parseProperty(line: string): IcsProperty | null {
+  // The value starts at the first colon outside a quoted parameter value.
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+
+  const [name, ...rawParams] = line.slice(0, colon).split(/;(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+  const params: Record<string, string> = {};
+  rawParams.forEach(param => {
+    const [key, ...rest] = param.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  });
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+function parseTime(value: string, params: Record<string, string>): IcsTime | undefined {
+  const date = value.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (date || params.VALUE === 'DATE') {
+    if (!date) return undefined;
+    return { value: `${date[1]}-${date[2]}-${date[3]}`, allDay: true, utc: false };
+  }
+  const dateTime = value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/);
+  if (!dateTime) return undefined;
+  const [, y, mo, d, h, mi, s, z] = dateTime;
+  return {
+    value: `${y}-${mo}-${d}T${h}:${mi}:${s}`,
+    allDay: false,
+    utc: z === 'Z',
+    tzid: z ? undefined : params.TZID,
+  };
+}
+
+function parseDuration(value: string): number | undefined {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return undefined;
+  const [, sign, w, d, h, m, s] = match;
+  const ms = ((Number(w ?? 0) * 7 + Number(d ?? 0)) * 24 * 3600 + Number(h ?? 0) * 3600 + Number(m ?? 0) * 60 + Number(s ?? 0)) * 1000;
+  return sign === '-' ? -ms : ms;
+}
+
+/**
+ * Reads the VEVENTs of an iCalendar file. Alarms and other nested
+ * components are ignored; events without a start are skipped.
+ */
+export function parseIcs(text: string): ParsedCalendar {
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  if (!lines.some(line => line.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+    throw new Error('This is not an iCalendar (.ics) file');
+  }
+
+  const calendar: ParsedCalendar = { events: [] };
+  let current: Partial<IcsEvent> | null = null;
+  let depth = 0;
+
+  lines.forEach(line => {
+    const property = parseProperty(line.trim());
+    if (!property) return;
+    const { name, params, value } = property;
+
+    if (name === 'BEGIN') {
+      if (value.toUpperCase() === 'VEVENT' && !current) {
+        current = { exdates: [], cancelled: false };
+        depth = 0;
+      } else if (current) {
+        depth++;
+      }
+      return;
+    }
+    if (name === 'END') {
+      if (current && depth > 0) {
+        depth--;
+      } else if (current && value.toUpperCase() === 'VEVENT') {
+        const event: Partial<IcsEvent> = current;
+        if (event.start) {
+          calendar.events.push({
+            ...event,
+            uid: event.uid ?? `${event.start.value}-${calendar.events.length}`,
+            title: event.title ?? '(No title)',
+          } as IcsEvent);
+        }
+        current = null;
+      }
+      return;
+    }
+
+    if (!current) {
+      if (name === 'X-WR-CALNAME' && value.trim()) calendar.name = unescapeText(value.trim());
+      return;
+    }
+    if (depth > 0) return;
+
+    const event: Partial<IcsEvent> = current;
+    switch (name) {
+      case 'UID': event.uid = value; break;
+      case 'SUMMARY': event.title = unescapeText(value); break;
+      case 'LOCATION': event.location = unescapeText(value) || undefined; break;
+      case 'DESCRIPTION': event.description = unescapeText(value) || undefined; break;
+      case 'DTSTART': event.start = parseTime(value, params); break;
+      case 'DTEND': event.end = parseTime(value, params); break;
+      case 'DURATION': event.durationMs = parseDuration(value); break;
+      case 'RECURRENCE-ID': event.recurrenceId = parseTime(value, params); break;
+      case 'STATUS': event.cancelled = value.toUpperCase() === 'CANCELLED'; break;
+      case 'RRULE':
+        event.rrule = Object.fromEntries(value.split(';').map(part => {
+          const [key, ...rest] = part.split('=');
+          return [key.toUpperCase(), rest.join('=')];
+        }));
+        break;
+      case 'EXDATE':
+        value.split(',').forEach(item => {
+          const time = parseTime(item, params);
+          if (time) event.exdates!.push(time);
+        });
+        break;
+    }
+  });
+
+  return calendar;
+}
+
+// Wall-clock times are handled as "naive" milliseconds: the time as if it
+// were UTC. Converting to a real instant needs the zone.
+
+function toNaive(value: string): number {
+  const [y, mo, d, h = 0, mi = 0, s = 0] = value.split(/[-T:]/).map(Number);
+  return Date.UTC(y, mo - 1, d, h, mi, s);
+}
+
+function fromNaive(ms: number, allDay: boolean): string {
+  const iso = new Date(ms).toISOString();
+  return allDay ? iso.slice(0, 10) : iso.slice(0, 19);
+}
+
+const zoneFormatters = new Map<string, Intl.DateTimeFormat | null>();
+
+function getZoneFormatter(tzid: string): Intl.DateTimeFormat | null {
+  if (!zoneFormatters.has(tzid)) {
+    try {
+      zoneFormatters.set(tzid, new Intl.DateTimeFormat('en-US', {
+        timeZone: tzid,
+        hourCycle: 'h23',
+        year: 'numeric', month: '2-digit', day: '2-digit',
+        hour: '2-digit', minute: '2-digit', second: '2-digit',
+      }));
+    } catch {
+      // Not an IANA zone (Outlook writes Windows names); treated as floating.
+      zoneFormatters.set(tzid, null);
+    }
+  }
+  return zoneFormatters.get(tzid)!;
+}
+
+/** How far the zone's wall clock is ahead of UTC at `instant`. */
+function zoneOffset(formatter: Intl.DateTimeFormat, instant: number): number {
+  const parts = Object.fromEntries(formatter.formatToParts(new Date(instant)).map(p => [p.type, p.value]));
+  const wall = Date.UTC(Number(parts.year), Number(parts.month) - 1, Number(parts.day), Number(parts.hour), Number(parts.minute), Number(parts.second));
+  return wall - Math.floor(instant / 1000) * 1000;
+}
+
+/**
+ * The instant a wall-clock time refers to, or null for all-day and floating
+ * times, which depend on where the calendar is viewed.
+ */
+function toInstant(naive: number, time: IcsTime): number | null {
+  if (time.allDay) return null;
+  if (time.utc) return naive;
+  const formatter = time.tzid ? getZoneFormatter(time.tzid) : null;
+  if (!formatter) return null;
+  const guess = naive - zoneOffset(formatter, naive);
+  return naive - zoneOffset(formatter, guess);
+}
+
+function formatTime(naive: number, time: IcsTime): string {
+  const instant = toInstant(naive, time);
+  return instant === null ? fromNaive(naive, time.allDay) : new Date(instant).toISOString();
+}
+
+/** A comparable number for matching EXDATE and RECURRENCE-ID to occurrences. */
+function timeKey(time: IcsTime): number {
+  const naive = toNaive(time.value);
+  return toInstant(naive, time) ?? naive;
+}
+
+function monthDays(year: number, month: number, rule: Record<string, string>, startDay: number): number[] {
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  if (rule.BYDAY) {
+    const days: number[] = [];
+    rule.BYDAY.split(',').forEach(entry => {
+      const match = entry.match(/^([+-]?\d+)?([A-Z]{2})$/);
+      const weekday = match ? WEEKDAYS.indexOf(match[2]) : -1;
+      if (weekday < 0) return;
+      const matching: number[] = [];
+      for (let day = 1; day <= daysInMonth; day++) {
+        if (new Date(Date.UTC(year, month, day)).getUTCDay() === weekday) matching.push(day);
+      }
+      const nth = match?.[1] ? Number(match[1]) : 0;
+      if (nth === 0) days.push(...matching);
+      else {
+        const day = nth > 0 ? matching[nth - 1] : matching[matching.length + nth];
+        if (day) days.push(day);
+      }
+    });
+    return days.sort((a, b) => a - b);
+  }
+  if (rule.BYMONTHDAY) {
+    return rule.BYMONTHDAY.split(',')
+      .map(Number)
+      .map(day => (day < 0 ? daysInMonth + day + 1 : day))
+      .filter(day => day >= 1 && day <= daysInMonth)
+      .sort((a, b) => a - b);
+  }
+  return startDay <= daysInMonth ? [startDay] : [];
+}
+
+/**
+ * Start times (naive) of a repeating event up to `until`. Covers FREQ with
+ * INTERVAL, COUNT, UNTIL, BYDAY, BYMONTHDAY and BYMONTH, which is what
+ * calendar apps write for everyday meetings; other parts are ignored.
+ */
+function recurrences(event: IcsEvent, until: number): number[] {
+  const rule = event.rrule!;
+  const start = toNaive(event.start.value);
+  const interval = Math.max(1, Number(rule.INTERVAL) || 1);
+  const count = rule.COUNT ? Number(rule.COUNT) : Infinity;
+  const untilTime = rule.UNTIL ? parseTime(rule.UNTIL, {}) : undefined;
+  const last = untilTime ? toNaive(untilTime.value) + (untilTime.allDay ? DAY_MS - 1 : 0) : Infinity;
+
+  const first = new Date(start);
+  const timeOfDay = start - Date.UTC(first.getUTCFullYear(), first.getUTCMonth(), first.getUTCDate());
+  const weekdays = rule.BYDAY?.split(',').map(day => WEEKDAYS.indexOf(day.slice(-2))).filter(day => day >= 0);
+  const months = rule.BYMONTH?.split(',').map(month => Number(month) - 1);
+
+  const periodStarts = (period: number): number[] => {
+    switch (rule.FREQ) {
+      case 'DAILY': {
+        const day = start + period * interval * DAY_MS;
+        return !weekdays || weekdays.includes(new Date(day).getUTCDay()) ? [day] : [];
+      }
+      case 'WEEKLY': {
+        // Weeks start on Monday unless WKST says otherwise.
+        const weekStart = WEEKDAYS.indexOf(rule.WKST ?? 'MO');
+        const offset = (first.getUTCDay() - weekStart + 7) % 7;
+        const week = start - offset * DAY_MS + period * interval * 7 * DAY_MS;
+        return (weekdays ?? [first.getUTCDay()])
+          .map(day => week + ((day - weekStart + 7) % 7) * DAY_MS)
+          .sort((a, b) => a - b);
+      }
+      case 'MONTHLY': {
+        const monthIndex = first.getUTCMonth() + period * interval;
+        const year = first.getUTCFullYear() + Math.floor(monthIndex / 12);
+        const month = ((monthIndex % 12) + 12) % 12;
+        if (months && !months.includes(month)) return [];
+        return monthDays(year, month, rule, first.getUTCDate()).map(day => Date.UTC(year, month, day) + timeOfDay);
+      }
+      case 'YEARLY': {
+        const year = first.getUTCFullYear() + period * interval;
+        return (months ?? [first.getUTCMonth()]).flatMap(month =>
+          monthDays(year, month, rule, first.getUTCDate()).map(day => Date.UTC(year, month, day) + timeOfDay));
+      }
+      default:
+        return [start];
+    }
+  };
+
+  const starts: number[] = [];
+  let seen = 0;
+  for (let period = 0; period < MAX_RECURRENCE_PERIODS; period++) {
+    const candidates = periodStarts(period).filter(time => time >= start);
+    for (const time of candidates) {
+      if (time > last || time > until || seen >= count) return starts;
+      starts.push(time);
+      seen++;
+    }
+    if (!rule.FREQ || !['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(rule.FREQ)) break;
+  }
+  return starts;
+}
+
+/**
+ * Turns parsed events into the occurrences that overlap `from`–`to`,
+ * applying repeat rules, exceptions (EXDATE) and edited or cancelled
+ * occurrences (RECURRENCE-ID).
+ */
+export function expandIcsEvents(events: IcsEvent[], calendarId: string, from: Date, to: Date): CalendarEvent[] {
+  // All-day and floating times only get a zone on the device, so the window
+  // is widened by a day on each side; screens filter by day anyway.
+  const windowStart = from.getTime() - DAY_MS;
+  const windowEnd = to.getTime() + DAY_MS;
+
+  const edited = new Set(events.filter(e => e.recurrenceId).map(e => `${e.uid}|${timeKey(e.recurrenceId!)}`));
+  const occurrences: CalendarEvent[] = [];
+
+  events.forEach(event => {
+    if (event.cancelled && !event.recurrenceId) return;
+    const startNaive = toNaive(event.start.value);
+    const duration = event.durationMs
+      ?? (event.end ? toNaive(event.end.value) - startNaive : event.start.allDay ? DAY_MS : 0);
+    const excluded = new Set(event.exdates.map(timeKey));
+
+    const starts = event.rrule && !event.recurrenceId ? recurrences(event, windowEnd) : [startNaive];
+    starts.forEach(naive => {
+      const key = timeKey({ ...event.start, value: fromNaive(naive, event.start.allDay) });
+      if (event.rrule && !event.recurrenceId && (excluded.has(key) || edited.has(`${event.uid}|${key}`))) return;
+      if (event.cancelled) return;
+      if (key + duration < windowStart || key > windowEnd) return;
+
+      const start = formatTime(naive, event.start);
+      occurrences.push({
+        id: `${calendarId}:${event.uid}:${start}`,
+        calendarId,
+        title: event.title,
+        start,
+        end: formatTime(naive + duration, event.end ?? event.start),
+        allDay: event.start.allDay,
+        location: event.location,
+        description: event.description,
+      });
+    });
+  });
+
+  return occurrences.sort((a, b) => a.start.localeCompare(b.start));
+}
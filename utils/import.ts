@@ -0,0 +1,48 @@
+import type { ImportReport } from '@/types/import';
+import { Project, PROJECT_COLORS } from '@/types/task';
+import { generateId } from '@/utils/helpers';
+
+export const emptyImportReport = (): ImportReport => ({
+  created: 0,
+  updated: 0,
+  removed: 0,
+  projectsCreated: 0,
+  skipped: [],
+  unmapped: {},
+});
+
+export function countUnmapped(report: ImportReport, field: string) {
+  report.unmapped[field] = (report.unmapped[field] ?? 0) + 1;
+}
+
+// Formats without spaces in names write "Home Reno" as "Home-Reno", the same
+// way the quick-add bar's `pro:` accepts it.
+const projectKey = (title: string) => title.toLowerCase().replace(/\s+/g, '-');
+
+/**
+ * Finds projects by name, case-insensitively and treating spaces and dashes
+ * alike, and creates the missing ones. Everything created is collected in
+ * `created` for the caller to save.
+ */
+export function createProjectResolver(existing: Project[]) {
+  const byTitle = new Map(existing.map(p => [projectKey(p.title), p]));
+  const created: Project[] = [];
+
+  const resolve = (title: string): string => {
+    const key = projectKey(title);
+    const found = byTitle.get(key);
+    if (found) return found.id;
+    const project: Project = {
+      id: generateId(),
+      title,
+      status: 'active',
+      color: PROJECT_COLORS[(existing.length + created.length) % PROJECT_COLORS.length],
+      createdAt: new Date().toISOString(),
+    };
+    byTitle.set(key, project);
+    created.push(project);
+    return project.id;
+  };
+
+  return { resolve, created };
+}
@@ -0,0 +1,116 @@
+/**
+ * Field-level merging for synced records. Every field carries a clock: when
+ * it was last edited and the server revision that accepted the edit. Two
+ * writes only conflict when they touch the same field and neither device had
+ * seen the other's edit; everything else merges cleanly.
+ */
+
+export interface FieldClock {
+  /** ISO timestamp of the edit on the device that made it. */
+  at: string;
+  /** Server revision at which the edit was accepted. */
+  rev: number;
+}
+
+export type FieldClocks = Record<string, FieldClock>;
+
+/** Changed field → ISO timestamp of the local edit. */
+export type FieldEdits = Record<string, string>;
+
+export interface FieldConflict {
+  field: string;
+  /** Value written by the device that pushed. */
+  localValue: unknown;
+  /** Value the server already had from another device. */
+  remoteValue: unknown;
+  /** Which side won by timestamp and is now stored. */
+  resolvedTo: 'local' | 'remote';
+}
+
+export interface MergeResult<T> {
+  record: T;
+  clocks: FieldClocks;
+  conflicts: FieldConflict[];
+}
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * The fields `updates` would change on `record`. Editors pass every field
+ * they show, and counting the untouched ones as edits would let them win
+ * conflicts they were never part of.
+ */
+export function changedFields<T extends object>(record: T, updates: Partial<T>): string[] {
+  const values = record as Record<string, unknown>;
+  return Object.entries(updates)
+    .filter(([field, value]) => !sameValue(values[field], value))
+    .map(([field]) => field);
+}
+
+/**
+ * Applies the edited fields of an incoming record on top of the stored one.
+ * `baseRev` is the revision the editing device had seen; a stored field
+ * written after it is a concurrent edit and is decided last-writer-wins.
+ */
+export function mergeFields<T extends object>(
+  stored: T,
+  clocks: FieldClocks,
+  incoming: T,
+  edits: FieldEdits,
+  baseRev: number,
+  nextRev: number,
+): MergeResult<T> {
+  const record = { ...stored } as Record<string, unknown>;
+  const nextClocks: FieldClocks = { ...clocks };
+  const conflicts: FieldConflict[] = [];
+  const incomingValues = incoming as Record<string, unknown>;
+
+  Object.entries(edits).forEach(([field, at]) => {
+    if (field === 'id') return;
+    const localValue = incomingValues[field];
+    const remoteValue = record[field];
+    const clock = clocks[field];
+
+    if (sameValue(localValue, remoteValue)) return;
+
+    if (!clock || clock.rev <= baseRev) {
+      record[field] = localValue;
+      nextClocks[field] = { at, rev: nextRev };
+      return;
+    }
+
+    const localWins = at > clock.at;
+    conflicts.push({ field, localValue, remoteValue, resolvedTo: localWins ? 'local' : 'remote' });
+    if (localWins) {
+      record[field] = localValue;
+      nextClocks[field] = { at, rev: nextRev };
+    }
+  });
+
+  // Optional fields that were cleared must not linger as `undefined` keys.
+  Object.keys(record).forEach(key => {
+    if (record[key] === undefined) delete record[key];
+  });
+
+  return { record: record as T, clocks: nextClocks, conflicts };
+}
+
+/** Clocks for a record written in full, e.g. when it is first created. */
+export function initialClocks(record: object, at: string, rev: number): FieldClocks {
+  const clocks: FieldClocks = {};
+  Object.keys(record).forEach(field => {
+    if (field !== 'id') clocks[field] = { at, rev };
+  });
+  return clocks;
+}
+
+/** Overlays the locally edited fields of `local` onto a newer `remote` copy. */
+export function overlayEdits<T extends object>(remote: T, local: T, edits: FieldEdits): T {
+  const record = { ...remote } as Record<string, unknown>;
+  const localValues = local as Record<string, unknown>;
+  Object.keys(edits).forEach(field => {
+    if (localValues[field] === undefined) delete record[field];
+    else record[field] = localValues[field];
+  });
+  return record as T;
+}
@@ -0,0 +1,195 @@
+import type { Recurrence, RecurrenceFrequency, Task } from '@/types/task';
+
+/**
+ * Repeating tasks. Rules are written the way Taskwarrior's `recur:` takes
+ * them, in quick-add, the editor and the importers:
+ *
+ *   daily, weekly, monthly, yearly    every day, week...
+ *   3d, 2w, 6mo, 1y                   every N days, weeks, months or years
+ *   biweekly, quarterly, weekdays     the usual shorthands
+ *   mon,thu  2w,mon,thu               those weekdays, every week or every N weeks
+ *   ~2w                               two weeks after it was last done
+ *
+ * Without `~` the next instance is due one period after the previous due
+ * date, however late that one was done.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const NAMED: Record<string, Pick<Recurrence, 'frequency' | 'interval' | 'weekdays'>> = {
+  daily: { frequency: 'daily' },
+  weekly: { frequency: 'weekly' },
+  monthly: { frequency: 'monthly' },
+  yearly: { frequency: 'yearly' },
+  annual: { frequency: 'yearly' },
+  biweekly: { frequency: 'weekly', interval: 2 },
+  fortnight: { frequency: 'weekly', interval: 2 },
+  quarterly: { frequency: 'monthly', interval: 3 },
+  semiannual: { frequency: 'monthly', interval: 6 },
+  weekdays: { frequency: 'weekly', weekdays: [1, 2, 3, 4, 5] },
+};
+
+const UNITS: [RegExp, RecurrenceFrequency][] = [
+  [/^(d|days?)$/, 'daily'],
+  [/^(w|wks?|weeks?)$/, 'weekly'],
+  [/^(m|mo|mos|months?)$/, 'monthly'],
+  [/^(q|quarters?)$/, 'monthly'],
+  [/^(y|yrs?|years?)$/, 'yearly'],
+];
+
+const UNIT_SUFFIX: Record<RecurrenceFrequency, string> = { daily: 'd', weekly: 'w', monthly: 'mo', yearly: 'y' };
+const NOUNS: Record<RecurrenceFrequency, string> = { daily: 'day', weekly: 'week', monthly: 'month', yearly: 'year' };
+
+function parseDuration(value: string): Pick<Recurrence, 'frequency' | 'interval'> | undefined {
+  const match = value.match(/^(\d*)([a-z]+)$/);
+  if (!match) return undefined;
+  const count = match[1] ? parseInt(match[1], 10) : 1;
+  const unit = UNITS.find(([pattern]) => pattern.test(match[2]));
+  if (!unit || count < 1) return undefined;
+  const interval = /^q/.test(match[2]) ? count * 3 : count;
+  return { frequency: unit[1], interval: interval > 1 ? interval : undefined };
+}
+
+/** Reads a `recur:` value; undefined when it is not one. */
+export function parseRecurrence(value: string, until?: string): Recurrence | undefined {
+  let text = value.trim().toLowerCase();
+  const basis = text.startsWith('~') ? 'completion' : undefined;
+  if (basis) text = text.slice(1);
+
+  let rule: Pick<Recurrence, 'frequency' | 'interval' | 'weekdays'> | undefined = NAMED[text] ?? parseDuration(text);
+  if (!rule) {
+    const parts = text.split(',');
+    const every = parseDuration(parts[0]);
+    const days = (every?.frequency === 'weekly' ? parts.slice(1) : parts).map(day => WEEKDAYS.indexOf(day.slice(0, 3)));
+    if (days.length === 0 || days.some(day => day < 0)) return undefined;
+    rule = { frequency: 'weekly', interval: every?.interval, weekdays: [...new Set(days)].sort((a, b) => a - b) };
+  }
+  const recurrence: Recurrence = { ...rule };
+  if (!recurrence.interval) delete recurrence.interval;
+  if (basis) recurrence.basis = basis;
+  if (until) recurrence.until = until;
+  return recurrence;
+}
+
+/** The `recur:` value for a rule, without `until`; parseRecurrence reads it back. */
+export function formatRecurrence(rule: Recurrence): string {
+  const prefix = rule.basis === 'completion' ? '~' : '';
+  const interval = rule.interval ?? 1;
+  if (rule.weekdays?.length) {
+    const days = rule.weekdays.map(day => WEEKDAYS[day]).join(',');
+    if (interval === 1 && days === 'mon,tue,wed,thu,fri') return `${prefix}weekdays`;
+    return `${prefix}${interval > 1 ? `${interval}w,` : ''}${days}`;
+  }
+  return `${prefix}${interval === 1 ? rule.frequency : `${interval}${UNIT_SUFFIX[rule.frequency]}`}`;
+}
+
+/** "Every 2 weeks on Mon, Thu until Jan 1, 2027", for display. */
+export function describeRecurrence(rule: Recurrence): string {
+  const interval = rule.interval ?? 1;
+  const noun = NOUNS[rule.frequency];
+  let text = interval === 1 ? `Every ${noun}` : `Every ${interval} ${noun}s`;
+  if (rule.weekdays?.length) {
+    text += ` on ${rule.weekdays.map(day => WEEKDAYS[day][0].toUpperCase() + WEEKDAYS[day].slice(1)).join(', ')}`;
+  }
+  if (rule.basis === 'completion') text += ' after done';
+  if (rule.until) {
+    text += ` until ${new Date(`${rule.until}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`;
+  }
+  return text;
+}
+
+// Date math runs on UTC fields, so plain days (`2026-11-01`) and the UTC
+// midnights the editor stores both keep their calendar day.
+
+const daysInMonth = (date: Date) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+
+/** `months` later on `day`, or the month's last day when it is shorter. */
+function addMonths(date: Date, months: number, day: number): Date {
+  const next = new Date(date);
+  next.setUTCDate(1);
+  next.setUTCMonth(next.getUTCMonth() + months);
+  next.setUTCDate(Math.min(day, daysInMonth(next)));
+  return next;
+}
+
+/**
+ * The day of the month a due date stands for: the rule's, while the date is
+ * that day clamped to its month, or the date's own once it was moved.
+ */
+function dayOfMonth(due: Date, rule: Recurrence): number {
+  const day = due.getUTCDate();
+  return rule.dayOfMonth && Math.min(rule.dayOfMonth, daysInMonth(due)) === day ? rule.dayOfMonth : day;
+}
+
+function advance(date: Date, rule: Recurrence, day: number): Date {
+  const interval = rule.interval ?? 1;
+  switch (rule.frequency) {
+    case 'daily':
+      return new Date(date.getTime() + interval * DAY_MS);
+    case 'weekly': {
+      if (!rule.weekdays?.length) return new Date(date.getTime() + interval * 7 * DAY_MS);
+      // Weeks start on Sunday; only every `interval`th week counts.
+      const weekStart = (d: Date) => Math.floor((d.getTime() - d.getUTCDay() * DAY_MS) / DAY_MS);
+      for (let offset = 1; offset <= interval * 7 + 7; offset++) {
+        const candidate = new Date(date.getTime() + offset * DAY_MS);
+        const weeks = Math.round((weekStart(candidate) - weekStart(date)) / 7);
+        if (rule.weekdays.includes(candidate.getUTCDay()) && weeks % interval === 0) return candidate;
+      }
+      return new Date(date.getTime() + interval * 7 * DAY_MS);
+    }
+    case 'monthly':
+      return addMonths(date, interval, day);
+    case 'yearly':
+      return addMonths(date, interval * 12, day);
+  }
+}
+
+/**
+ * When the instance after `task` is due, given when `task` was completed, or
+ * undefined once the rule's `until` has passed. Keeps the due date's format:
+ * a plain day stays a plain day.
+ */
+export function nextDueDate(task: Pick<Task, 'dueDate' | 'recurrence'>, completedAt: string): string | undefined {
+  const rule = task.recurrence;
+  if (!rule) return undefined;
+  const plain = !task.dueDate || /^\d{4}-\d{2}-\d{2}$/.test(task.dueDate);
+  const due = task.dueDate ? new Date(plain ? `${task.dueDate}T00:00:00.000Z` : task.dueDate) : undefined;
+
+  let anchor: Date;
+  let day: number;
+  if (due && rule.basis !== 'completion') {
+    anchor = due;
+    day = dayOfMonth(due, rule);
+  } else {
+    // The local day it was done on, at the due date's time of day if it had one.
+    const done = new Date(completedAt);
+    anchor = new Date(Date.UTC(done.getFullYear(), done.getMonth(), done.getDate()));
+    if (due) anchor = new Date(anchor.getTime() + (due.getTime() % DAY_MS));
+    day = anchor.getUTCDate();
+  }
+
+  const next = advance(anchor, rule, day);
+  const nextDay = next.toISOString().slice(0, 10);
+  if (rule.until && nextDay > rule.until) return undefined;
+  return plain ? nextDay : next.toISOString();
+}
+
+/**
+ * The rule for the instance after `task`: monthly and yearly ones counted
+ * from the due date remember its day of month, so Jan 31 leads to Feb 28
+ * and then Mar 31.
+ */
+export function nextRecurrence(task: Pick<Task, 'dueDate' | 'recurrence'>): Recurrence | undefined {
+  const rule = task.recurrence;
+  if (!rule || !task.dueDate || rule.basis === 'completion' || (rule.frequency !== 'monthly' && rule.frequency !== 'yearly')) return rule;
+  const due = new Date(/^\d{4}-\d{2}-\d{2}$/.test(task.dueDate) ? `${task.dueDate}T00:00:00.000Z` : task.dueDate);
+  return { ...rule, dayOfMonth: dayOfMonth(due, rule) };
+}
+
+/** Moves `day` as far as a due date moved from `from` to `to`, as a plain day. */
+export function shiftDay(day: string, from: string, to: string): string {
+  const utc = (value: string) => new Date(`${value.slice(0, 10)}T00:00:00.000Z`).getTime();
+  return new Date(utc(day) + utc(to) - utc(from)).toISOString().slice(0, 10);
+}
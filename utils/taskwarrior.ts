@@ -0,0 +1,267 @@
+import * as z from 'zod';
+
+import type { ImportResult } from '@/types/import';
+import { Context, Priority, Project, Task, TaskStatus } from '@/types/task';
+import { contextLabel, findContextByName } from '@/utils/contexts';
+import { toDayKey } from '@/utils/helpers';
+import { countUnmapped, createProjectResolver, emptyImportReport } from '@/utils/import';
+import { formatRecurrence, parseRecurrence } from '@/utils/recurrence';
+
+/**
+ * Conversion between our tasks and Taskwarrior's `task export` / `task
+ * import` JSON. GTD lists travel as tags (+next, +waiting...), contexts as
+ * @-tags, and ids as the Taskwarrior UUID so importing the same data twice
+ * updates tasks instead of duplicating them.
+ */
+
+const annotationSchema = z.object({ entry: z.string().optional(), description: z.string() });
+
+const taskwarriorTaskSchema = z.looseObject({
+  uuid: z.string().min(1),
+  description: z.string(),
+  status: z.string(),
+  entry: z.string().optional(),
+  end: z.string().optional(),
+  due: z.string().optional(),
+  scheduled: z.string().optional(),
+  wait: z.string().optional(),
+  project: z.string().optional(),
+  tags: z.array(z.string()).optional(),
+  priority: z.string().optional(),
+  annotations: z.array(annotationSchema).optional(),
+  // An array of UUIDs; Taskwarrior before 2.6 wrote one comma-separated string.
+  depends: z.union([z.array(z.string()), z.string()]).optional(),
+  recur: z.string().optional(),
+  until: z.string().optional(),
+  // The recurrence template an instance was made from.
+  parent: z.string().optional(),
+  // UDAs written by our own export.
+  waitingfor: z.string().optional(),
+  estimate: z.number().optional(),
+});
+
+export type TaskwarriorTask = z.infer<typeof taskwarriorTaskSchema>;
+
+// Fields read above, plus Taskwarrior's own bookkeeping that has no meaning
+// outside it. Anything else shows up in the import report as unmapped.
+const HANDLED_FIELDS = new Set([
+  ...Object.keys(taskwarriorTaskSchema.shape),
+  'id', 'urgency', 'modified', 'mask', 'imask',
+]);
+
+const GTD_TAGS: Partial<Record<string, TaskStatus>> = {
+  inbox: 'inbox',
+  next: 'next',
+  waiting: 'waiting',
+  someday: 'someday',
+};
+
+const TO_PRIORITY: Record<string, Priority> = { H: 'high', M: 'medium', L: 'low' };
+const FROM_PRIORITY: Record<Priority, string> = { high: 'H', medium: 'M', low: 'L' };
+
+/** `20261101T120000Z` → ISO string. */
+function fromTaskwarriorDate(value: string | undefined): string | undefined {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/);
+  if (!match) return undefined;
+  const [, y, mo, d, h, mi, s] = match;
+  return `${y}-${mo}-${d}T${h}:${mi}:${s}.000Z`;
+}
+
+function toTaskwarriorDate(value: string): string {
+  return new Date(value).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// Start and wait dates are plain days here, taken on the local calendar.
+function fromTaskwarriorDay(value: string | undefined): string | undefined {
+  const iso = fromTaskwarriorDate(value);
+  return iso ? toDayKey(new Date(iso)) : undefined;
+}
+
+const toTaskwarriorDay = (day: string) => toTaskwarriorDate(`${day}T00:00:00`);
+
+// Due dates entered as plain days (`2026-11-01`) parse as UTC midnight;
+// turn those back into plain days so they round-trip unchanged.
+function fromTaskwarriorDueDate(value: string | undefined): string | undefined {
+  const iso = fromTaskwarriorDate(value);
+  return iso?.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Taskwarrior requires UUIDs, but ids made on the device are not. Those get a
+ * stable UUID derived from the id (an RFC 9562 version 8 "custom" UUID), so
+ * exporting twice yields the same UUIDs and re-importing finds the task.
+ */
+export function toTaskwarriorUuid(id: string): string {
+  if (UUID_PATTERN.test(id)) return id.toLowerCase();
+  const words = [0x811c9dc5, 0x01000193, 0x2f3a8b11, 0x9e3779b9].map(seed => {
+    let hash = seed;
+    for (let i = 0; i < id.length; i++) {
+      hash = Math.imul(hash ^ id.charCodeAt(i), 0x01000193) >>> 0;
+    }
+    return hash.toString(16).padStart(8, '0');
+  });
+  const hex = words.join('');
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    `8${hex.slice(13, 16)}`,
+    `${(8 | (parseInt(hex[16], 16) & 3)).toString(16)}${hex.slice(17, 20)}`,
+    hex.slice(20, 32),
+  ].join('-');
+}
+
+/**
+ * Parses `task export` output. `existing` is used to find tasks and projects
+ * that are already here; a task found there keeps the fields Taskwarrior has
+ * no counterpart for, such as its checklist or being in the Trash. Nothing is
+ * changed until the caller saves the result.
+ */
+export function importTaskwarrior(json: string, existing: { tasks: Task[]; projects: Project[]; contexts: Context[] }): ImportResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('This file is not valid JSON');
+  }
+  // `task export` writes an array; some tools write one object per line.
+  const parsed = z.array(z.unknown()).safeParse(data);
+  const items = parsed.success ? parsed.data : [data];
+
+  const report = emptyImportReport();
+  const projects = createProjectResolver(existing.projects);
+  const byUuid = new Map(existing.tasks.map(t => [toTaskwarriorUuid(t.id), t]));
+  const tasks: Task[] = [];
+  const removedTaskIds: string[] = [];
+
+  const results = items.map(item => taskwarriorTaskSchema.safeParse(item));
+
+  // Every instance of a recurrence carries its template's recur and until.
+  // Only the latest open instance keeps them, so completing the others here
+  // does not start a chain of its own for each.
+  const latestInstances = new Map<string, TaskwarriorTask>();
+  results.forEach(({ data: tw }) => {
+    if (!tw?.parent || tw.status === 'completed' || tw.status === 'deleted') return;
+    const latest = latestInstances.get(tw.parent);
+    if (!latest || (tw.due ?? '') > (latest.due ?? '')) latestInstances.set(tw.parent, tw);
+  });
+
+  results.forEach((result, index) => {
+    if (!result.success) {
+      report.skipped.push({ title: `Item ${index + 1}`, reason: 'Missing uuid, description or status' });
+      return;
+    }
+    const tw = result.data;
+    const current = byUuid.get(tw.uuid.toLowerCase());
+
+    if (tw.status === 'deleted') {
+      if (current) {
+        removedTaskIds.push(current.id);
+        report.removed++;
+      } else {
+        report.skipped.push({ title: tw.description, reason: 'Deleted in Taskwarrior' });
+      }
+      return;
+    }
+    if (tw.status === 'recurring') {
+      report.skipped.push({ title: tw.description, reason: 'Recurrence templates are not supported; their instances are imported' });
+      return;
+    }
+
+    Object.keys(tw).forEach(field => {
+      if (!HANDLED_FIELDS.has(field)) countUnmapped(report, field);
+    });
+
+    let status: TaskStatus = 'next';
+    const contexts: string[] = [];
+    const tags: string[] = [];
+    (tw.tags ?? []).forEach(tag => {
+      const known = tag.startsWith('@') ? findContextByName(tag, existing.contexts) : undefined;
+      if (GTD_TAGS[tag]) status = GTD_TAGS[tag]!;
+      else if (known) contexts.push(known.id);
+      else tags.push(tag);
+    });
+    if (tw.status === 'completed') status = 'done';
+
+    // Tasks imported alongside keep their UUID as id, like this one.
+    const dependsOn = (typeof tw.depends === 'string' ? tw.depends.split(',') : tw.depends ?? [])
+      .filter(Boolean)
+      .map(uuid => byUuid.get(uuid.toLowerCase())?.id ?? uuid);
+
+    const task: Task = {
+      ...current,
+      id: current?.id ?? tw.uuid,
+      title: tw.description,
+      description: tw.annotations?.map(a => a.description).join('\n') || undefined,
+      status,
+      priority: tw.priority ? TO_PRIORITY[tw.priority] : undefined,
+      contexts: contexts.length > 0 ? [...new Set(contexts)] : undefined,
+      projectId: tw.project ? projects.resolve(tw.project) : undefined,
+      dueDate: fromTaskwarriorDueDate(tw.due),
+      // A "waiting" task is hidden until its wait date, as waitUntil does.
+      startDate: fromTaskwarriorDay(tw.scheduled),
+      waitUntil: fromTaskwarriorDay(tw.wait),
+      recurrence: tw.recur && (!tw.parent || latestInstances.get(tw.parent) === tw)
+        ? parseRecurrence(tw.recur, fromTaskwarriorDate(tw.until)?.slice(0, 10))
+        : undefined,
+      waitingFor: tw.waitingfor,
+      dependsOn: dependsOn.length > 0 ? dependsOn : undefined,
+      tags,
+      createdAt: current?.createdAt ?? fromTaskwarriorDate(tw.entry) ?? new Date().toISOString(),
+      completedAt: status === 'done' ? fromTaskwarriorDate(tw.end) ?? new Date().toISOString() : undefined,
+      estimatedMinutes: tw.estimate,
+    };
+    tasks.push(task);
+    if (current) report.updated++;
+    else report.created++;
+  });
+
+  report.projectsCreated = projects.created.length;
+  return { tasks, projects: projects.created, removedTaskIds, report };
+}
+
+/** Produces JSON that `task import` accepts. */
+export function exportTaskwarrior(tasks: Task[], projects: Project[], contexts: Context[]): string {
+  const projectTitles = new Map(projects.map(p => [p.id, p.title]));
+
+  const exported = tasks.map(task => {
+    const tags = [...task.tags];
+    if (task.status !== 'done') tags.unshift(task.status);
+    task.contexts?.forEach(id => tags.push(contextLabel(id, contexts)));
+
+    const tw: Record<string, unknown> = {
+      uuid: toTaskwarriorUuid(task.id),
+      description: task.title,
+      status: task.status === 'done' ? 'completed' : 'pending',
+      entry: toTaskwarriorDate(task.createdAt),
+    };
+    if (task.completedAt) tw.end = toTaskwarriorDate(task.completedAt);
+    if (task.dueDate) tw.due = toTaskwarriorDate(task.dueDate);
+    if (task.startDate) tw.scheduled = toTaskwarriorDay(task.startDate);
+    if (task.waitUntil) tw.wait = toTaskwarriorDay(task.waitUntil);
+    const project = task.projectId ? projectTitles.get(task.projectId) : undefined;
+    if (project) tw.project = project;
+    if (tags.length > 0) tw.tags = tags;
+    if (task.priority) tw.priority = FROM_PRIORITY[task.priority];
+    if (task.description) {
+      tw.annotations = task.description.split('\n').filter(line => line.trim()).map(line => ({
+        entry: toTaskwarriorDate(task.createdAt),
+        description: line,
+      }));
+    }
+    // Taskwarrior only repeats due tasks, on a fixed schedule and without
+    // weekday lists; other rules stay behind.
+    const rule = task.recurrence;
+    if (rule && task.dueDate && rule.basis !== 'completion' && !rule.weekdays?.length) {
+      tw.recur = formatRecurrence(rule);
+      if (rule.until) tw.until = toTaskwarriorDate(`${rule.until}T23:59:59.000Z`);
+    }
+    if (task.waitingFor) tw.waitingfor = task.waitingFor;
+    if (task.dependsOn?.length) tw.depends = task.dependsOn.map(toTaskwarriorUuid);
+    if (task.estimatedMinutes !== undefined) tw.estimate = task.estimatedMinutes;
+    return tw;
+  });
+
+  return JSON.stringify(exported, null, 2);
+}
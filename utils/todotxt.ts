@@ -0,0 +1,247 @@
+import type { ImportResult } from '@/types/import';
+import { Context, Priority, Project, Recurrence, RecurrenceFrequency, Task, TaskStatus } from '@/types/task';
+import { contextLabel, findContextByName } from '@/utils/contexts';
+import { generateId } from '@/utils/helpers';
+import { createProjectResolver, emptyImportReport } from '@/utils/import';
+import { formatRecurrence, parseRecurrence } from '@/utils/recurrence';
+
+/**
+ * Conversion between tasks and todo.txt lines
+ * (https://github.com/todotxt/todo.txt):
+ *
+ *   x (A) 2026-01-02 2026-01-01 Call mom +Family @phone due:2026-01-05 t:2026-01-01
+ *
+ * The first +project becomes the task's project and every @context the user
+ * has one of its contexts; others are kept as tags ("Extra", "@garage",
+ * "+Side") and written back as tag:Extra, @garage and +Side after the
+ * project, so a tag never comes back as a project. key:value pairs without a
+ * field of their own go into `metadata`, so nothing in a line is lost on a
+ * round-trip; a line without a creation date is written back without one.
+ * GTD lists other than Next Actions are written as `status:waiting` etc.
+ * `t:` is the threshold (start) date and `wait:` hides a task until that day.
+ * Repeating tasks use the common `rec:` extension: `rec:1w` repeats a week
+ * after completion, `rec:+1w` a week after the due date, up to `until:`.
+ */
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const PRIORITY = /^\(([A-Z])\)$/;
+// Keys start with a letter so that times like 10:30 stay part of the title,
+// and values must not start with "/" so that URLs do too.
+const KEY_VALUE = /^([A-Za-z][^\s:]*):([^\s:/][^\s:]*)$/;
+
+const TO_PRIORITY: Record<string, Priority> = { A: 'high', B: 'medium', C: 'low' };
+const FROM_PRIORITY: Record<Priority, string> = { high: 'A', medium: 'B', low: 'C' };
+
+const OPEN_STATUSES = new Set<string>(['inbox', 'next', 'waiting', 'someday']);
+
+// Keys with a field of their own; everything else is metadata.
+const DUE_KEY = 'due';
+const STATUS_KEY = 'status';
+const PRIORITY_KEY = 'pri';
+const THRESHOLD_KEY = 't';
+const WAIT_KEY = 'wait';
+const REC_KEY = 'rec';
+const UNTIL_KEY = 'until';
+// May appear more than once, unlike the keys above.
+const TAG_KEY = 'tag';
+// Marks a task imported from a line without a creation date. Keys read from
+// a line start with a letter, so this one is never written or read back.
+const UNDATED_KEY = '_undated';
+
+const REC_UNITS: Record<RecurrenceFrequency, string> = { daily: 'd', weekly: 'w', monthly: 'm', yearly: 'y' };
+
+function toRec(rule: Recurrence): string {
+  // Weekday lists have no todo.txt spelling; ours reads them back.
+  const value = rule.weekdays?.length
+    ? formatRecurrence({ ...rule, basis: undefined })
+    : `${rule.interval ?? 1}${REC_UNITS[rule.frequency]}`;
+  return rule.basis === 'completion' ? value : `+${value}`;
+}
+
+const toDay = (value: string) => value.slice(0, 10);
+const fromDay = (day: string) => `${day}T00:00:00.000Z`;
+const noSpaces = (value: string) => value.trim().replace(/\s+/g, '-');
+
+interface TodoTxtLine {
+  done: boolean;
+  priority?: string;
+  completionDate?: string;
+  creationDate?: string;
+  words: string[];
+  projects: string[];
+  contexts: string[];
+  tags: string[];
+  metadata: Record<string, string>;
+}
+
+function parseLine(line: string): TodoTxtLine {
+  const tokens = line.trim().split(/\s+/);
+  const parsed: TodoTxtLine = { done: false, words: [], projects: [], contexts: [], tags: [], metadata: {} };
+  let i = 0;
+
+  if (tokens[i] === 'x') {
+    parsed.done = true;
+    i++;
+  }
+  const priority = tokens[i]?.match(PRIORITY);
+  if (priority) {
+    parsed.priority = priority[1];
+    i++;
+  }
+  // A completed line carries its completion date first, then the creation date.
+  if (parsed.done && DATE.test(tokens[i] ?? '')) {
+    parsed.completionDate = tokens[i++];
+  }
+  if (DATE.test(tokens[i] ?? '')) {
+    parsed.creationDate = tokens[i++];
+  }
+
+  tokens.slice(i).forEach(token => {
+    const keyValue = token.match(KEY_VALUE);
+    if (token.length > 1 && token.startsWith('+')) parsed.projects.push(token.slice(1));
+    else if (token.length > 1 && token.startsWith('@')) parsed.contexts.push(token.slice(1));
+    else if (keyValue?.[1] === TAG_KEY) parsed.tags.push(keyValue[2]);
+    else if (keyValue) parsed.metadata[keyValue[1]] = keyValue[2];
+    else parsed.words.push(token);
+  });
+  return parsed;
+}
+
+/** Parses a todo.txt file. Nothing is changed until the caller saves the result. */
+export function importTodoTxt(text: string, existing: { projects: Project[]; contexts: Context[] }): ImportResult {
+  const report = emptyImportReport();
+  const projects = createProjectResolver(existing.projects);
+  const tasks: Task[] = [];
+  const now = new Date().toISOString();
+
+  text.split(/\r?\n/).forEach(line => {
+    if (!line.trim()) return;
+    const parsed = parseLine(line);
+    if (parsed.words.length === 0) {
+      report.skipped.push({ title: line.trim(), reason: 'No task text' });
+      return;
+    }
+    const metadata = { ...parsed.metadata };
+    const tags = [...parsed.tags];
+
+    let status: TaskStatus = parsed.done ? 'done' : 'next';
+    if (!parsed.done && OPEN_STATUSES.has(metadata[STATUS_KEY])) {
+      status = metadata[STATUS_KEY] as TaskStatus;
+      delete metadata[STATUS_KEY];
+    }
+
+    // Completed lines conventionally keep their old priority as `pri:A`.
+    let priorityLetter = parsed.priority;
+    if (!priorityLetter && parsed.done && metadata[PRIORITY_KEY]) {
+      priorityLetter = metadata[PRIORITY_KEY];
+      delete metadata[PRIORITY_KEY];
+    }
+    const priority = priorityLetter ? TO_PRIORITY[priorityLetter] : undefined;
+    if (priorityLetter && !priority) metadata[PRIORITY_KEY] = priorityLetter;
+
+    let dueDate: string | undefined;
+    if (DATE.test(metadata[DUE_KEY] ?? '')) {
+      dueDate = metadata[DUE_KEY];
+      delete metadata[DUE_KEY];
+    }
+
+    const takeDay = (key: string) => {
+      const day = DATE.test(metadata[key] ?? '') ? metadata[key] : undefined;
+      if (day) delete metadata[key];
+      return day;
+    };
+    const startDate = takeDay(THRESHOLD_KEY);
+    const waitUntil = takeDay(WAIT_KEY);
+
+    let recurrence: Recurrence | undefined;
+    if (metadata[REC_KEY]) {
+      const rec = metadata[REC_KEY];
+      const until = DATE.test(metadata[UNTIL_KEY] ?? '') ? metadata[UNTIL_KEY] : undefined;
+      recurrence = parseRecurrence(rec.startsWith('+') ? rec.slice(1) : `~${rec}`, until);
+      if (recurrence) {
+        delete metadata[REC_KEY];
+        if (until) delete metadata[UNTIL_KEY];
+      }
+    }
+
+    const contexts: string[] = [];
+    parsed.contexts.forEach(name => {
+      const known = findContextByName(name, existing.contexts);
+      if (known) {
+        if (!contexts.includes(known.id)) contexts.push(known.id);
+      } else {
+        tags.push(`@${name}`);
+      }
+    });
+
+    const [project, ...otherProjects] = parsed.projects;
+    tags.push(...otherProjects.map(name => `+${name}`));
+    if (!parsed.creationDate) metadata[UNDATED_KEY] = 'true';
+
+    tasks.push({
+      id: generateId(),
+      title: parsed.words.join(' '),
+      status,
+      priority,
+      contexts: contexts.length > 0 ? contexts : undefined,
+      projectId: project ? projects.resolve(project) : undefined,
+      dueDate,
+      startDate,
+      waitUntil,
+      recurrence,
+      tags,
+      createdAt: parsed.creationDate ? fromDay(parsed.creationDate) : now,
+      completedAt: parsed.completionDate ? fromDay(parsed.completionDate) : undefined,
+      metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
+    });
+    report.created++;
+  });
+
+  report.projectsCreated = projects.created.length;
+  return { tasks, projects: projects.created, removedTaskIds: [], report };
+}
+
+function toLine(task: Task, projectTitles: Map<string, string>, contexts: Context[]): string {
+  const metadata = { ...task.metadata };
+  const parts: string[] = [];
+
+  if (task.status === 'done') {
+    parts.push('x');
+    if (task.completedAt) parts.push(toDay(task.completedAt));
+    if (task.priority) metadata[PRIORITY_KEY] = FROM_PRIORITY[task.priority];
+  } else {
+    const letter = task.priority ? FROM_PRIORITY[task.priority] : metadata[PRIORITY_KEY];
+    if (letter) parts.push(`(${letter})`);
+    delete metadata[PRIORITY_KEY];
+  }
+  if (!metadata[UNDATED_KEY]) parts.push(toDay(task.createdAt));
+  delete metadata[UNDATED_KEY];
+  parts.push(task.title.replace(/\s*\n\s*/g, ' '));
+
+  const project = task.projectId ? projectTitles.get(task.projectId) : undefined;
+  if (project) parts.push(`+${noSpaces(project)}`);
+  task.contexts?.forEach(id => parts.push(contextLabel(id, contexts)));
+  task.tags.forEach(tag => {
+    // A +tag only stays one while a project comes before it.
+    const asIs = tag.startsWith('@') || (tag.startsWith('+') && !!project);
+    parts.push(asIs ? noSpaces(tag) : `${TAG_KEY}:${noSpaces(tag)}`);
+  });
+
+  if (task.status !== 'done' && task.status !== 'next') metadata[STATUS_KEY] = task.status;
+  if (task.dueDate) metadata[DUE_KEY] = toDay(task.dueDate);
+  if (task.startDate) metadata[THRESHOLD_KEY] = task.startDate;
+  if (task.waitUntil) metadata[WAIT_KEY] = task.waitUntil;
+  if (task.recurrence) {
+    metadata[REC_KEY] = toRec(task.recurrence);
+    if (task.recurrence.until) metadata[UNTIL_KEY] = task.recurrence.until;
+  }
+  Object.entries(metadata).forEach(([key, value]) => parts.push(`${key}:${value}`));
+
+  return parts.join(' ');
+}
+
+/** Writes one todo.txt line per task. */
+export function exportTodoTxt(tasks: Task[], projects: Project[], contexts: Context[]): string {
+  const projectTitles = new Map(projects.map(p => [p.id, p.title]));
+  return tasks.map(task => toLine(task, projectTitles, contexts)).join('\n') + '\n';
+}